@@ -13,8 +13,13 @@ import type {
   FilterApi,
   FunctionReference,
 } from "convex/server";
+import type * as access from "../access.js";
 import type * as auth from "../auth.js";
+import type * as collaboration from "../collaboration.js";
+import type * as community from "../community.js";
+import type * as projectVersions from "../projectVersions.js";
 import type * as projects from "../projects.js";
+import type * as sharing from "../sharing.js";
 import type * as users from "../users.js";
 
 /**
@@ -26,8 +31,13 @@ import type * as users from "../users.js";
  * ```
  */
 declare const fullApi: ApiFromModules<{
+  access: typeof access;
   auth: typeof auth;
+  collaboration: typeof collaboration;
+  community: typeof community;
+  projectVersions: typeof projectVersions;
   projects: typeof projects;
+  sharing: typeof sharing;
   users: typeof users;
 }>;
 export declare const api: FilterApi<
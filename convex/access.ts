@@ -0,0 +1,81 @@
+// Convex Project Access Control
+// This file works out what a user is allowed to do with a project
+
+import type { Id } from "./_generated/dataModel";
+
+export type ProjectRole = "owner" | "editor" | "commenter" | "viewer";
+
+// Higher roles can do everything the lower roles can
+const ROLE_RANK: Record<ProjectRole, number> = {
+  viewer: 1,
+  commenter: 2,
+  editor: 3,
+  owner: 4,
+};
+
+// Helper function to get the role a user has on a project, null if they have none
+export async function getProjectRole(
+  ctx: any,
+  project: { _id: Id<"projects">; userId: string },
+  userId: string | undefined
+): Promise<ProjectRole | null> {
+  if (!userId) {
+    return null;
+  }
+
+  if (project.userId === userId) {
+    return "owner";
+  }
+
+  const member = await ctx.db
+    .query("projectMembers")
+    .withIndex("by_projectId_userId", (q: any) =>
+      q.eq("projectId", project._id).eq("userId", userId)
+    )
+    .first();
+
+  return member ? member.role : null;
+}
+
+// Helper function to check a role is at least the role needed
+export function hasRole(role: ProjectRole | null, needed: ProjectRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[needed];
+}
+
+// Helper function to check the current user is an admin, returns their identity
+export async function requireAdmin(ctx: any) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Unauthorized");
+  }
+
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q: any) => q.eq("userId", identity.subject))
+    .first();
+  if (profile?.role !== "admin") {
+    throw new Error("Only admins can review reports");
+  }
+
+  return identity;
+}
+
+// Helper function to load a project the current user has at least the needed role on
+export async function getProjectWithRole(
+  ctx: any,
+  projectId: Id<"projects">,
+  needed: ProjectRole
+) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Unauthorized");
+  }
+
+  const project = await ctx.db.get(projectId);
+  const role = project ? await getProjectRole(ctx, project, identity.subject) : null;
+  if (!project || !hasRole(role, needed)) {
+    throw new Error("Project not found or access denied");
+  }
+
+  return { project, identity, role: role as ProjectRole };
+}
@@ -0,0 +1,220 @@
+// Convex Collaborative Editing
+// This file implements the operation log and presence used to edit a project together
+
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getProjectWithRole } from "./access";
+
+// Collaborators that have not been seen for this long are no longer shown
+const PRESENCE_TIMEOUT_MS = 30 * 1000;
+
+// Most operations sent to a client in one query result
+const MAX_OPERATIONS = 500;
+
+// Operations already in the saved xml are kept this long for clients that are still catching up
+const OPERATION_RETENTION_MS = 10 * 60 * 1000;
+
+const COLLABORATOR_COLORS = ["#e6194b", "#3cb44b", "#4363d8", "#f58231", "#911eb4", "#46f0f0"];
+
+// Helper function to pick the same color for a user every time
+function collaboratorColor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash + userId.charCodeAt(i)) % COLLABORATOR_COLORS.length;
+  }
+  return COLLABORATOR_COLORS[hash];
+}
+
+// Helper function to remove the operations a save put into the project's xml
+// Clients load the xml and only ask for the operations after the saved seq
+export async function trimOperations(ctx: any, projectId: Id<"projects">, savedSeq: number) {
+  const cutoff = Date.now() - OPERATION_RETENTION_MS;
+  const operations = await ctx.db
+    .query("workspaceOperations")
+    .withIndex("by_projectId_seq", (q: any) => q.eq("projectId", projectId).lte("seq", savedSeq))
+    .order("asc")
+    .take(MAX_OPERATIONS);
+
+  for (const operation of operations) {
+    if (operation.created >= cutoff) {
+      break;
+    }
+    await ctx.db.delete(operation._id);
+  }
+}
+
+/**
+ * Get the operations after a sequence number, oldest first
+ */
+export const getOperations = query({
+  args: {
+    projectId: v.id("projects"),
+    afterSeq: v.number(),
+  },
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.projectId, "viewer");
+
+    return await ctx.db
+      .query("workspaceOperations")
+      .withIndex("by_projectId_seq", (q) =>
+        q.eq("projectId", args.projectId).gt("seq", args.afterSeq)
+      )
+      .order("asc")
+      .take(MAX_OPERATIONS);
+  },
+});
+
+/**
+ * Add a client's operations to the log
+ * Operations on blocks another client deleted since baseSeq are rejected
+ */
+export const submitOperations = mutation({
+  args: {
+    projectId: v.id("projects"),
+    clientId: v.string(),
+    baseSeq: v.number(), // Last operation the client had applied
+    operations: v.array(
+      v.object({
+        type: v.string(),
+        blockId: v.optional(v.string()),
+        key: v.string(),
+        event: v.string(),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    const { project, identity } = await getProjectWithRole(ctx, args.projectId, "editor");
+
+    const concurrentOperations = await ctx.db
+      .query("workspaceOperations")
+      .withIndex("by_projectId_seq", (q) =>
+        q.eq("projectId", args.projectId).gt("seq", args.baseSeq)
+      )
+      .collect();
+
+    const deletedBlockIds = new Set(
+      concurrentOperations
+        .filter((o) => o.clientId !== args.clientId && o.type === "delete" && o.blockId)
+        .map((o) => o.blockId)
+    );
+
+    const latest = await ctx.db
+      .query("workspaceOperations")
+      .withIndex("by_projectId_seq", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .first();
+
+    // The log is trimmed up to the saved seq, so numbering carries on from the project when it is empty
+    let seq = Math.max(latest ? latest.seq : 0, project.operationSeq || 0);
+    const results: Array<{ accepted: boolean; seq?: number }> = [];
+
+    for (const operation of args.operations) {
+      if (operation.blockId && operation.type !== "create" && deletedBlockIds.has(operation.blockId)) {
+        results.push({ accepted: false });
+        continue;
+      }
+
+      seq += 1;
+      await ctx.db.insert("workspaceOperations", {
+        projectId: args.projectId,
+        userId: identity.subject,
+        clientId: args.clientId,
+        seq,
+        ...operation,
+        created: Date.now(),
+      });
+      results.push({ accepted: true, seq });
+    }
+
+    return { results, latestSeq: seq };
+  },
+});
+
+/**
+ * Get the people editing a project and the blocks they have selected
+ */
+export const getCollaborators = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.projectId, "viewer");
+
+    const collaborators = await ctx.db
+      .query("collaborators")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    const cutoff = Date.now() - PRESENCE_TIMEOUT_MS;
+    return collaborators.filter((c) => c.lastSeen > cutoff);
+  },
+});
+
+/**
+ * Tell the other collaborators this client is still here and what it has selected
+ */
+export const updatePresence = mutation({
+  args: {
+    projectId: v.id("projects"),
+    clientId: v.string(),
+    selectedBlockId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const { identity } = await getProjectWithRole(ctx, args.projectId, "viewer");
+
+    const existing = await ctx.db
+      .query("collaborators")
+      .withIndex("by_clientId", (q) => q.eq("clientId", args.clientId))
+      .first();
+
+    if (existing) {
+      // Client ids come from the browser so only patch this user's row for this project
+      if (existing.projectId !== args.projectId || existing.userId !== identity.subject) {
+        throw new Error("Unauthorized");
+      }
+
+      await ctx.db.patch(existing._id, {
+        selectedBlockId: args.selectedBlockId,
+        lastSeen: Date.now(),
+      });
+      return existing._id;
+    }
+
+    return await ctx.db.insert("collaborators", {
+      projectId: args.projectId,
+      userId: identity.subject,
+      clientId: args.clientId,
+      name: identity.name || identity.email || "Anonymous",
+      color: collaboratorColor(identity.subject),
+      selectedBlockId: args.selectedBlockId,
+      lastSeen: Date.now(),
+    });
+  },
+});
+
+/**
+ * Remove a client from the collaborators list
+ */
+export const leaveProject = mutation({
+  args: { clientId: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    const existing = await ctx.db
+      .query("collaborators")
+      .withIndex("by_clientId", (q) => q.eq("clientId", args.clientId))
+      .first();
+
+    if (!existing) {
+      return;
+    }
+
+    if (existing.userId !== identity.subject) {
+      throw new Error("Unauthorized");
+    }
+
+    await ctx.db.delete(existing._id);
+  },
+});
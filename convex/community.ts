@@ -0,0 +1,344 @@
+// Convex Community Features
+// This file implements likes, comments and abuse reports on projects
+
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { getProjectRole, hasRole, requireAdmin } from "./access";
+import { syncProjectTags } from "./projects";
+
+// Open reports from different users needed before content is hidden for review
+const REPORTS_TO_HIDE = 3;
+
+const MAX_COMMENT_LENGTH = 2000;
+const MAX_REASON_LENGTH = 500;
+
+// Helper function to load a project the user may like, comment on and report
+// Public projects are open to everyone, private ones need a role on the project
+async function getCommunityProject(
+  ctx: any,
+  projectId: Id<"projects">,
+  userId: string | undefined,
+  needed: "viewer" | "commenter"
+) {
+  const project = await ctx.db.get(projectId);
+  if (!project) {
+    throw new Error("Project not found or access denied");
+  }
+
+  const role = await getProjectRole(ctx, project, userId);
+  if (!hasRole(role, needed) && (!project.isPublic || project.hidden)) {
+    throw new Error("Project not found or access denied");
+  }
+
+  return project;
+}
+
+// Helper function to get the signed in user or fail
+async function requireIdentity(ctx: any) {
+  const identity = await ctx.auth.getUserIdentity();
+  if (!identity) {
+    throw new Error("Unauthorized");
+  }
+  return identity;
+}
+
+// Helper function to trim text and check its length
+function validateText(text: string, maxLength: number, label: string): string {
+  const trimmed = text.trim();
+  if (trimmed.length < 1 || trimmed.length > maxLength) {
+    throw new Error(`${label} must be between 1 and ${maxLength} characters`);
+  }
+  return trimmed;
+}
+
+/**
+ * Get a project's like count and whether the current user liked it
+ */
+export const getLikeStatus = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    const project = await getCommunityProject(ctx, args.projectId, identity?.subject, "viewer");
+
+    const like = identity
+      ? await ctx.db
+          .query("projectLikes")
+          .withIndex("by_projectId_userId", (q) =>
+            q.eq("projectId", args.projectId).eq("userId", identity.subject)
+          )
+          .first()
+      : null;
+
+    return { liked: !!like, likes: project.likes || 0 };
+  },
+});
+
+/**
+ * Like a project, or take the like back if the user already liked it
+ */
+export const toggleLike = mutation({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    const project = await getCommunityProject(ctx, args.projectId, identity.subject, "viewer");
+
+    const existing = await ctx.db
+      .query("projectLikes")
+      .withIndex("by_projectId_userId", (q) =>
+        q.eq("projectId", args.projectId).eq("userId", identity.subject)
+      )
+      .first();
+
+    const likes = Math.max(0, (project.likes || 0) + (existing ? -1 : 1));
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    } else {
+      await ctx.db.insert("projectLikes", {
+        projectId: args.projectId,
+        userId: identity.subject,
+        created: Date.now(),
+      });
+    }
+    await ctx.db.patch(args.projectId, { likes });
+    await syncProjectTags(ctx, args.projectId);
+
+    return { liked: !existing, likes };
+  },
+});
+
+/**
+ * Get a project's comments oldest first, replies carry the id of their parent
+ * Hidden comments are only returned to their author
+ */
+export const getProjectComments = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    await getCommunityProject(ctx, args.projectId, identity?.subject, "viewer");
+
+    const comments = await ctx.db
+      .query("projectComments")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return comments
+      .filter((comment) => !comment.hidden || comment.userId === identity?.subject)
+      .sort((a, b) => a.created - b.created);
+  },
+});
+
+/**
+ * Comment on a project or reply to another comment
+ */
+export const addComment = mutation({
+  args: {
+    projectId: v.id("projects"),
+    body: v.string(),
+    parentId: v.optional(v.id("projectComments")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    await getCommunityProject(ctx, args.projectId, identity.subject, "commenter");
+    const body = validateText(args.body, MAX_COMMENT_LENGTH, "Comment");
+
+    if (args.parentId) {
+      const parent = await ctx.db.get(args.parentId);
+      if (!parent || parent.projectId !== args.projectId || parent.deleted) {
+        throw new Error("The comment you replied to no longer exists");
+      }
+    }
+
+    const profile = await ctx.db
+      .query("profiles")
+      .withIndex("by_userId", (q) => q.eq("userId", identity.subject))
+      .first();
+
+    const commentId = await ctx.db.insert("projectComments", {
+      projectId: args.projectId,
+      userId: identity.subject,
+      authorName: profile?.username || profile?.name || identity.name || "Anonymous",
+      parentId: args.parentId,
+      body,
+      created: Date.now(),
+    });
+
+    return await ctx.db.get(commentId);
+  },
+});
+
+/**
+ * Change the text of the current user's comment
+ */
+export const editComment = mutation({
+  args: {
+    id: v.id("projectComments"),
+    body: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    const comment = await ctx.db.get(args.id);
+    if (!comment || comment.deleted || comment.userId !== identity.subject) {
+      throw new Error("Comment not found or access denied");
+    }
+
+    await ctx.db.patch(args.id, {
+      body: validateText(args.body, MAX_COMMENT_LENGTH, "Comment"),
+      edited: Date.now(),
+    });
+
+    return await ctx.db.get(args.id);
+  },
+});
+
+/**
+ * Delete a comment, allowed for its author, the project owner and admins
+ * Comments with replies keep their place in the thread without their text
+ */
+export const deleteComment = mutation({
+  args: { id: v.id("projectComments") },
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    const comment = await ctx.db.get(args.id);
+    if (!comment) {
+      throw new Error("Comment not found or access denied");
+    }
+
+    const project = await ctx.db.get(comment.projectId);
+    if (comment.userId !== identity.subject && project?.userId !== identity.subject) {
+      await requireAdmin(ctx);
+    }
+
+    const reply = await ctx.db
+      .query("projectComments")
+      .withIndex("by_projectId", (q) => q.eq("projectId", comment.projectId))
+      .filter((q) => q.eq(q.field("parentId"), args.id))
+      .first();
+
+    if (reply) {
+      await ctx.db.patch(args.id, { body: "", deleted: true });
+    } else {
+      await ctx.db.delete(args.id);
+    }
+  },
+});
+
+/**
+ * Report a project or one of its comments as abusive
+ * Content is hidden once enough people reported it, until an admin reviews it
+ */
+export const reportContent = mutation({
+  args: {
+    projectId: v.id("projects"),
+    commentId: v.optional(v.id("projectComments")),
+    reason: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const identity = await requireIdentity(ctx);
+    await getCommunityProject(ctx, args.projectId, identity.subject, "viewer");
+    const reason = validateText(args.reason, MAX_REASON_LENGTH, "Reason");
+
+    if (args.commentId) {
+      const comment = await ctx.db.get(args.commentId);
+      if (!comment || comment.projectId !== args.projectId) {
+        throw new Error("Comment not found or access denied");
+      }
+    }
+
+    const targetReports = await ctx.db
+      .query("reports")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .filter((q) =>
+        q.and(q.eq(q.field("commentId"), args.commentId), q.eq(q.field("status"), "open"))
+      )
+      .collect();
+
+    if (targetReports.some((report) => report.reporterId === identity.subject)) {
+      throw new Error("You already reported this");
+    }
+
+    await ctx.db.insert("reports", {
+      projectId: args.projectId,
+      commentId: args.commentId,
+      reporterId: identity.subject,
+      reason,
+      status: "open",
+      created: Date.now(),
+    });
+
+    if (targetReports.length + 1 >= REPORTS_TO_HIDE) {
+      await ctx.db.patch(args.commentId ?? args.projectId, { hidden: true });
+      await syncProjectTags(ctx, args.projectId);
+    }
+  },
+});
+
+/**
+ * Get the reports waiting for review with the content they point at
+ */
+export const getOpenReports = query({
+  args: {},
+  handler: async (ctx) => {
+    await requireAdmin(ctx);
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_status", (q) => q.eq("status", "open"))
+      .collect();
+
+    return await Promise.all(
+      reports.map(async (report) => {
+        const project = await ctx.db.get(report.projectId);
+        const comment = report.commentId ? await ctx.db.get(report.commentId) : null;
+
+        return {
+          ...report,
+          projectName: project?.name ?? null,
+          commentBody: comment?.body ?? null,
+          hidden: !!(report.commentId ? comment?.hidden : project?.hidden),
+        };
+      })
+    );
+  },
+});
+
+/**
+ * Close every open report on a project or comment
+ * Dismissing shows the content again, upholding keeps it hidden
+ */
+export const resolveReport = mutation({
+  args: {
+    id: v.id("reports"),
+    action: v.union(v.literal("dismiss"), v.literal("uphold")),
+  },
+  handler: async (ctx, args) => {
+    const identity = await requireAdmin(ctx);
+    const report = await ctx.db.get(args.id);
+    if (!report) {
+      throw new Error("Report not found");
+    }
+
+    const targetReports = await ctx.db
+      .query("reports")
+      .withIndex("by_projectId", (q) => q.eq("projectId", report.projectId))
+      .filter((q) =>
+        q.and(q.eq(q.field("commentId"), report.commentId), q.eq(q.field("status"), "open"))
+      )
+      .collect();
+
+    const status = args.action === "dismiss" ? "dismissed" : "upheld";
+    for (const targetReport of targetReports) {
+      await ctx.db.patch(targetReport._id, {
+        status,
+        resolvedBy: identity.subject,
+        resolvedAt: Date.now(),
+      });
+    }
+
+    const target = await ctx.db.get(report.commentId ?? report.projectId);
+    if (target) {
+      await ctx.db.patch(target._id, { hidden: args.action === "uphold" });
+      await syncProjectTags(ctx, report.projectId);
+    }
+  },
+});
@@ -0,0 +1,108 @@
+// Convex Project Version History
+// This file implements snapshots, checkpoints and restores of project workspaces
+
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { recordProjectVersion, saveProjectFile, syncProjectTags, validateXML } from "./projects";
+import { getProjectWithRole } from "./access";
+
+/**
+ * Get the version history of a project, newest first
+ * The workspace XML is left out, use getProjectVersion to load it
+ */
+export const getProjectVersions = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.projectId, "viewer");
+
+    const versions = await ctx.db
+      .query("projectVersions")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .order("desc")
+      .collect();
+
+    return versions.map(({ workspace, ...version }) => ({
+      ...version,
+      size: workspace.length,
+    }));
+  },
+});
+
+/**
+ * Get a single version including its workspace XML
+ */
+export const getProjectVersion = query({
+  args: { id: v.id("projectVersions") },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.id);
+    if (!version) {
+      return null;
+    }
+
+    await getProjectWithRole(ctx, version.projectId, "viewer");
+
+    return version;
+  },
+});
+
+/**
+ * Create a named checkpoint of the project's current workspace
+ */
+export const createCheckpoint = mutation({
+  args: {
+    projectId: v.id("projects"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const { project } = await getProjectWithRole(ctx, args.projectId, "editor");
+
+    const name = args.name.trim();
+    if (name.length < 1 || name.length > 100) {
+      throw new Error("Checkpoint name must be between 1 and 100 characters");
+    }
+
+    const versionId = await recordProjectVersion(ctx, args.projectId, project.workspace, project.userId, {
+      kind: "checkpoint",
+      name,
+    });
+
+    return await ctx.db.get(versionId);
+  },
+});
+
+/**
+ * Restore a project to an earlier version
+ * The restored workspace is saved as a new version so history is never lost
+ */
+export const restoreProjectVersion = mutation({
+  args: { id: v.id("projectVersions") },
+  handler: async (ctx, args) => {
+    const version = await ctx.db.get(args.id);
+    if (!version) {
+      throw new Error("Version not found");
+    }
+
+    const { project } = await getProjectWithRole(ctx, version.projectId, "editor");
+
+    if (!validateXML(version.workspace)) {
+      throw new Error("Invalid XML format: malformed Blockly workspace");
+    }
+
+    // Keep the workspace being replaced in case it was never snapshotted
+    await recordProjectVersion(ctx, project._id, project.workspace, project.userId, { kind: "auto" });
+
+    await ctx.db.patch(project._id, {
+      workspace: version.workspace,
+      updated: Date.now(),
+    });
+    await syncProjectTags(ctx, project._id);
+    await saveProjectFile(ctx, project._id, version.workspace, project.userId);
+    await recordProjectVersion(ctx, project._id, version.workspace, project.userId, {
+      kind: "restore",
+      name: version.name,
+      restoredFrom: version._id,
+    });
+
+    return await ctx.db.get(project._id);
+  },
+});
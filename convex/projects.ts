@@ -2,11 +2,25 @@
 // This file implements project management functions for Arduino projects
 
 import { v } from "convex/values";
-import { query, mutation } from "./_generated/server";
-import type { Id } from "./_generated/dataModel";
+import { paginationOptsValidator } from "convex/server";
+import { query, mutation, internalMutation } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { getProjectRole, getProjectWithRole, hasRole } from "./access";
+import { trimOperations } from "./collaboration";
+
+// Auto snapshots closer together than this are merged into one version
+const AUTO_VERSION_INTERVAL_MS = 5 * 60 * 1000;
+
+// How many generations of remixes are followed in each direction
+const MAX_REMIX_DEPTH = 10;
+
+// Most public projects read when counting tags
+const MAX_TAG_FACET_PROJECTS = 1000;
+
+const projectScope = v.union(v.literal("mine"), v.literal("public"));
 
 // Helper function to generate checksum for project files
-function generateChecksum(data: string): string {
+export function generateChecksum(data: string): string {
   // Simple hash function for data integrity checking
   let hash = 0;
   for (let i = 0; i < data.length; i++) {
@@ -18,7 +32,7 @@ function generateChecksum(data: string): string {
 }
 
 // Helper function to validate XML format
-function validateXML(xml: string): boolean {
+export function validateXML(xml: string): boolean {
   try {
     // Basic XML validation - should contain valid Blockly structure
     return xml.includes('<xml') && xml.includes('</xml>') && xml.length > 0;
@@ -27,8 +41,51 @@ function validateXML(xml: string): boolean {
   }
 }
 
+// Helper function to build the text a project is found by in search
+export function projectSearchText(project: { name: string; description?: string; tags?: string[] }): string {
+  return [project.name, project.description || "", ...(project.tags || [])].join(" ");
+}
+
+// Helper function to keep a project's tag rows in step with the project
+// Call it after changing the tags or a field projects are listed by
+export async function syncProjectTags(ctx: any, projectId: Id<"projects">) {
+  const project = await ctx.db.get(projectId);
+  const rows = await ctx.db
+    .query("projectTags")
+    .withIndex("by_projectId", (q: any) => q.eq("projectId", projectId))
+    .collect();
+
+  const tags = project ? [...new Set<string>(project.tags || [])] : [];
+  const listed = (tag: string) => ({
+    projectId,
+    tag,
+    userId: project.userId,
+    isPublic: project.isPublic,
+    hidden: project.hidden,
+    searchText: project.searchText,
+    likes: project.likes,
+    views: project.views,
+    updated: project.updated,
+  });
+  const unchanged = (row: any) =>
+    tags.includes(row.tag) &&
+    Object.entries(listed(row.tag)).every(([field, value]) => row[field] === value);
+
+  for (const row of rows) {
+    if (!unchanged(row)) {
+      await ctx.db.delete(row._id);
+    }
+  }
+  const kept = rows.filter(unchanged).map((row: any) => row.tag);
+  for (const tag of tags) {
+    if (!kept.includes(tag)) {
+      await ctx.db.insert("projectTags", listed(tag));
+    }
+  }
+}
+
 // Helper function to save project file with integrity checking
-async function saveProjectFile(ctx: any, projectId: Id<"projects">, workspace: string, userId: string) {
+export async function saveProjectFile(ctx: any, projectId: Id<"projects">, workspace: string, userId: string) {
   if (!validateXML(workspace)) {
     throw new Error("Invalid XML content: malformed Blockly workspace");
   }
@@ -50,6 +107,52 @@ async function saveProjectFile(ctx: any, projectId: Id<"projects">, workspace: s
   return checksum;
 }
 
+// Helper function to add a snapshot of the workspace to the project's history
+export async function recordProjectVersion(
+  ctx: any,
+  projectId: Id<"projects">,
+  workspace: string,
+  userId: string,
+  options: {
+    kind: "auto" | "checkpoint" | "restore";
+    name?: string;
+    restoredFrom?: Id<"projectVersions">;
+  }
+) {
+  const checksum = generateChecksum(workspace);
+  const now = Date.now();
+
+  if (options.kind === "auto") {
+    const latest = await ctx.db
+      .query("projectVersions")
+      .withIndex("by_projectId", (q: any) => q.eq("projectId", projectId))
+      .order("desc")
+      .first();
+
+    // Nothing changed since the last snapshot
+    if (latest && latest.workspace === workspace) {
+      return latest._id;
+    }
+
+    // Rate limit auto snapshots by folding quick saves into the latest one
+    if (latest && latest.kind === "auto" && now - latest.created < AUTO_VERSION_INTERVAL_MS) {
+      await ctx.db.patch(latest._id, { workspace, checksum });
+      return latest._id;
+    }
+  }
+
+  return await ctx.db.insert("projectVersions", {
+    projectId,
+    userId,
+    workspace,
+    kind: options.kind,
+    name: options.name,
+    restoredFrom: options.restoredFrom,
+    checksum,
+    created: now,
+  });
+}
+
 /**
  * Create a new Arduino project
  */
@@ -88,12 +191,16 @@ export const createProject = mutation({
       tags: args.tags,
       likes: 0,
       views: 0,
+      searchText: projectSearchText(args),
       created: Date.now(),
       updated: Date.now(),
     });
 
+    await syncProjectTags(ctx, projectId);
+
     // Save project file with integrity checking
     const checksum = await saveProjectFile(ctx, projectId, args.workspace, identity.subject);
+    await recordProjectVersion(ctx, projectId, args.workspace, identity.subject, { kind: "auto" });
 
     const project = await ctx.db.get(projectId);
     return { 
@@ -118,16 +225,19 @@ export const updateProject = mutation({
     boardType: v.optional(v.union(v.literal("uno"), v.literal("nano"), v.literal("mega"))),
     isPublic: v.optional(v.boolean()),
     tags: v.optional(v.array(v.string())),
+    operationSeq: v.optional(v.number()), // Last collaboration operation included in the xml
   },
   handler: async (ctx, args) => {
-    const identity = await ctx.auth.getUserIdentity();
-    if (!identity) {
-      throw new Error("Unauthorized");
-    }
-
-    const project = await ctx.db.get(args.id);
-    if (!project || project.userId !== identity.subject) {
-      throw new Error("Project not found or access denied");
+    // Editors can change the blocks, only the owner can change the project's details
+    const { project, role } = await getProjectWithRole(ctx, args.id, "editor");
+    const changesDetails =
+      args.name !== undefined ||
+      args.description !== undefined ||
+      args.boardType !== undefined ||
+      args.isPublic !== undefined ||
+      args.tags !== undefined;
+    if (changesDetails && !hasRole(role, "owner")) {
+      throw new Error("Only the project owner can change the project details");
     }
 
     // Validate name if provided
@@ -150,12 +260,21 @@ export const updateProject = mutation({
     if (args.boardType !== undefined) updates.boardType = args.boardType;
     if (args.isPublic !== undefined) updates.isPublic = args.isPublic;
     if (args.tags !== undefined) updates.tags = args.tags;
+    // A save from a client that is behind never moves the seq back, operations after it would be numbered twice
+    if (args.operationSeq !== undefined) updates.operationSeq = Math.max(args.operationSeq, project.operationSeq || 0);
+    if (changesDetails) updates.searchText = projectSearchText({ ...project, ...updates });
 
     await ctx.db.patch(args.id, updates);
+    await syncProjectTags(ctx, args.id);
     
-    // Update project file if XML changed
+    // Update project file and history if XML changed
     if (args.xml !== undefined) {
-      await saveProjectFile(ctx, args.id, args.xml, identity.subject);
+      await saveProjectFile(ctx, args.id, args.xml, project.userId);
+      await recordProjectVersion(ctx, args.id, args.xml, project.userId, { kind: "auto" });
+    }
+
+    if (updates.operationSeq !== undefined) {
+      await trimOperations(ctx, args.id, updates.operationSeq);
     }
     
     return await ctx.db.get(args.id);
@@ -181,6 +300,168 @@ export const getUserProjects = query({
   },
 });
 
+/**
+ * Search the current user's projects or the public projects a page at a time
+ * With a search term results are ordered by relevance, otherwise by the sort field
+ */
+export const searchProjects = query({
+  args: {
+    scope: projectScope,
+    search: v.optional(v.string()),
+    tag: v.optional(v.string()),
+    sort: v.optional(v.union(v.literal("updated"), v.literal("likes"), v.literal("views"))),
+    paginationOpts: paginationOptsValidator,
+  },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (args.scope === "mine" && !identity) {
+      throw new Error("Unauthorized");
+    }
+
+    const userId = identity?.subject ?? "";
+    const search = args.search?.trim();
+    const sort = args.sort ?? "updated";
+
+    // Reported projects are left out before paginating so pages stay full
+    const visible = (q: any) =>
+      args.scope === "mine" ? q.eq(q.field("userId"), userId) : q.neq(q.field("hidden"), true);
+
+    const tag = args.tag;
+    if (tag) {
+      const rows = search
+        ? await ctx.db
+            .query("projectTags")
+            .withSearchIndex("search_text", (q) =>
+              args.scope === "mine"
+                ? q.search("searchText", search).eq("tag", tag).eq("userId", userId)
+                : q.search("searchText", search).eq("tag", tag).eq("isPublic", true)
+            )
+            .filter(visible)
+            .paginate(args.paginationOpts)
+        : args.scope === "mine"
+          ? await ctx.db
+              .query("projectTags")
+              .withIndex(`by_tag_userId_${sort}`, (q) => q.eq("tag", tag).eq("userId", userId))
+              .order("desc")
+              .paginate(args.paginationOpts)
+          : await ctx.db
+              .query("projectTags")
+              .withIndex(`by_tag_public_${sort}`, (q) => q.eq("tag", tag).eq("isPublic", true))
+              .order("desc")
+              .filter(visible)
+              .paginate(args.paginationOpts);
+
+      const projects = await Promise.all(rows.page.map((row) => ctx.db.get(row.projectId)));
+      return {
+        ...rows,
+        page: projects.filter((project): project is Doc<"projects"> => project !== null),
+      };
+    }
+
+    return search
+      ? await ctx.db
+          .query("projects")
+          .withSearchIndex("search_text", (q) =>
+            args.scope === "mine"
+              ? q.search("searchText", search).eq("userId", userId)
+              : q.search("searchText", search).eq("isPublic", true)
+          )
+          .filter(visible)
+          .paginate(args.paginationOpts)
+      : args.scope === "mine"
+        ? await ctx.db
+            .query("projects")
+            .withIndex(`by_userId_${sort}`, (q) => q.eq("userId", userId))
+            .order("desc")
+            .paginate(args.paginationOpts)
+        : await ctx.db
+            .query("projects")
+            .withIndex(`by_public_${sort}`, (q) => q.eq("isPublic", true))
+            .order("desc")
+            .filter(visible)
+            .paginate(args.paginationOpts);
+  },
+});
+
+/**
+ * Count how many of the current user's or the public projects use each tag
+ */
+export const getProjectTags = query({
+  args: { scope: projectScope },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (args.scope === "mine" && !identity) {
+      throw new Error("Unauthorized");
+    }
+
+    const projects =
+      args.scope === "mine"
+        ? await ctx.db
+            .query("projects")
+            .withIndex("by_userId", (q) => q.eq("userId", identity!.subject))
+            .collect()
+        : await ctx.db
+            .query("projects")
+            .withIndex("by_public_updated", (q) => q.eq("isPublic", true))
+            .order("desc")
+            .take(MAX_TAG_FACET_PROJECTS);
+
+    const counts = new Map<string, number>();
+    for (const project of projects) {
+      if (args.scope === "public" && project.hidden) {
+        continue;
+      }
+      for (const tag of project.tags || []) {
+        counts.set(tag, (counts.get(tag) || 0) + 1);
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  },
+});
+
+/**
+ * Fill in the search text of projects saved before search existed
+ * Run from the dashboard until it reports isDone
+ */
+export const backfillProjectSearchText = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("projects")
+      .paginate({ cursor: args.cursor, numItems: 100 });
+
+    for (const project of page) {
+      if (project.searchText === undefined) {
+        await ctx.db.patch(project._id, { searchText: projectSearchText(project) });
+      }
+    }
+
+    return { isDone, cursor: continueCursor };
+  },
+});
+
+/**
+ * Fill in the tag rows of projects saved before tags were indexed
+ * Run from the dashboard until it reports isDone
+ */
+export const backfillProjectTags = internalMutation({
+  args: { cursor: v.union(v.string(), v.null()) },
+  handler: async (ctx, args) => {
+    const { page, isDone, continueCursor } = await ctx.db
+      .query("projects")
+      .paginate({ cursor: args.cursor, numItems: 100 });
+
+    for (const project of page) {
+      await syncProjectTags(ctx, project._id);
+    }
+
+    return { isDone, cursor: continueCursor };
+  },
+});
+
 /**
  * Get a single project by ID
  */
@@ -195,11 +476,12 @@ export const getProject = query({
     }
 
     // Check access permissions
-    if (project.userId !== identity?.subject && !project.isPublic) {
+    const role = await getProjectRole(ctx, project, identity?.subject);
+    if (!role && (!project.isPublic || project.hidden)) {
       return null;
     }
 
-    return project;
+    return { ...project, role };
   },
 });
 
@@ -211,7 +493,7 @@ export const getPublicProject = query({
   handler: async (ctx, args) => {
     const project = await ctx.db.get(args.id);
 
-    if (!project || !project.isPublic) {
+    if (!project || !project.isPublic || project.hidden) {
       return null;
     }
 
@@ -226,32 +508,163 @@ export const incrementProjectViews = mutation({
   args: { id: v.id("projects") },
   handler: async (ctx, args) => {
     const project = await ctx.db.get(args.id);
-    if (!project || !project.isPublic) {
+    if (!project || !project.isPublic || project.hidden) {
       throw new Error("Project not found or not public");
     }
 
     await ctx.db.patch(args.id, {
       views: (project.views || 0) + 1,
     });
+    await syncProjectTags(ctx, args.id);
   },
 });
 
 /**
- * Delete a project
+ * Copy a public or shared project into the current user's account
+ * The copy keeps a link to the original so remixes can be traced back
  */
-export const deleteProject = mutation({
-  args: { id: v.id("projects") }, // Changed from projectId to id to match contract
+export const forkProject = mutation({
+  args: {
+    id: v.id("projects"),
+    name: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
     const identity = await ctx.auth.getUserIdentity();
     if (!identity) {
       throw new Error("Unauthorized");
     }
 
-    const project = await ctx.db.get(args.id);
-    if (!project || project.userId !== identity.subject) {
+    const source = await ctx.db.get(args.id);
+    const role = source ? await getProjectRole(ctx, source, identity.subject) : null;
+    if (!source || (!role && (!source.isPublic || source.hidden))) {
       throw new Error("Project not found or access denied");
     }
 
+    const name = (args.name ?? `${source.name} (remix)`).trim().slice(0, 100);
+    if (name.length < 1) {
+      throw new Error("Project name must be between 1 and 100 characters");
+    }
+
+    const projectId = await ctx.db.insert("projects", {
+      userId: identity.subject,
+      name,
+      description: source.description,
+      workspace: source.workspace,
+      boardType: source.boardType,
+      isPublic: false,
+      canShare: false,
+      tags: source.tags,
+      likes: 0,
+      views: 0,
+      forks: 0,
+      forkedFrom: source._id,
+      searchText: projectSearchText({ ...source, name }),
+      created: Date.now(),
+      updated: Date.now(),
+    });
+
+    await syncProjectTags(ctx, projectId);
+    await saveProjectFile(ctx, projectId, source.workspace, identity.subject);
+    await recordProjectVersion(ctx, projectId, source.workspace, identity.subject, { kind: "auto" });
+
+    await ctx.db.patch(source._id, {
+      forks: (source.forks || 0) + 1,
+    });
+
+    const project = await ctx.db.get(projectId);
+    return { projectId, project };
+  },
+});
+
+// Helper function to describe a project in a remix tree, private projects only show that they exist
+async function remixSummary(ctx: any, project: any) {
+  if (!project.isPublic || project.hidden) {
+    return { _id: project._id, name: null, author: null, forks: project.forks || 0, created: project.created };
+  }
+
+  const profile = await ctx.db
+    .query("profiles")
+    .withIndex("by_userId", (q: any) => q.eq("userId", project.userId))
+    .first();
+
+  return {
+    _id: project._id,
+    name: project.name,
+    author: profile?.username || profile?.name || null,
+    forks: project.forks || 0,
+    created: project.created,
+  };
+}
+
+// Helper function to collect the public remixes of a project and their remixes
+async function getRemixes(ctx: any, projectId: Id<"projects">, depth: number): Promise<any[]> {
+  if (depth >= MAX_REMIX_DEPTH) {
+    return [];
+  }
+
+  const forks = await ctx.db
+    .query("projects")
+    .withIndex("by_forkedFrom", (q: any) => q.eq("forkedFrom", projectId))
+    .collect();
+
+  return await Promise.all(
+    forks
+      .filter((fork: any) => fork.isPublic && !fork.hidden)
+      .map(async (fork: any) => ({
+        ...(await remixSummary(ctx, fork)),
+        remixes: await getRemixes(ctx, fork._id, depth + 1),
+      }))
+  );
+}
+
+/**
+ * Get where a public project was remixed from and the public remixes made of it
+ * Ancestors are ordered from the original project down to the direct parent
+ */
+export const getRemixTree = query({
+  args: { id: v.id("projects") },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    const project = await ctx.db.get(args.id);
+    if (!project) {
+      return null;
+    }
+
+    const role = await getProjectRole(ctx, project, identity?.subject);
+    if (!role && (!project.isPublic || project.hidden)) {
+      return null;
+    }
+
+    const ancestors = [];
+    let parentId = project.forkedFrom;
+    while (parentId && ancestors.length < MAX_REMIX_DEPTH) {
+      const parent = await ctx.db.get(parentId);
+      // The original was deleted, the remix keeps its own copy
+      if (!parent) {
+        break;
+      }
+      ancestors.unshift(await remixSummary(ctx, parent));
+      parentId = parent.forkedFrom;
+    }
+
+    return {
+      ancestors,
+      project: {
+        ...(await remixSummary(ctx, { ...project, isPublic: true, hidden: false })),
+        remixes: await getRemixes(ctx, project._id, 0),
+      },
+    };
+  },
+});
+
+/**
+ * Delete a project
+ */
+export const deleteProject = mutation({
+  args: { id: v.id("projects") }, // Changed from projectId to id to match contract
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.id, "owner");
+
     // Delete associated project files
     const projectFiles = await ctx.db
       .query("projectFiles")
@@ -262,8 +675,85 @@ export const deleteProject = mutation({
       await ctx.db.delete(file._id);
     }
 
-    // Delete the project
+    // Delete the project's collaboration operations and who is editing it
+    const workspaceOperations = await ctx.db
+      .query("workspaceOperations")
+      .withIndex("by_projectId_seq", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const operation of workspaceOperations) {
+      await ctx.db.delete(operation._id);
+    }
+
+    const collaborators = await ctx.db
+      .query("collaborators")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const collaborator of collaborators) {
+      await ctx.db.delete(collaborator._id);
+    }
+
+    // Delete who the project is shared with and its invite links
+    const projectMembers = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const member of projectMembers) {
+      await ctx.db.delete(member._id);
+    }
+
+    const projectInvites = await ctx.db
+      .query("projectInvites")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const invite of projectInvites) {
+      await ctx.db.delete(invite._id);
+    }
+
+    // Delete the project's likes, comments and reports
+    const projectLikes = await ctx.db
+      .query("projectLikes")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const like of projectLikes) {
+      await ctx.db.delete(like._id);
+    }
+
+    const projectComments = await ctx.db
+      .query("projectComments")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const comment of projectComments) {
+      await ctx.db.delete(comment._id);
+    }
+
+    const reports = await ctx.db
+      .query("reports")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const report of reports) {
+      await ctx.db.delete(report._id);
+    }
+
+    // Delete the project's version history
+    const projectVersions = await ctx.db
+      .query("projectVersions")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.id))
+      .collect();
+
+    for (const version of projectVersions) {
+      await ctx.db.delete(version._id);
+    }
+
+    // Delete the project and its tag rows
     await ctx.db.delete(args.id);
+    await syncProjectTags(ctx, args.id);
   },
 });
 
@@ -279,7 +769,7 @@ export const getPublicProjects = query({
     
     return await ctx.db
       .query("projects")
-      .filter((q) => q.eq(q.field("isPublic"), true))
+      .filter((q) => q.and(q.eq(q.field("isPublic"), true), q.neq(q.field("hidden"), true)))
       .order("desc")
       .take(limit);
   },
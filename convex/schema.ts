@@ -16,6 +16,7 @@ export default defineSchema({
     location: v.optional(v.string()), // Location is optional
     website: v.optional(v.string()), // Website is optional
     isPublic: v.boolean(),
+    role: v.optional(v.literal("admin")), // Admins review reported content
     lastLogin: v.number(),
     created: v.number(),
     updated: v.number(),
@@ -36,12 +37,154 @@ export default defineSchema({
     likes: v.optional(v.number()), // Like count for public projects
     views: v.optional(v.number()), // View count for public projects
     firebaseId: v.optional(v.string()), // For migration tracking
+    operationSeq: v.optional(v.number()), // Last collaboration operation in the workspace
+    forkedFrom: v.optional(v.id("projects")), // Project this one was remixed from
+    forks: v.optional(v.number()), // Remix count for public projects
+    searchText: v.optional(v.string()), // Name, description and tags, kept for the search index
+    hidden: v.optional(v.boolean()), // Hidden from the public while reports are reviewed
     created: v.number(),
     updated: v.number(),
   })
     .index("by_userId", ["userId"])
     .index("by_created", ["created"])
-    .index("by_public", ["isPublic"]),
+    .index("by_public", ["isPublic"])
+    .index("by_forkedFrom", ["forkedFrom"])
+    .index("by_userId_updated", ["userId", "updated"])
+    .index("by_userId_likes", ["userId", "likes"])
+    .index("by_userId_views", ["userId", "views"])
+    .index("by_public_updated", ["isPublic", "updated"])
+    .index("by_public_likes", ["isPublic", "likes"])
+    .index("by_public_views", ["isPublic", "views"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["userId", "isPublic"],
+    }),
+
+  // One row per tag of a project with the fields projects are listed by, so a
+  // tag can be filtered in the index before a page is read
+  projectTags: defineTable({
+    projectId: v.id("projects"),
+    tag: v.string(),
+    userId: v.string(), // Clerk user ID of the project owner
+    isPublic: v.boolean(),
+    hidden: v.optional(v.boolean()),
+    searchText: v.optional(v.string()),
+    likes: v.optional(v.number()),
+    views: v.optional(v.number()),
+    updated: v.number(),
+  })
+    .index("by_projectId", ["projectId"])
+    .index("by_tag_userId_updated", ["tag", "userId", "updated"])
+    .index("by_tag_userId_likes", ["tag", "userId", "likes"])
+    .index("by_tag_userId_views", ["tag", "userId", "views"])
+    .index("by_tag_public_updated", ["tag", "isPublic", "updated"])
+    .index("by_tag_public_likes", ["tag", "isPublic", "likes"])
+    .index("by_tag_public_views", ["tag", "isPublic", "views"])
+    .searchIndex("search_text", {
+      searchField: "searchText",
+      filterFields: ["tag", "userId", "isPublic"],
+    }),
+
+  // One like per user per project, the project's likes field counts them
+  projectLikes: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(), // Clerk user ID
+    created: v.number(),
+  })
+    .index("by_projectId_userId", ["projectId", "userId"])
+    .index("by_projectId", ["projectId"]),
+
+  // Comments on a project, replies point at the comment they answer
+  projectComments: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(), // Clerk user ID of the author
+    authorName: v.string(),
+    parentId: v.optional(v.id("projectComments")),
+    body: v.string(),
+    hidden: v.optional(v.boolean()), // Hidden while reports are reviewed
+    deleted: v.optional(v.boolean()), // Kept without its body when it still has replies
+    edited: v.optional(v.number()),
+    created: v.number(),
+  }).index("by_projectId", ["projectId"]),
+
+  // Reports of abusive projects and comments waiting for an admin
+  reports: defineTable({
+    projectId: v.id("projects"),
+    commentId: v.optional(v.id("projectComments")), // Set when a comment is reported
+    reporterId: v.string(), // Clerk user ID
+    reason: v.string(),
+    status: v.union(v.literal("open"), v.literal("dismissed"), v.literal("upheld")),
+    resolvedBy: v.optional(v.string()),
+    resolvedAt: v.optional(v.number()),
+    created: v.number(),
+  })
+    .index("by_status", ["status"])
+    .index("by_projectId", ["projectId"])
+    .index("by_reporterId", ["reporterId"]),
+
+  // People a project is shared with and what they can do
+  projectMembers: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(), // Clerk user ID of the member
+    role: v.union(v.literal("viewer"), v.literal("commenter"), v.literal("editor")),
+    invitedBy: v.string(), // Clerk user ID of who shared the project
+    created: v.number(),
+  })
+    .index("by_projectId", ["projectId"])
+    .index("by_userId", ["userId"])
+    .index("by_projectId_userId", ["projectId", "userId"]),
+
+  // Invite links, anyone with the token joins the project with the role until it expires
+  projectInvites: defineTable({
+    projectId: v.id("projects"),
+    token: v.string(),
+    role: v.union(v.literal("viewer"), v.literal("commenter"), v.literal("editor")),
+    createdBy: v.string(),
+    expiresAt: v.number(),
+    uses: v.number(), // How many people joined with the link
+    revoked: v.boolean(),
+    created: v.number(),
+  })
+    .index("by_token", ["token"])
+    .index("by_projectId", ["projectId"]),
+
+  // Project version history - snapshots of a project's workspace
+  projectVersions: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(), // For access control
+    workspace: v.string(), // Blockly XML at the time of the snapshot
+    kind: v.union(v.literal("auto"), v.literal("checkpoint"), v.literal("restore")),
+    name: v.optional(v.string()), // Name given to a checkpoint
+    restoredFrom: v.optional(v.id("projectVersions")), // Version a restore copied
+    checksum: v.string(),
+    created: v.number(),
+  }).index("by_projectId", ["projectId"]),
+
+  // Collaboration operations - serialized Blockly events in the order the server accepted them
+  workspaceOperations: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(), // Clerk user ID of the author
+    clientId: v.string(), // Browser tab that sent the operation
+    seq: v.number(), // Increases by one per operation within a project
+    type: v.string(), // Blockly event type
+    blockId: v.optional(v.string()),
+    key: v.string(), // What the operation changes, used for conflict handling
+    event: v.string(), // Blockly event json
+    created: v.number(),
+  }).index("by_projectId_seq", ["projectId", "seq"]),
+
+  // Collaborators currently editing a project
+  collaborators: defineTable({
+    projectId: v.id("projects"),
+    userId: v.string(),
+    clientId: v.string(),
+    name: v.string(),
+    color: v.string(),
+    selectedBlockId: v.optional(v.string()),
+    lastSeen: v.number(),
+  })
+    .index("by_projectId", ["projectId"])
+    .index("by_clientId", ["clientId"]),
 
   // User settings table
   settings: defineTable({
@@ -0,0 +1,235 @@
+// Convex Project Sharing
+// This file implements project members, their roles and invite links
+
+import { v } from "convex/values";
+import { query, mutation } from "./_generated/server";
+import { getProjectWithRole, hasRole } from "./access";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longest an invite link can stay open, a school term
+const MAX_INVITE_DAYS = 120;
+
+const memberRole = v.union(v.literal("viewer"), v.literal("commenter"), v.literal("editor"));
+
+/**
+ * Get the people a project is shared with
+ */
+export const getProjectMembers = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.projectId, "viewer");
+
+    const members = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return await Promise.all(
+      members.map(async (member) => {
+        const profile = await ctx.db
+          .query("profiles")
+          .withIndex("by_userId", (q) => q.eq("userId", member.userId))
+          .first();
+
+        // Only the display name, members can not see each other's email
+        return { ...member, name: profile?.name || profile?.username || "Unknown user" };
+      })
+    );
+  },
+});
+
+/**
+ * Get the projects other people shared with the current user
+ */
+export const getSharedProjects = query({
+  args: {},
+  handler: async (ctx) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    const memberships = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_userId", (q) => q.eq("userId", identity.subject))
+      .collect();
+
+    const projects = await Promise.all(
+      memberships.map(async (membership) => {
+        const project = await ctx.db.get(membership.projectId);
+        return project ? { ...project, role: membership.role } : null;
+      })
+    );
+
+    return projects
+      .filter((project) => project !== null)
+      .sort((a, b) => b!.updated - a!.updated);
+  },
+});
+
+/**
+ * Change what a member can do
+ */
+export const updateMemberRole = mutation({
+  args: {
+    id: v.id("projectMembers"),
+    role: memberRole,
+  },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.id);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    await getProjectWithRole(ctx, member.projectId, "owner");
+    await ctx.db.patch(args.id, { role: args.role });
+  },
+});
+
+/**
+ * Stop sharing a project with a member, members can also remove themselves
+ */
+export const removeMember = mutation({
+  args: { id: v.id("projectMembers") },
+  handler: async (ctx, args) => {
+    const member = await ctx.db.get(args.id);
+    if (!member) {
+      throw new Error("Member not found");
+    }
+
+    const identity = await ctx.auth.getUserIdentity();
+    if (member.userId !== identity?.subject) {
+      await getProjectWithRole(ctx, member.projectId, "owner");
+    }
+
+    await ctx.db.delete(args.id);
+  },
+});
+
+/**
+ * Get a project's invite links that are still open
+ */
+export const getProjectInvites = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    await getProjectWithRole(ctx, args.projectId, "owner");
+
+    const now = Date.now();
+    const invites = await ctx.db
+      .query("projectInvites")
+      .withIndex("by_projectId", (q) => q.eq("projectId", args.projectId))
+      .collect();
+
+    return invites.filter((invite) => !invite.revoked && invite.expiresAt > now);
+  },
+});
+
+/**
+ * Create an invite link, everyone who opens it joins the project with the role
+ */
+export const createInvite = mutation({
+  args: {
+    projectId: v.id("projects"),
+    role: memberRole,
+    expiresInDays: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const { identity } = await getProjectWithRole(ctx, args.projectId, "owner");
+
+    if (args.expiresInDays <= 0 || args.expiresInDays > MAX_INVITE_DAYS) {
+      throw new Error(`Invite links must expire within ${MAX_INVITE_DAYS} days`);
+    }
+
+    const now = Date.now();
+    const inviteId = await ctx.db.insert("projectInvites", {
+      projectId: args.projectId,
+      token: crypto.randomUUID(),
+      role: args.role,
+      createdBy: identity.subject,
+      expiresAt: now + args.expiresInDays * DAY_MS,
+      uses: 0,
+      revoked: false,
+      created: now,
+    });
+
+    return await ctx.db.get(inviteId);
+  },
+});
+
+/**
+ * Close an invite link, people who already joined stay members
+ */
+export const revokeInvite = mutation({
+  args: { id: v.id("projectInvites") },
+  handler: async (ctx, args) => {
+    const invite = await ctx.db.get(args.id);
+    if (!invite) {
+      throw new Error("Invite not found");
+    }
+
+    await getProjectWithRole(ctx, invite.projectId, "owner");
+    await ctx.db.patch(args.id, { revoked: true });
+  },
+});
+
+/**
+ * Join a project with an invite link's token
+ */
+export const acceptInvite = mutation({
+  args: { token: v.string() },
+  handler: async (ctx, args) => {
+    const identity = await ctx.auth.getUserIdentity();
+    if (!identity) {
+      throw new Error("Unauthorized");
+    }
+
+    const invite = await ctx.db
+      .query("projectInvites")
+      .withIndex("by_token", (q) => q.eq("token", args.token))
+      .first();
+
+    if (!invite || invite.revoked || invite.expiresAt < Date.now()) {
+      throw new Error("This invite link is invalid or has expired");
+    }
+
+    const project = await ctx.db.get(invite.projectId);
+    if (!project) {
+      throw new Error("Project not found or access denied");
+    }
+
+    // The owner opening their own link has nothing to join
+    if (project.userId === identity.subject) {
+      return { projectId: project._id, role: "owner" };
+    }
+
+    const existing = await ctx.db
+      .query("projectMembers")
+      .withIndex("by_projectId_userId", (q) =>
+        q.eq("projectId", invite.projectId).eq("userId", identity.subject)
+      )
+      .first();
+
+    // Opening a link can raise the role someone already has, but never lowers it
+    if (existing) {
+      if (hasRole(existing.role, invite.role)) {
+        return { projectId: project._id, role: existing.role };
+      }
+
+      await ctx.db.patch(existing._id, { role: invite.role });
+      await ctx.db.patch(invite._id, { uses: invite.uses + 1 });
+      return { projectId: project._id, role: invite.role };
+    }
+
+    await ctx.db.insert("projectMembers", {
+      projectId: invite.projectId,
+      userId: identity.subject,
+      role: invite.role,
+      invitedBy: invite.createdBy,
+      created: Date.now(),
+    });
+    await ctx.db.patch(invite._id, { uses: invite.uses + 1 });
+
+    return { projectId: project._id, role: invite.role };
+  },
+});
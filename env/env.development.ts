@@ -9,6 +9,7 @@ export default {
     url: PUBLIC_CONVEX_URL || "https://development.convex.cloud",
   },
   server_arduino_url: "http://localhost:3001",
+  compile_protocol: "compile",
   bucket_name: "arduino-workflow-builder-lesson-dev",
   useEmulator: true,
   site: "arduino-workflow-builder-dev",
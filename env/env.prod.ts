@@ -9,6 +9,8 @@ export default {
     url: PUBLIC_CONVEX_URL || "https://production.convex.cloud",
   },
   server_arduino_url: "https://compile.arduino-workflow-builder.org",
+  // "upload-code" until the compile service supports POST /compile, see server/README.md
+  compile_protocol: "upload-code",
   bucket_name: "arduino-workflow-builder-lesson-test",
   useEmulator: false,
   site: "arduino-workflow-builder-org",
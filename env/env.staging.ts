@@ -9,6 +9,8 @@ export default {
     url: PUBLIC_CONVEX_URL || "https://staging.convex.cloud",
   },
   server_arduino_url: "https://compile-staging.arduino-workflow-builder.org",
+  // "upload-code" until the compile service supports POST /compile, see server/README.md
+  compile_protocol: "upload-code",
   bucket_name: "arduino-workflow-builder-lesson-staging",
   useEmulator: false,
   site: "arduino-workflow-builder-staging",
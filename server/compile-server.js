@@ -0,0 +1,259 @@
+// A stand in for the compile service that uses a locally installed arduino-cli.
+// See server/README.md for the protocol.
+import http from "node:http";
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+
+const PORT = parseInt(process.env.PORT || "3001", 10);
+const ARDUINO_CLI = process.env.ARDUINO_CLI || "arduino-cli";
+const COMPILE_TIMEOUT_MS = parseInt(
+  process.env.COMPILE_TIMEOUT_MS || "90000",
+  10
+);
+const ALLOWED_ORIGIN = process.env.ALLOWED_ORIGIN || "*";
+const MAX_BODY_BYTES = 512 * 1024;
+const FQBN_REGEX = /^[\w.-]+:[\w.-]+:[\w.-]+(:[\w.=,-]+)?$/;
+const LIBRARY_NAME_REGEX = /^[A-Za-z0-9][\w .+-]{0,99}$/;
+const LIBRARY_VERSION_REGEX = /^\d+(\.\d+){0,3}$/;
+const SKETCH_NAME = "sketch";
+
+// Libraries already installed at a version, as "name@version"
+const installedLibraries = new Set();
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": ALLOWED_ORIGIN,
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = (req) => {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        // Keep reading so the response can still be sent
+        req.removeAllListeners("data");
+        req.resume();
+        reject(new Error("The code is too big to compile."));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+};
+
+const runArduinoCli = (args) => {
+  return new Promise((resolve, reject) => {
+    execFile(
+      ARDUINO_CLI,
+      args,
+      { timeout: COMPILE_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error && error.code === "ENOENT") {
+          reject(new Error(`Could not find ${ARDUINO_CLI}, is it installed?`));
+          return;
+        }
+        if (error && error.killed) {
+          reject(new Error("Compiling took too long."));
+          return;
+        }
+        // arduino-cli exits with an error when the code does not compile
+        // but still prints the json result.
+        resolve({ stdout, stderr, failed: !!error });
+      }
+    );
+  });
+};
+
+/**
+ * Turns the gcc output into a list of errors and warnings with the line
+ * numbers of the sketch.
+ */
+const parseCompilerOutput = (output) => {
+  const errors = [];
+  const warnings = [];
+  const messageRegex = new RegExp(
+    `${SKETCH_NAME}\\.ino:(\\d+):(?:(\\d+):)?\\s*(fatal error|error|warning):\\s*(.*)$`
+  );
+
+  output.split("\n").forEach((line) => {
+    const match = line.match(messageRegex);
+    if (!match) {
+      return;
+    }
+
+    const message = {
+      line: parseInt(match[1], 10),
+      column: match[2] ? parseInt(match[2], 10) : 0,
+      message: match[4].trim(),
+    };
+    if (match[3] === "warning") {
+      warnings.push(message);
+    } else {
+      errors.push(message);
+    }
+  });
+
+  return { errors, warnings };
+};
+
+const findMemoryUsage = (result, sectionName) => {
+  const builderResult = result.builder_result || result;
+  const sections = builderResult.executable_sections_size || [];
+  const section = sections.find((s) => s.name === sectionName);
+  if (!section) {
+    return null;
+  }
+
+  return { used: section.size, max: section.max_size };
+};
+
+/**
+ * Installs the pinned versions of the libraries the sketch needs.
+ */
+const installLibraries = async (libraries) => {
+  const missing = libraries
+    .map(({ name, version }) => `${name}@${version}`)
+    .filter((library) => !installedLibraries.has(library));
+  if (missing.length === 0) {
+    return;
+  }
+
+  const { stderr, failed } = await runArduinoCli(["lib", "install", ...missing]);
+  if (failed) {
+    throw new Error(`Could not install ${missing.join(", ")}. ${stderr}`.trim());
+  }
+  missing.forEach((library) => installedLibraries.add(library));
+};
+
+const compile = async (code, fqbn, libraries) => {
+  await installLibraries(libraries);
+
+  const workingDir = await mkdtemp(path.join(tmpdir(), "awb-compile-"));
+  const sketchDir = path.join(workingDir, SKETCH_NAME);
+  const outputDir = path.join(workingDir, "build");
+  try {
+    await mkdir(sketchDir);
+    await writeFile(path.join(sketchDir, `${SKETCH_NAME}.ino`), code);
+
+    const { stdout, stderr } = await runArduinoCli([
+      "compile",
+      "--fqbn",
+      fqbn,
+      "--format",
+      "json",
+      "--warnings",
+      "default",
+      "--output-dir",
+      outputDir,
+      sketchDir,
+    ]);
+
+    let result;
+    try {
+      result = JSON.parse(stdout);
+    } catch (e) {
+      throw new Error(stderr || "arduino-cli did not return json.");
+    }
+
+    const { errors, warnings } = parseCompilerOutput(
+      `${result.compiler_err || ""}\n${result.compiler_out || ""}`
+    );
+    const success = result.success !== false && errors.length === 0;
+    if (!success && errors.length === 0) {
+      // Errors that do not point to a line like an unknown board
+      errors.push({
+        line: 0,
+        column: 0,
+        message: (result.error || result.compiler_err || stderr).trim(),
+      });
+    }
+
+    const hex = success
+      ? await readFile(path.join(outputDir, `${SKETCH_NAME}.ino.hex`), "utf8")
+      : null;
+
+    return {
+      success,
+      hex,
+      errors,
+      warnings,
+      programSize: findMemoryUsage(result, "text"),
+      ramSize: findMemoryUsage(result, "data"),
+    };
+  } finally {
+    await rm(workingDir, { recursive: true, force: true });
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === "OPTIONS") {
+    res.writeHead(204, {
+      "Access-Control-Allow-Origin": ALLOWED_ORIGIN,
+      "Access-Control-Allow-Methods": "POST, OPTIONS",
+      "Access-Control-Allow-Headers": "Content-Type",
+    });
+    res.end();
+    return;
+  }
+
+  if (req.method !== "POST" || req.url !== "/compile") {
+    sendJson(res, 404, { error: "Not found." });
+    return;
+  }
+
+  let request;
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch (e) {
+    const error =
+      e instanceof SyntaxError ? "The request is not json." : e.message;
+    sendJson(res, 400, { error });
+    return;
+  }
+
+  if (typeof request.code !== "string") {
+    sendJson(res, 400, { error: "The request is missing the code." });
+    return;
+  }
+
+  if (typeof request.fqbn !== "string" || !FQBN_REGEX.test(request.fqbn)) {
+    sendJson(res, 400, { error: "The request has an invalid fqbn." });
+    return;
+  }
+
+  const libraries = request.libraries || [];
+  if (
+    !Array.isArray(libraries) ||
+    !libraries.every(
+      (l) =>
+        l &&
+        typeof l.name === "string" &&
+        LIBRARY_NAME_REGEX.test(l.name) &&
+        typeof l.version === "string" &&
+        LIBRARY_VERSION_REGEX.test(l.version)
+    )
+  ) {
+    sendJson(res, 400, { error: "The request has an invalid library." });
+    return;
+  }
+
+  try {
+    sendJson(res, 200, await compile(request.code, request.fqbn, libraries));
+  } catch (e) {
+    console.error(e);
+    sendJson(res, 500, { error: e.message });
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Compile service listening on http://localhost:${PORT}`);
+});
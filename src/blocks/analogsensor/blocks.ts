@@ -18,7 +18,7 @@ const analogReadBlock: any = {
       .appendField(
         new Blockly.FieldDropdown(() => {
           return configuredPins(
-            "digital_read_setup",
+            "analog_read_setup",
             selectBoardBlockly().analogPins
           );
         }),
@@ -58,6 +58,7 @@ describe("button state factories", () => {
       builtInLedOn: false,
       sendMessage: "", // message arduino is sending
       delay: 0, // Number of milliseconds to delay
+      time: 0, // Milliseconds since the arduino turned on
       powerLedOn: true,
       frameNumber: 2,
     };
@@ -78,6 +79,7 @@ describe("button state factories", () => {
       builtInLedOn: false,
       sendMessage: "", // message arduino is sending
       delay: 0, // Number of milliseconds to delay
+      time: 0, // Milliseconds since the arduino turned on
       powerLedOn: true,
       frameNumber: 3,
     };
@@ -111,6 +113,7 @@ describe("button state factories", () => {
       builtInLedOn: false,
       sendMessage: "", // message arduino is sending
       delay: 0, // Number of milliseconds to delay
+      time: 0, // Milliseconds since the arduino turned on
       powerLedOn: true,
       frameNumber: 1,
     };
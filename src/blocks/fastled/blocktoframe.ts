@@ -78,9 +78,8 @@ export const showAllColors: BlockToFrameTransformer = (
       },
     };
   });
-  const newFastLeds = fastLED.preShowLEDs;
-  fastLED.fastLEDs = _.cloneDeep(newFastLeds);
   const newComponent = _.cloneDeep(fastLED);
+  newComponent.fastLEDs = _.cloneDeep(fastLED.preShowLEDs);
 
   return [
     arduinoFrameByComponent(
@@ -112,8 +111,8 @@ export const setAllColors: BlockToFrameTransformer = (
     const color = hexToRgb(hexValue);
     leds.push({ position: position - 1, color });
   }
-  fastLED.preShowLEDs = leds;
   const newComponent = _.cloneDeep(fastLED);
+  newComponent.preShowLEDs = leds;
 
   return [
     arduinoFrameByComponent(
@@ -166,8 +165,8 @@ export const setFastLEDColor: BlockToFrameTransformer = (
       previousState
     )
   );
-  fastLED.preShowLEDs[position - 1] = { position: position - 1, color };
   const newComponent = _.cloneDeep(fastLED);
+  newComponent.preShowLEDs[position - 1] = { position: position - 1, color };
 
   return [
     arduinoFrameByComponent(
@@ -65,3 +65,76 @@ Blockly.Blocks["procedures_defnoreturn"] = {
 
   callType_: "procedures_callnoreturn",
 };
+
+Blockly.Blocks["procedures_defreturn"] = {
+  /**
+   * Block for defining a procedure with a return value.
+   * @this Blockly.Block
+   */
+  init: function () {
+    var nameField = new Blockly.FieldTextInput("", Blockly.Procedures.rename);
+    nameField.setSpellcheck(false);
+    this.appendDummyInput()
+      .appendField("create block")
+      .appendField(nameField, "NAME")
+      .appendField("that returns a")
+      .appendField(
+        new Blockly.FieldDropdown(
+          [
+            ["number", "Number"],
+            ["text", "String"],
+            ["true / false", "Boolean"],
+          ],
+          (returnType: string) => {
+            this.getInput("RETURN")?.setCheck(returnType);
+            return returnType;
+          }
+        ),
+        "RETURN TYPE"
+      );
+    if (
+      (this.workspace.options.comments ||
+        (this.workspace.options.parentWorkspace &&
+          this.workspace.options.parentWorkspace.options.comments)) &&
+      Blockly.Msg["PROCEDURES_DEFRETURN_COMMENT"]
+    ) {
+      this.setCommentText(
+        `This block allows you to create your own blocks that give back a value.  The blocks you put inside this block will ran first and then the value connected to return is given back.`
+      );
+
+      this.getIcon("comment")?.setBubbleSize(new Blockly.utils.Size(460, 110));
+    }
+    this.setStyle("procedure_blocks");
+    this.setTooltip(Blockly.Msg["PROCEDURES_DEFRETURN_TOOLTIP"]);
+    this.setHelpUrl(Blockly.Msg["PROCEDURES_DEFRETURN_HELPURL"]);
+    this.setStatements_(true);
+    this.appendValueInput("RETURN")
+      .setCheck("Number")
+      .setAlign(Blockly.ALIGN_RIGHT)
+      .appendField(Blockly.Msg["PROCEDURES_DEFRETURN_RETURN"]);
+    this.statementConnection_ = null;
+  },
+  setStatements_: Blockly.Blocks["procedures_defnoreturn"].setStatements_,
+
+  /**
+   * Return the signature of this procedure definition.
+   * @return {!Array} Tuple containing three elements:
+   *     - the name of the defined procedure,
+   *     - a list of all its arguments,
+   *     - that it DOES have a return value.
+   * @this Blockly.Block
+   */
+  getProcedureDef: function () {
+    return [this.getFieldValue("NAME"), [], true];
+  },
+
+  /**
+   * Parameters are disabled so the caller blocks never have arguments.
+   * @this Blockly.Block
+   */
+  getVars: function () {
+    return [];
+  },
+
+  callType_: "procedures_callreturn",
+};
@@ -0,0 +1,135 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../../core/blockly/blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import {
+  createArduinoAndWorkSpace,
+  createGetVariable,
+  createSetVariableBlockWithValue,
+  createTestEvent,
+  createValueBlock,
+} from "../../tests/tests.helper";
+import { VariableTypes } from "../../core/blockly/dto/variable.type";
+import { connectToArduinoBlock } from "../../core/blockly/helpers/block.helper";
+import { eventToFrameFactory } from "../../core/frames/event-to-frame.factory";
+import { MAX_FUNCTION_CALL_DEPTH } from "./blocktoframe";
+
+describe("generate states for functions that return values", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue("1", "LOOP_TIMES");
+  });
+
+  const createFunctionCall = (functionName: string) => {
+    const callBlock = workspace.newBlock("procedures_callreturn");
+    callBlock.setFieldValue(functionName, "NAME");
+    return callBlock;
+  };
+
+  it("should run the function before the block using it and use the returned value", () => {
+    const setCounterBlock = createSetVariableBlockWithValue(
+      workspace,
+      "counter",
+      VariableTypes.NUMBER,
+      5
+    );
+
+    const functionBlock = workspace.newBlock("procedures_defreturn");
+    functionBlock.setFieldValue("addOne", "NAME");
+    functionBlock.setFieldValue("Number", "RETURN TYPE");
+    const addOneBlock = workspace.newBlock("math_arithmetic");
+    addOneBlock.setFieldValue("ADD", "OP");
+    addOneBlock
+      .getInput("A")
+      .connection.connect(
+        createGetVariable(setCounterBlock, workspace).outputConnection
+      );
+    addOneBlock
+      .getInput("B")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 1).outputConnection
+      );
+    const incrementBlock = workspace.newBlock("variables_set_number");
+    incrementBlock.setFieldValue(setCounterBlock.getFieldValue("VAR"), "VAR");
+    incrementBlock
+      .getInput("VALUE")
+      .connection.connect(addOneBlock.outputConnection);
+    functionBlock
+      .getInput("STACK")
+      .connection.connect(incrementBlock.previousConnection);
+    functionBlock
+      .getInput("RETURN")
+      .connection.connect(
+        createGetVariable(setCounterBlock, workspace).outputConnection
+      );
+
+    const setResultBlock = createSetVariableBlockWithValue(
+      workspace,
+      "result",
+      VariableTypes.NUMBER,
+      0
+    );
+    setResultBlock.getInput("VALUE").connection.targetBlock().dispose(true);
+    const callBlock = createFunctionCall("addOne");
+    setResultBlock
+      .getInput("VALUE")
+      .connection.connect(callBlock.outputConnection);
+
+    connectToArduinoBlock(setResultBlock);
+    connectToArduinoBlock(setCounterBlock);
+
+    const states = eventToFrameFactory(createTestEvent(callBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      setCounterBlock.id,
+      callBlock.id,
+      incrementBlock.id,
+      functionBlock.id,
+      setResultBlock.id,
+    ]);
+    expect(states[1].explanation).toBe("Calling function addOne.");
+    expect(states[3].explanation).toBe("Function addOne returns 6.");
+    // The function only runs once so counter is only increased once
+    expect(states[4].variables["counter"].value).toBe(6);
+    expect(states[4].variables["result"].value).toBe(6);
+  });
+
+  it("should stop a function that calls itself forever", () => {
+    const functionBlock = workspace.newBlock("procedures_defreturn");
+    functionBlock.setFieldValue("forever", "NAME");
+    functionBlock.setFieldValue("Number", "RETURN TYPE");
+    functionBlock
+      .getInput("RETURN")
+      .connection.connect(createFunctionCall("forever").outputConnection);
+
+    const setResultBlock = createSetVariableBlockWithValue(
+      workspace,
+      "result",
+      VariableTypes.NUMBER,
+      0
+    );
+    setResultBlock.getInput("VALUE").connection.targetBlock().dispose(true);
+    setResultBlock
+      .getInput("VALUE")
+      .connection.connect(createFunctionCall("forever").outputConnection);
+    connectToArduinoBlock(setResultBlock);
+
+    const states = eventToFrameFactory(
+      createTestEvent(setResultBlock.id)
+    ).frames;
+
+    // Every call has a calling and returning frame plus the error frame and the set variable frame
+    expect(states.length).toBe(MAX_FUNCTION_CALL_DEPTH * 2 + 2);
+    expect(states[MAX_FUNCTION_CALL_DEPTH].explanation).toBe(
+      `Stopped calling function forever because functions were called inside each other more than ${MAX_FUNCTION_CALL_DEPTH} times.`
+    );
+    expect(states[states.length - 1].blockId).toBe(setResultBlock.id);
+    expect(states[states.length - 1].variables["result"].value).toBe(0);
+  });
+});
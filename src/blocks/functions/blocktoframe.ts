@@ -1,9 +1,37 @@
-import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
+import _ from "lodash";
+import {
+  findBlockById,
+  findFieldValue,
+} from "../../core/blockly/helpers/block-data.helper";
+import type { BlockData } from "../../core/blockly/dto/block.type";
+import type { VariableData } from "../../core/blockly/dto/variable.type";
+import type { ArduinoFrame, Timeline } from "../../core/frames/arduino.frame";
 import {
   BlockToFrameTransformer,
   generateInputFrame,
 } from "../../core/frames/transformer/block-to-frame.transformer";
-import { arduinoFrameByExplanation } from "../../core/frames/transformer/frame-transformer.helpers";
+import { getInputValue } from "../../core/frames/transformer/block-to-value.factories";
+import {
+  arduinoFrameByExplanation,
+  getDefaultValue,
+  valueToString,
+} from "../../core/frames/transformer/frame-transformer.helpers";
+
+/**
+ * Max number of functions that can be running inside of each other.
+ * This stops a function that calls itself from running forever.
+ */
+export const MAX_FUNCTION_CALL_DEPTH = 10;
+
+let functionCallDepth = 0;
+
+/**
+ * Values returned by functions, stored by the frame the block using them runs with.
+ */
+const functionReturnValues = new WeakMap<
+  ArduinoFrame,
+  { [callBlockId: string]: any }
+>();
 
 export const customBlock: BlockToFrameTransformer = (
   blocks,
@@ -39,3 +67,180 @@ export const customBlock: BlockToFrameTransformer = (
     ),
   ];
 };
+
+/**
+ * Runs every function that returns a value connected to the block's inputs.
+ * The block should run with the last frame so it can use the returned values.
+ */
+export const callFunctionsWithReturn: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const returnValues: { [callBlockId: string]: any } = {};
+  const frames = findFunctionCallBlocks(blocks, block).reduce(
+    (prevFrames: ArduinoFrame[], callBlock) => {
+      const beforeState = _.isEmpty(prevFrames)
+        ? previousState
+        : prevFrames[prevFrames.length - 1];
+
+      const { frames, value } = runFunctionWithReturn(
+        blocks,
+        callBlock,
+        variables,
+        timeline,
+        beforeState
+      );
+      returnValues[callBlock.id] = value;
+
+      return [...prevFrames, ...frames];
+    },
+    []
+  );
+
+  if (frames.length > 0) {
+    functionReturnValues.set(frames[frames.length - 1], returnValues);
+  }
+
+  return frames;
+};
+
+/**
+ * Finds the value a function returned when it ran before the block using it.
+ */
+export const findFunctionReturnValue = (
+  callBlockId: string,
+  state: ArduinoFrame | undefined
+): { found: boolean; value?: any } => {
+  const returnValues = state ? functionReturnValues.get(state) : undefined;
+  if (!returnValues || !_.has(returnValues, callBlockId)) {
+    return { found: false };
+  }
+
+  return { found: true, value: returnValues[callBlockId] };
+};
+
+export const runFunctionWithReturn = (
+  blocks: BlockData[],
+  callBlock: BlockData,
+  variables: VariableData[],
+  timeline: Timeline,
+  previousState?: ArduinoFrame
+): { frames: ArduinoFrame[]; value: any } => {
+  const functionName = findFieldValue(callBlock, "NAME");
+  const functionDefinitionBlock = blocks.find(
+    (b) =>
+      b.blockName === "procedures_defreturn" &&
+      findFieldValue(b, "NAME") === functionName
+  );
+
+  if (!functionDefinitionBlock) {
+    return { frames: [], value: undefined };
+  }
+
+  const returnType = findFieldValue(functionDefinitionBlock, "RETURN TYPE");
+  const defaultValue = getDefaultValue(returnType);
+
+  if (functionCallDepth >= MAX_FUNCTION_CALL_DEPTH) {
+    return {
+      frames: [
+        arduinoFrameByExplanation(
+          callBlock.id,
+          callBlock.blockName,
+          timeline,
+          `Stopped calling function ${functionName} because functions were called inside each other more than ${MAX_FUNCTION_CALL_DEPTH} times.`,
+          previousState
+        ),
+      ],
+      value: defaultValue,
+    };
+  }
+
+  functionCallDepth += 1;
+  try {
+    const functionCallState = arduinoFrameByExplanation(
+      callBlock.id,
+      callBlock.blockName,
+      timeline,
+      `Calling function ${functionName}.`,
+      previousState
+    );
+
+    const stackFrames = generateInputFrame(
+      functionDefinitionBlock,
+      blocks,
+      variables,
+      timeline,
+      "STACK",
+      functionCallState
+    );
+
+    const afterStackState = _.isEmpty(stackFrames)
+      ? functionCallState
+      : stackFrames[stackFrames.length - 1];
+
+    // Functions can be called in the return input, including this function.
+    const returnInputFrames = callFunctionsWithReturn(
+      blocks,
+      functionDefinitionBlock,
+      variables,
+      timeline,
+      afterStackState
+    );
+
+    const returnState = _.isEmpty(returnInputFrames)
+      ? afterStackState
+      : returnInputFrames[returnInputFrames.length - 1];
+
+    const value = getInputValue(
+      blocks,
+      functionDefinitionBlock,
+      variables,
+      timeline,
+      "RETURN",
+      defaultValue,
+      returnState
+    );
+
+    const returnFrame = arduinoFrameByExplanation(
+      functionDefinitionBlock.id,
+      functionDefinitionBlock.blockName,
+      timeline,
+      `Function ${functionName} returns ${valueToString(value, returnType)}.`,
+      returnState
+    );
+
+    return {
+      frames: [
+        functionCallState,
+        ...stackFrames,
+        ...returnInputFrames,
+        returnFrame,
+      ],
+      value,
+    };
+  } finally {
+    functionCallDepth -= 1;
+  }
+};
+
+const findFunctionCallBlocks = (
+  blocks: BlockData[],
+  block: BlockData
+): BlockData[] => {
+  return block.inputBlocks
+    .map((input) => findBlockById(blocks, input.blockId as string))
+    .reduce((prev: BlockData[], inputBlock) => {
+      if (!inputBlock) {
+        return prev;
+      }
+
+      if (inputBlock.blockName === "procedures_callreturn") {
+        return [...prev, inputBlock];
+      }
+
+      return [...prev, ...findFunctionCallBlocks(blocks, inputBlock)];
+    }, []);
+};
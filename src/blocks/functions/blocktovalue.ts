@@ -0,0 +1,28 @@
+import type { ValueGenerator } from "../../core/frames/transformer/block-to-value.factories";
+import {
+  findFunctionReturnValue,
+  runFunctionWithReturn,
+} from "./blocktoframe";
+
+export const functionReturnValue: ValueGenerator = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const returnValue = findFunctionReturnValue(block.id, previousState);
+  if (returnValue.found) {
+    return returnValue.value;
+  }
+
+  // The function did not run before this block, like when a while loop
+  // checks its condition again, so we run it without keeping its frames.
+  return runFunctionWithReturn(
+    blocks,
+    block,
+    variables,
+    timeline,
+    previousState
+  ).value;
+};
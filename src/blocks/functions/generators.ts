@@ -61,3 +61,12 @@ Blockly["Arduino"]["procedures_callnoreturn"] = function (block: Block | any) {
 
   return funcName + "();\n";
 };
+
+Blockly["Arduino"]["procedures_callreturn"] = function (block: Block | any) {
+  // Call a procedure with a return value.
+  const funcName = Blockly["Arduino"].variableDB_.getName(
+    block.getFieldValue("NAME")
+  );
+
+  return [funcName + "()", Blockly["Arduino"].ORDER_UNARY_POSTFIX];
+};
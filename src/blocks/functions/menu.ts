@@ -27,23 +27,23 @@ export const registerFunctionMenu = (workspace: WorkspaceSvg) => {
       xmlList.push(block);
     }
 
-    // MORE NOW COMMENTING THIS OUT FOR DEBUG
-    // HAVE NOT RAN INTO A SITUATION YET THAT REQUIRES RETURN TYPE
-    // POSSIBLE VERSION 4
-    // if (Blockly.Blocks['procedures_defreturn']) {
-    //     // <block type="procedures_defreturn" gap="16">
-    //     //     <field name="NAME">do something</field>
-    //     // </block>
-    //     var block = Blockly.utils.xml.createElement('block');
-    //     block.setAttribute('type', 'procedures_defreturn');
-    //     block.setAttribute('gap', 16);
-    //     var nameField = Blockly.utils.xml.createElement('field');
-    //     nameField.setAttribute('name', 'NAME');
-    //     nameField.appendChild(Blockly.utils.xml.createTextNode(
-    //         Blockly.Msg['PROCEDURES_DEFRETURN_PROCEDURE']));
-    //     block.appendChild(nameField);
-    //     xmlList.push(block);
-    // }
+    if (Blockly.Blocks["procedures_defreturn"]) {
+      // <block type="procedures_defreturn" gap="16">
+      //     <field name="NAME">do something</field>
+      // </block>
+      const block = Blockly.utils.xml.createElement("block");
+      block.setAttribute("type", "procedures_defreturn");
+      block.setAttribute("gap", "16");
+      const nameField = Blockly.utils.xml.createElement("field");
+      nameField.setAttribute("name", "NAME");
+      nameField.appendChild(
+        Blockly.utils.xml.createTextNode(
+          Blockly.Msg["PROCEDURES_DEFRETURN_PROCEDURE"]
+        )
+      );
+      block.appendChild(nameField);
+      xmlList.push(block);
+    }
 
     if (xmlList.length) {
       // Add slightly larger gap between system blocks and user calls.
@@ -1,6 +1,7 @@
 import Blockly from "blockly";
-import { selectBoardBlockly } from "../../core/microcontroller/selectBoard";
+import { appendI2cPinInput } from "../../core/blockly/helpers/i2c.helper";
 import { COLOR_THEME } from "../../core/blockly/constants/colors";
+import { LCD_SCREEN_ADDRESSES } from "./state";
 
 Blockly.defineBlocksWithJsonArray([
   {
@@ -221,10 +222,9 @@ Blockly.Blocks["lcd_setup"] = {
     this.appendDummyInput()
       .appendField("Memory Type")
       .appendField(
-        new Blockly.FieldDropdown([
-          ["0x3F", "0x3F"],
-          ["0x27", "0x27"],
-        ]),
+        new Blockly.FieldDropdown(
+          LCD_SCREEN_ADDRESSES.map((address) => [address, address])
+        ),
         "MEMORY_TYPE"
       );
     this.appendDummyInput()
@@ -236,19 +236,11 @@ Blockly.Blocks["lcd_setup"] = {
         ]),
         "SIZE"
       );
-    this.appendDummyInput()
-      .appendField("SDA")
-      .appendField(
-        new Blockly.FieldDropdown(() => selectBoardBlockly().sdaPins),
-        "PIN_SDA"
-      )
-      .appendField("SCL")
-      .appendField(
-        new Blockly.FieldDropdown(() => selectBoardBlockly().sclPins),
-        "PIN_SCL"
-      );
+    appendI2cPinInput(this);
     this.setColour(COLOR_THEME.COMPONENTS);
-    this.setTooltip("");
+    this.setTooltip(
+      "The memory type is the I2C address of the screen.  Every component on the I2C bus needs a different address."
+    );
     this.setHelpUrl("");
   },
 };
@@ -68,6 +68,7 @@ describe("lcd  factories", () => {
       builtInLedOn: false,
       sendMessage: "", // message arduino is sending
       delay: 0, // Number of milliseconds to delay
+      time: 0, // Milliseconds since the arduino turned on
       powerLedOn: true,
       frameNumber: 1,
     };
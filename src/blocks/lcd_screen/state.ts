@@ -1,18 +1,33 @@
-import type { ArduinoComponentState } from "../../core/frames/arduino.frame";
-import type { ARDUINO_PINS } from "../../core/microcontroller/selectBoard";
+import _ from "lodash";
+import type { I2cComponentState } from "../../core/frames/arduino.frame";
 
-export interface LCDScreenState extends ArduinoComponentState {
+export interface LCDScreenState extends I2cComponentState {
   rows: number;
   columns: number;
-  memoryType: LCD_SCREEN_MEMORY_TYPE;
+  memoryType: string;
   rowsOfText: string[];
   blink: { row: number; column: number; blinking: boolean };
   backLightOn: boolean;
-  sdaPin: ARDUINO_PINS;
-  sclPin: ARDUINO_PINS;
 }
 
 export enum LCD_SCREEN_MEMORY_TYPE {
   "OX3F" = "0x3F",
   "0X27" = "0x27",
 }
+
+const hexAddresses = (from: number, to: number) =>
+  _.range(from, to + 1).map(
+    (address) => `0x${address.toString(16).toUpperCase()}`,
+  );
+
+/**
+ * The I2C backpacks use a PCF8574 (0x20 to 0x27) or a PCF8574A (0x38 to 0x3F)
+ * chip.  The address is picked with the solder pads on the back, 0x3F and
+ * 0x27 are the most common so they come first.
+ */
+export const LCD_SCREEN_ADDRESSES: string[] = _.uniq([
+  LCD_SCREEN_MEMORY_TYPE.OX3F,
+  LCD_SCREEN_MEMORY_TYPE["0X27"],
+  ...hexAddresses(0x20, 0x27),
+  ...hexAddresses(0x38, 0x3f),
+]);
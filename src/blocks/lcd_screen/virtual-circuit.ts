@@ -12,8 +12,8 @@ import type { LCDScreenState } from "./state";
 import type { Element, Svg, Text } from "@svgdotjs/svg.js";
 import { positionComponent } from "../../core/virtual-circuit/svg-position";
 import {
-  createComponentWire,
   createGroundOrPowerWire,
+  createI2cBusWire,
 } from "../../core/virtual-circuit/wire";
 
 /**
@@ -148,7 +148,7 @@ export const createWiresLcd: CreateWire<LCDScreenState> = (
   createGroundOrPowerWire(holes[1], isDown, lcdEl, draw, arduino, id, "power");
   createGroundOrPowerWire(holes[0], isDown, lcdEl, draw, arduino, id, "ground");
 
-  createComponentWire(
+  createI2cBusWire(
     holes[3],
     isDown,
     lcdEl,
@@ -160,7 +160,7 @@ export const createWiresLcd: CreateWire<LCDScreenState> = (
     board
   );
 
-  createComponentWire(
+  createI2cBusWire(
     holes[2],
     isDown,
     lcdEl,
@@ -50,4 +50,45 @@ Blockly.defineBlocksWithJsonArray([
     helpUrl: "%{BKY_CONTROLS_FOR_HELPURL}",
     extensions: ["contextMenu_newGetVariableBlock", "controls_for_tooltip"],
   },
+  {
+    type: "controls_whileUntil",
+    message0: "%1 %2",
+    args0: [
+      {
+        type: "field_dropdown",
+        name: "MODE",
+        options: [
+          ["%{BKY_CONTROLS_WHILEUNTIL_OPERATOR_WHILE}", "WHILE"],
+          ["%{BKY_CONTROLS_WHILEUNTIL_OPERATOR_UNTIL}", "UNTIL"],
+        ],
+      },
+      {
+        type: "input_value",
+        name: "BOOL",
+        check: "Boolean",
+      },
+    ],
+    message1: "%{BKY_CONTROLS_REPEAT_INPUT_DO} %1",
+    args1: [
+      {
+        type: "input_statement",
+        name: "DO",
+      },
+    ],
+    message2: "stops after %1 times in virtual circuit",
+    args2: [
+      {
+        type: "field_number",
+        name: "MAX_TIMES",
+        value: 10,
+        min: 1,
+        max: 1000,
+      },
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.CONTROL,
+    helpUrl: "%{BKY_CONTROLS_WHILEUNTIL_HELPURL}",
+    extensions: ["controls_whileUntil_tooltip"],
+  },
 ]);
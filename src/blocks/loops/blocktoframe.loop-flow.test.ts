@@ -0,0 +1,200 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../../core/blockly/blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import {
+  createArduinoAndWorkSpace,
+  createTestEvent,
+  createValueBlock,
+} from "../../tests/tests.helper";
+import { VariableTypes } from "../../core/blockly/dto/variable.type";
+import { connectToArduinoBlock } from "../../core/blockly/helpers/block.helper";
+import { eventToFrameFactory } from "../../core/frames/event-to-frame.factory";
+
+describe("generate states controls_flow_statements", () => {
+  let workspace: Workspace;
+  let arduinoBlock;
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue("1", "LOOP_TIMES");
+  });
+
+  const createRepeatBlock = (times: number) => {
+    const repeatBlock = workspace.newBlock("controls_repeat_ext") as BlockSvg;
+    repeatBlock
+      .getInput("TIMES")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, times)
+          .outputConnection
+      );
+    return repeatBlock;
+  };
+
+  const createIfTrueBlock = (flow: "BREAK" | "CONTINUE") => {
+    const ifBlock = workspace.newBlock("control_if");
+    ifBlock
+      .getInput("IF0")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.BOOLEAN, true)
+          .outputConnection
+      );
+    const flowBlock = workspace.newBlock("controls_flow_statements");
+    flowBlock.setFieldValue(flow, "FLOW");
+    ifBlock.getInput("DO0").connection.connect(flowBlock.previousConnection);
+    return [ifBlock, flowBlock];
+  };
+
+  it("break should stop the loop and skip the blocks after it", () => {
+    const repeatBlock = createRepeatBlock(3);
+    const debugBlock1 = workspace.newBlock("debug_block");
+    const debugBlock2 = workspace.newBlock("debug_block");
+    const [ifBlock, breakBlock] = createIfTrueBlock("BREAK");
+    repeatBlock
+      .getInput("DO")
+      .connection.connect(debugBlock1.previousConnection);
+    debugBlock1.nextConnection.connect(ifBlock.previousConnection);
+    ifBlock.nextConnection.connect(debugBlock2.previousConnection);
+    connectToArduinoBlock(repeatBlock);
+
+    const states = eventToFrameFactory(createTestEvent(repeatBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      repeatBlock.id,
+      debugBlock1.id,
+      ifBlock.id,
+      breakBlock.id,
+    ]);
+    expect(states[3].explanation).toBe("Leaving the loop early.");
+  });
+
+  it("continue should skip the blocks after it and go to the next loop", () => {
+    const repeatBlock = createRepeatBlock(2);
+    const debugBlock = workspace.newBlock("debug_block");
+    const [ifBlock, continueBlock] = createIfTrueBlock("CONTINUE");
+    repeatBlock.getInput("DO").connection.connect(ifBlock.previousConnection);
+    ifBlock.nextConnection.connect(debugBlock.previousConnection);
+    connectToArduinoBlock(repeatBlock);
+
+    const states = eventToFrameFactory(createTestEvent(repeatBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      repeatBlock.id,
+      ifBlock.id,
+      continueBlock.id,
+      repeatBlock.id,
+      ifBlock.id,
+      continueBlock.id,
+    ]);
+    expect(states[2].explanation).toBe(
+      "Skipping to the next time through the loop."
+    );
+  });
+
+  it("break should only leave the loop it is in", () => {
+    const outerBlock = createRepeatBlock(2);
+    const innerBlock = createRepeatBlock(3);
+    const breakBlock = workspace.newBlock("controls_flow_statements");
+    breakBlock.setFieldValue("BREAK", "FLOW");
+    const debugBlock = workspace.newBlock("debug_block");
+    innerBlock.getInput("DO").connection.connect(breakBlock.previousConnection);
+    outerBlock.getInput("DO").connection.connect(innerBlock.previousConnection);
+    innerBlock.nextConnection.connect(debugBlock.previousConnection);
+    connectToArduinoBlock(outerBlock);
+
+    const states = eventToFrameFactory(createTestEvent(outerBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      outerBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+      debugBlock.id,
+      outerBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+      debugBlock.id,
+    ]);
+  });
+
+  it("break in an inner loop that is the last block should not stop the outer loop", () => {
+    const outerBlock = createRepeatBlock(2);
+    const innerBlock = createRepeatBlock(3);
+    const breakBlock = workspace.newBlock("controls_flow_statements");
+    breakBlock.setFieldValue("BREAK", "FLOW");
+    innerBlock.getInput("DO").connection.connect(breakBlock.previousConnection);
+    outerBlock.getInput("DO").connection.connect(innerBlock.previousConnection);
+    connectToArduinoBlock(outerBlock);
+
+    const states = eventToFrameFactory(createTestEvent(outerBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      outerBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+      outerBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+    ]);
+  });
+
+  it("break in a loop inside of an if should not skip the blocks after the if", () => {
+    const outerBlock = createRepeatBlock(2);
+    const ifBlock = workspace.newBlock("control_if");
+    ifBlock
+      .getInput("IF0")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.BOOLEAN, true)
+          .outputConnection
+      );
+    const innerBlock = createRepeatBlock(3);
+    const breakBlock = workspace.newBlock("controls_flow_statements");
+    breakBlock.setFieldValue("BREAK", "FLOW");
+    const debugBlock = workspace.newBlock("debug_block");
+    innerBlock.getInput("DO").connection.connect(breakBlock.previousConnection);
+    ifBlock.getInput("DO0").connection.connect(innerBlock.previousConnection);
+    ifBlock.nextConnection.connect(debugBlock.previousConnection);
+    outerBlock.getInput("DO").connection.connect(ifBlock.previousConnection);
+    connectToArduinoBlock(outerBlock);
+
+    const states = eventToFrameFactory(createTestEvent(outerBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      outerBlock.id,
+      ifBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+      debugBlock.id,
+      outerBlock.id,
+      ifBlock.id,
+      innerBlock.id,
+      breakBlock.id,
+      debugBlock.id,
+    ]);
+  });
+
+  it("break should stop a for loop", () => {
+    const forBlock = workspace.newBlock("controls_for") as BlockSvg;
+    const variableModel = workspace.createVariable("i", VariableTypes.NUMBER);
+    forBlock.setFieldValue(variableModel.getId(), "VAR");
+    forBlock
+      .getInput("FROM")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 1).outputConnection
+      );
+    forBlock
+      .getInput("TO")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 5).outputConnection
+      );
+    const [ifBlock, breakBlock] = createIfTrueBlock("BREAK");
+    forBlock.getInput("DO").connection.connect(ifBlock.previousConnection);
+    connectToArduinoBlock(forBlock);
+
+    const states = eventToFrameFactory(createTestEvent(forBlock.id)).frames;
+    expect(states.map((s) => s.blockId)).toEqual([
+      forBlock.id,
+      ifBlock.id,
+      breakBlock.id,
+    ]);
+    expect(states[2].variables["i"].value).toBe(1);
+  });
+});
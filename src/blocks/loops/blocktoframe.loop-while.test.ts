@@ -0,0 +1,136 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../../core/blockly/blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import {
+  createArduinoAndWorkSpace,
+  createGetVariable,
+  createSetVariableBlockWithValue,
+  createTestEvent,
+  createValueBlock,
+} from "../../tests/tests.helper";
+import { VariableTypes } from "../../core/blockly/dto/variable.type";
+import { connectToArduinoBlock } from "../../core/blockly/helpers/block.helper";
+import { eventToFrameFactory } from "../../core/frames/event-to-frame.factory";
+
+describe("generate states controls_whileUntil", () => {
+  let workspace: Workspace;
+  let arduinoBlock;
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue("1", "LOOP_TIMES");
+  });
+
+  it("should stop looping after the max times if what is connected is always true", () => {
+    const whileBlock = workspace.newBlock("controls_whileUntil") as BlockSvg;
+    whileBlock.setFieldValue("3", "MAX_TIMES");
+    const booleanBlock = createValueBlock(workspace, VariableTypes.BOOLEAN, true);
+    const debugBlock = workspace.newBlock("debug_block");
+    whileBlock.getInput("BOOL").connection.connect(booleanBlock.outputConnection);
+    whileBlock.getInput("DO").connection.connect(debugBlock.previousConnection);
+    connectToArduinoBlock(whileBlock);
+
+    const states = eventToFrameFactory(createTestEvent(whileBlock.id)).frames;
+    expect(states.length).toBe(7);
+    const [state1, state2, state3, , , , state7] = states;
+
+    expect(state1.blockId).toBe(whileBlock.id);
+    expect(state1.explanation).toBe(
+      "Running loop 1 because what is connected is true."
+    );
+    expect(state2.blockId).toBe(debugBlock.id);
+    expect(state3.explanation).toBe(
+      "Running loop 2 because what is connected is true."
+    );
+    expect(state7.blockId).toBe(whileBlock.id);
+    expect(state7.explanation).toBe(
+      "Stopping loop after 3 times so the virtual circuit does not run forever."
+    );
+  });
+
+  it("should not run the blocks inside until mode if what is connected is true", () => {
+    const whileBlock = workspace.newBlock("controls_whileUntil") as BlockSvg;
+    whileBlock.setFieldValue("UNTIL", "MODE");
+    const booleanBlock = createValueBlock(workspace, VariableTypes.BOOLEAN, true);
+    const debugBlock = workspace.newBlock("debug_block");
+    whileBlock.getInput("BOOL").connection.connect(booleanBlock.outputConnection);
+    whileBlock.getInput("DO").connection.connect(debugBlock.previousConnection);
+    connectToArduinoBlock(whileBlock);
+
+    const states = eventToFrameFactory(createTestEvent(whileBlock.id)).frames;
+    expect(states.length).toBe(1);
+    expect(states[0].explanation).toBe(
+      "Stopping loop because what is connected is true."
+    );
+
+    // Nothing connected is treated as false
+    booleanBlock.dispose(true);
+    whileBlock.setFieldValue("WHILE", "MODE");
+
+    const states2 = eventToFrameFactory(createTestEvent(whileBlock.id)).frames;
+    expect(states2.length).toBe(1);
+    expect(states2[0].explanation).toBe(
+      "Stopping loop because what is connected is false."
+    );
+  });
+
+  it("should check the condition against the variables changed inside the loop", () => {
+    const setCounterBlock = createSetVariableBlockWithValue(
+      workspace,
+      "counter",
+      VariableTypes.NUMBER,
+      0
+    );
+    const whileBlock = workspace.newBlock("controls_whileUntil") as BlockSvg;
+    const compareBlock = workspace.newBlock("logic_compare");
+    compareBlock.setFieldValue("LT", "OP");
+    compareBlock
+      .getInput("A")
+      .connection.connect(
+        createGetVariable(setCounterBlock, workspace).outputConnection
+      );
+    compareBlock
+      .getInput("B")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 2).outputConnection
+      );
+    whileBlock.getInput("BOOL").connection.connect(compareBlock.outputConnection);
+
+    const addOneBlock = workspace.newBlock("math_arithmetic");
+    addOneBlock.setFieldValue("ADD", "OP");
+    addOneBlock
+      .getInput("A")
+      .connection.connect(
+        createGetVariable(setCounterBlock, workspace).outputConnection
+      );
+    addOneBlock
+      .getInput("B")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 1).outputConnection
+      );
+    const incrementBlock = workspace.newBlock("variables_set_number");
+    incrementBlock.setFieldValue(setCounterBlock.getFieldValue("VAR"), "VAR");
+    incrementBlock
+      .getInput("VALUE")
+      .connection.connect(addOneBlock.outputConnection);
+    whileBlock
+      .getInput("DO")
+      .connection.connect(incrementBlock.previousConnection);
+
+    connectToArduinoBlock(whileBlock);
+    connectToArduinoBlock(setCounterBlock as BlockSvg);
+
+    const states = eventToFrameFactory(createTestEvent(whileBlock.id)).frames;
+    // set counter, (loop, increment) * 2, stop
+    expect(states.length).toBe(6);
+    expect(states[4].variables["counter"].value).toBe(2);
+    expect(states[5].explanation).toBe(
+      "Stopping loop because what is connected is false."
+    );
+  });
+});
@@ -7,10 +7,12 @@ import _ from "lodash";
 import {
   arduinoFrameByExplanation,
   arduinoFrameByVariable,
+  findFlowStatement,
 } from "../../core/frames/transformer/frame-transformer.helpers";
 import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
 import { VariableTypes } from "../../core/blockly/dto/variable.type";
-import type { Variable } from "../../core/frames/arduino.frame";
+import type { ArduinoFrame, Variable } from "../../core/frames/arduino.frame";
+import { callFunctionsWithReturn } from "../functions/blocktoframe";
 
 export const simpleLoop: BlockToFrameTransformer = (
   blocks,
@@ -23,7 +25,11 @@ export const simpleLoop: BlockToFrameTransformer = (
     getInputValue(blocks, block, variables, timeline, "TIMES", 1, previousState)
   );
 
+  let stopLooping = false;
   return _.range(1, times + 1).reduce((prev, next) => {
+    if (stopLooping) {
+      return prev;
+    }
     const beforeState = _.isEmpty(prev) ? previousState : prev[prev.length - 1];
 
     const loopFrame = arduinoFrameByExplanation(
@@ -34,18 +40,17 @@ export const simpleLoop: BlockToFrameTransformer = (
       beforeState
     );
 
-    return [
-      ...prev,
-      loopFrame,
-      ...generateInputFrame(
-        block,
-        blocks,
-        variables,
-        timeline,
-        "DO",
-        loopFrame
-      ),
-    ];
+    const innerFrames = generateInputFrame(
+      block,
+      blocks,
+      variables,
+      timeline,
+      "DO",
+      loopFrame
+    );
+    stopLooping = findFlowStatement(blocks, innerFrames, block) === "BREAK";
+
+    return [...prev, loopFrame, ...innerFrames];
   }, []);
 };
 
@@ -81,8 +86,12 @@ export const forLoop: BlockToFrameTransformer = (
   const multiplyBy = from > to ? -1 : 1;
 
   let prevState = previousState;
+  let stopLooping = false;
   return _.range(from, to + multiplyBy, by * multiplyBy)
     .map((i, counter, array) => {
+      if (stopLooping) {
+        return [];
+      }
       const variableData = variables.find(
         (v) => v.id === findFieldValue(block, "VAR")
       );
@@ -114,9 +123,123 @@ export const forLoop: BlockToFrameTransformer = (
           loopFrame
         ),
       ];
-      prevState = _.cloneDeep(states[states.length - 1]);
+      prevState = states[states.length - 1];
+      stopLooping = findFlowStatement(blocks, states, block) === "BREAK";
 
       return states;
     })
     .flat(2);
 };
+
+export const whileLoop: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const isUntil = findFieldValue(block, "MODE") === "UNTIL";
+  // Caps the number of times the loop runs so the simulator never loops forever
+  const maxTimes = Math.abs(+findFieldValue(block, "MAX_TIMES")) || 1;
+
+  let stopLooping = false;
+  return _.range(1, maxTimes + 2).reduce((prev: ArduinoFrame[], next) => {
+    if (stopLooping) {
+      return prev;
+    }
+    // Functions in the condition already ran before the first check in generateFrame
+    const functionFrames =
+      next === 1
+        ? []
+        : callFunctionsWithReturn(
+            blocks,
+            block,
+            variables,
+            timeline,
+            prev[prev.length - 1]
+          );
+    prev = [...prev, ...functionFrames];
+    const beforeState = _.isEmpty(prev) ? previousState : prev[prev.length - 1];
+
+    const condition = getInputValue(
+      blocks,
+      block,
+      variables,
+      timeline,
+      "BOOL",
+      false,
+      beforeState
+    );
+
+    if (Boolean(condition) === isUntil) {
+      stopLooping = true;
+      return [
+        ...prev,
+        arduinoFrameByExplanation(
+          block.id,
+          block.blockName,
+          timeline,
+          `Stopping loop because what is connected is ${condition}.`,
+          beforeState
+        ),
+      ];
+    }
+
+    if (next > maxTimes) {
+      stopLooping = true;
+      return [
+        ...prev,
+        arduinoFrameByExplanation(
+          block.id,
+          block.blockName,
+          timeline,
+          `Stopping loop after ${maxTimes} times so the virtual circuit does not run forever.`,
+          beforeState
+        ),
+      ];
+    }
+
+    const loopFrame = arduinoFrameByExplanation(
+      block.id,
+      block.blockName,
+      timeline,
+      `Running loop ${next} because what is connected is ${condition}.`,
+      beforeState
+    );
+
+    const innerFrames = generateInputFrame(
+      block,
+      blocks,
+      variables,
+      timeline,
+      "DO",
+      loopFrame
+    );
+    stopLooping = findFlowStatement(blocks, innerFrames, block) === "BREAK";
+
+    return [...prev, loopFrame, ...innerFrames];
+  }, []);
+};
+
+export const flowStatement: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const explanation =
+    findFieldValue(block, "FLOW") === "BREAK"
+      ? "Leaving the loop early."
+      : "Skipping to the next time through the loop.";
+
+  return [
+    arduinoFrameByExplanation(
+      block.id,
+      block.blockName,
+      timeline,
+      explanation,
+      previousState
+    ),
+  ];
+};
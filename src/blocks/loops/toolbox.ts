@@ -27,5 +27,15 @@ export default `<category name="Loops" colour="${COLOR_THEME.CONTROL}">
          </block>
        </value>
      </block>
+     <block type="controls_whileUntil">
+       <value name="BOOL">
+         <block type="logic_boolean">
+           <field name="BOOL">TRUE</field>
+         </block>
+       </value>
+     </block>
+     <block type="controls_flow_statements">
+       <field name="FLOW">BREAK</field>
+     </block>
    </category>
 `;
@@ -1,12 +1,14 @@
 import { ArduinoComponentType } from "../../core/frames/arduino.frame";
 import type { BlockToFrameTransformer } from "../../core/frames/transformer/block-to-frame.transformer";
 import { getInputValue } from "../../core/frames/transformer/block-to-value.factories";
-import { arduinoFrameByComponent } from "../../core/frames/transformer/frame-transformer.helpers";
+import {
+  arduinoFrameByComponent,
+  simulatedTime,
+} from "../../core/frames/transformer/frame-transformer.helpers";
 import type {
   ArduinoReceiveMessageState,
   ArduinoRecieveMessageSensor,
 } from "./state";
-import _ from "lodash";
 
 export const messageSetup: BlockToFrameTransformer = (
   blocks,
@@ -57,7 +59,7 @@ export const arduinoSendMessage: BlockToFrameTransformer = (
     previousState
   );
 
-  const components = previousState ? _.cloneDeep(previousState.components) : [];
+  const components = previousState ? [...previousState.components] : [];
 
   const replaceVariables = previousState ? { ...previousState.variables } : {};
 
@@ -73,6 +75,7 @@ export const arduinoSendMessage: BlockToFrameTransformer = (
       components,
       explanation: `Arduino sending message: "${message}".`,
       delay: 0,
+      time: simulatedTime(previousState, 0),
       powerLedOn: true,
       frameNumber: previousState ? previousState.frameNumber + 1 : 1,
     },
@@ -89,6 +89,47 @@ describe("test motors factories", () => {
     VerifyMotorState(state4, 32, 43, "ANTI_CLOCKWISE", "CLOCKWISE");
   });
 
+  it("should speed up and slow down the motors while the Arduino waits", () => {
+    const motorSetupBlock = workspace.newBlock("motor_setup");
+    motorSetupBlock.setFieldValue("1", "NUMBER_OF_COMPONENTS");
+    const moveMotor = createMoveMotorBlock(1, "ANTI_CLOCKWISE", 150);
+    const stopMotor = workspace.newBlock("stop_motor") as BlockSvg;
+    stopMotor.setFieldValue("1", "MOTOR");
+    const delay1 = createDelayBlock(0.1);
+    const delay2 = createDelayBlock(0.05);
+    connectToArduinoBlock(moveMotor);
+    moveMotor.nextConnection.connect(delay1.previousConnection);
+    delay1.nextConnection.connect(stopMotor.previousConnection);
+    stopMotor.nextConnection.connect(delay2.previousConnection);
+    const event = createTestEvent(moveMotor.id);
+
+    const [, moveState, delayState1, stopState, delayState2] =
+      eventToFrameFactory(event).frames;
+
+    expect(getMotorShield(moveState).velocity1).toBe(0);
+    expect(getMotorShield(delayState1).velocity1).toBe(-100);
+    expect(getMotorShield(stopState).velocity1).toBe(-100);
+    expect(getMotorShield(delayState2).velocity1).toBe(-50);
+    expect(getMotorShield(delayState2).speed1).toBe(0);
+  });
+
+  const getMotorShield = (state: ArduinoFrame) =>
+    state.components.find(
+      (c) => c.type === ArduinoComponentType.MOTOR
+    ) as MotorShieldState;
+
+  const createDelayBlock = (seconds: number) => {
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    delayBlock
+      .getInput("DELAY")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, seconds)
+          .outputConnection
+      );
+
+    return delayBlock;
+  };
+
   const createMoveMotorBlock = (
     motorNumber: number,
     direction: string,
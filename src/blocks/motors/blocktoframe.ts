@@ -40,6 +40,8 @@ export const motorSetup: BlockToFrameTransformer = (
     direction2: MOTOR_DIRECTION.CLOCKWISE,
     speed1: 0,
     speed2: 0,
+    velocity1: 0,
+    velocity2: 0,
     pins: [en1, in1, in2],
     type: ArduinoComponentType.MOTOR,
   };
@@ -0,0 +1,58 @@
+import { MOTOR_DIRECTION, type MotorShieldState } from "./state";
+
+// How much the speed of a motor can change every millisecond
+export const MOTOR_ACCELERATION = 1;
+
+/**
+ * The speed the motor was told to turn at, anticlockwise is negative.
+ */
+export const motorTargetVelocity = (
+  speed: number,
+  direction: MOTOR_DIRECTION
+) => (direction === MOTOR_DIRECTION.ANTICLOCKWISE ? -speed : speed);
+
+/**
+ * Changes the velocity by the acceleration for the milliseconds that went
+ * by without going past the velocity it is changing to.
+ */
+export const accelerate = (velocity: number, target: number, ms: number) => {
+  const maxChange = ms * MOTOR_ACCELERATION;
+  if (Math.abs(target - velocity) <= maxChange) {
+    return target;
+  }
+
+  return velocity + Math.sign(target - velocity) * maxChange;
+};
+
+/**
+ * Speeds up or slows down the motors towards the speed they were told to
+ * turn at for the milliseconds that went by.
+ */
+export const moveMotors = (
+  motorShield: MotorShieldState,
+  ms: number
+): MotorShieldState => {
+  if (ms <= 0) {
+    return motorShield;
+  }
+
+  const velocity1 = accelerate(
+    motorShield.velocity1,
+    motorTargetVelocity(motorShield.speed1, motorShield.direction1),
+    ms
+  );
+  const velocity2 = accelerate(
+    motorShield.velocity2,
+    motorTargetVelocity(motorShield.speed2, motorShield.direction2),
+    ms
+  );
+
+  if (
+    velocity1 === motorShield.velocity1 &&
+    velocity2 === motorShield.velocity2
+  ) {
+    return motorShield;
+  }
+
+  return { ...motorShield, velocity1, velocity2 };
+};
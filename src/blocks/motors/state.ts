@@ -7,6 +7,10 @@ export interface MotorShieldState extends ArduinoComponentState {
   direction1: MOTOR_DIRECTION;
   speed2: number;
   direction2: MOTOR_DIRECTION;
+  // How fast the motors are really turning, anticlockwise is negative.
+  // Motors take time to speed up and slow down to the speed they are set to.
+  velocity1: number;
+  velocity2: number;
   en1: ARDUINO_PINS;
   in1: ARDUINO_PINS;
   in2: ARDUINO_PINS;
@@ -17,6 +17,7 @@ import {
 
 import type { Element, Text } from "@svgdotjs/svg.js";
 import { MotorShieldState, MOTOR_DIRECTION } from "./state";
+import { accelerate, motorTargetVelocity } from "./motion";
 
 import _ from "lodash";
 import { Svg } from "@svgdotjs/svg.js";
@@ -25,6 +26,8 @@ import { MicroController } from "../../core/microcontroller/microcontroller";
 import { findComponentConnection } from "../../core/virtual-circuit/svg-helpers";
 let motorSpin1TimerId;
 let motorSpin2TimerId;
+// How fast the fans are drawn turning
+const motorVelocities: { [motor: number]: number } = { 1: 0, 2: 0 };
 
 export const motorPosition: PositionComponent<MotorShieldState> = (
   state,
@@ -132,6 +135,9 @@ export const motorUpdate: SyncComponent = (
 ) => {
   setDirectionAndSpeed(motorEl, 1, state.speed1, state.direction1);
   setDirectionAndSpeed(motorEl, 2, state.speed2, state.direction2);
+  // Start from how fast the motors are turning at the end of the frame
+  motorVelocities[1] = state.velocity1;
+  motorVelocities[2] = state.velocity2;
   if (state.numberOfMotors === 1) {
     setMotorSpin(motorEl, 1, state.speed1, state.direction1);
   } else {
@@ -146,20 +152,24 @@ const setMotorSpin = (
   speed: number,
   direction: MOTOR_DIRECTION
 ) => {
-  const setSpeed =
-    ((direction == MOTOR_DIRECTION.CLOCKWISE ? 1 : -1) * speed) / 30;
+  // The fan speeds up and slows down like the motor instead of jumping
+  // to the new speed
+  const targetVelocity = motorTargetVelocity(speed, direction);
+  const spin = () => {
+    motorVelocities[motorNumber] = accelerate(
+      motorVelocities[motorNumber],
+      targetVelocity,
+      10
+    );
+    const motorFan = motorEl.findOne(`#MOTOR_${motorNumber}_FAN`) as Element;
+    motorFan.rotate(motorVelocities[motorNumber] / 30);
+  };
   if (motorNumber == 1) {
     clearInterval(motorSpin1TimerId);
-    motorSpin1TimerId = setInterval(() => {
-      const motorFan = motorEl.findOne(`#MOTOR_1_FAN`) as Element;
-      motorFan.rotate(setSpeed);
-    }, 10);
+    motorSpin1TimerId = setInterval(spin, 10);
   } else {
     clearInterval(motorSpin2TimerId);
-    motorSpin2TimerId = setInterval(() => {
-      const motorFan = motorEl.findOne(`#MOTOR_2_FAN`) as Element;
-      motorFan.rotate(setSpeed);
-    }, 10);
+    motorSpin2TimerId = setInterval(spin, 10);
   }
 };
 
@@ -79,8 +79,8 @@ export const setNeoPixelColor: BlockToFrameTransformer = (
       previousState
     )
   );
-  neoPixel.neoPixels[position - 1] = { position: position - 1, color };
   const newComponent = _.cloneDeep(neoPixel);
+  newComponent.neoPixels[position - 1] = { position: position - 1, color };
 
   return [
     arduinoFrameByComponent(
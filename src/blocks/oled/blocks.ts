@@ -0,0 +1,211 @@
+import Blockly from "blockly";
+import { COLOR_THEME } from "../../core/blockly/constants/colors";
+import { appendI2cPinInput } from "../../core/blockly/helpers/i2c.helper";
+
+const oledImage = {
+  type: "field_image",
+  src: "./blocks/oled/oled.svg",
+  width: 15,
+  height: 15,
+  alt: "*",
+  flipRtl: false,
+};
+
+const colorDropdown = {
+  type: "field_dropdown",
+  name: "COLOR",
+  options: [
+    ["white", "WHITE"],
+    ["black", "BLACK"],
+  ],
+};
+
+const numberInput = (name: string) => ({
+  type: "input_value",
+  name,
+  check: "Number",
+  align: "RIGHT",
+});
+
+Blockly.defineBlocksWithJsonArray([
+  {
+    type: "oled_print",
+    message0: "%1 Print %2 %3 x %4 y %5 Text Size %6 Color %7",
+    args0: [
+      oledImage,
+      {
+        type: "input_dummy",
+      },
+      {
+        type: "input_value",
+        name: "TEXT",
+        check: "String",
+        align: "RIGHT",
+      },
+      numberInput("X"),
+      numberInput("Y"),
+      {
+        type: "field_dropdown",
+        name: "SIZE",
+        options: [
+          ["1", "1"],
+          ["2", "2"],
+          ["3", "3"],
+        ],
+      },
+      colorDropdown,
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip:
+      "Draws the text with its top left corner at x and y.  x goes from 0 to 127 and y from 0 to 63.",
+    helpUrl: "",
+  },
+  {
+    type: "oled_draw_pixel",
+    message0: "%1 Draw dot %2 x %3 y %4 Color %5",
+    args0: [
+      oledImage,
+      {
+        type: "input_dummy",
+      },
+      numberInput("X"),
+      numberInput("Y"),
+      colorDropdown,
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip: "Draws one pixel.  x goes from 0 to 127 and y from 0 to 63.",
+    helpUrl: "",
+  },
+  {
+    type: "oled_draw_line",
+    message0: "%1 Draw line %2 x1 %3 y1 %4 x2 %5 y2 %6 Color %7",
+    args0: [
+      oledImage,
+      {
+        type: "input_dummy",
+      },
+      numberInput("X1"),
+      numberInput("Y1"),
+      numberInput("X2"),
+      numberInput("Y2"),
+      colorDropdown,
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip: "Draws a line from (x1, y1) to (x2, y2).",
+    helpUrl: "",
+  },
+  {
+    type: "oled_draw_rectangle",
+    message0: "%1 Draw %2 rectangle %3 x %4 y %5 width %6 height %7 Color %8",
+    args0: [
+      oledImage,
+      {
+        type: "field_dropdown",
+        name: "FILL",
+        options: [
+          ["outlined", "OUTLINE"],
+          ["filled", "FILL"],
+        ],
+      },
+      {
+        type: "input_dummy",
+      },
+      numberInput("X"),
+      numberInput("Y"),
+      numberInput("WIDTH"),
+      numberInput("HEIGHT"),
+      colorDropdown,
+    ],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip: "Draws a rectangle with its top left corner at x and y.",
+    helpUrl: "",
+  },
+  {
+    type: "oled_clear",
+    message0: "%1 Clear OLED",
+    args0: [oledImage],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip:
+      "Erases everything that was drawn.  The screen changes on the next show block.",
+    helpUrl: "",
+  },
+  {
+    type: "oled_display",
+    message0: "%1 Show drawing on OLED",
+    args0: [oledImage],
+    previousStatement: null,
+    nextStatement: null,
+    colour: COLOR_THEME.COMPONENTS,
+    tooltip:
+      "Nothing appears on the OLED until this block runs.  Draw everything first and then show it.",
+    helpUrl: "",
+  },
+]);
+
+Blockly.Blocks["oled_draw_bitmap"] = {
+  init: function () {
+    this.appendDummyInput()
+      .appendField(new Blockly.FieldImage("./blocks/oled/oled.svg", 15, 15))
+      .appendField("Draw picture");
+    for (let row = 1; row <= 8; row += 1) {
+      const input = this.appendDummyInput();
+      for (let column = 1; column <= 8; column += 1) {
+        input.appendField(
+          new Blockly.FieldCheckbox("FALSE"),
+          `${row},${column}`
+        );
+      }
+    }
+    this.appendValueInput("X").setCheck("Number").appendField("x");
+    this.appendValueInput("Y").setCheck("Number").appendField("y");
+    this.appendDummyInput()
+      .appendField("Color")
+      .appendField(
+        new Blockly.FieldDropdown([
+          ["white", "WHITE"],
+          ["black", "BLACK"],
+        ]),
+        "COLOR"
+      );
+    this.setPreviousStatement(true, null);
+    this.setNextStatement(true, null);
+    this.setColour(COLOR_THEME.COMPONENTS);
+    this.setTooltip(
+      "Draws the checked boxes as an 8 by 8 picture with its top left corner at x and y."
+    );
+    this.setHelpUrl("");
+  },
+};
+
+Blockly.Blocks["oled_setup"] = {
+  init: function () {
+    this.appendDummyInput()
+      .appendField(new Blockly.FieldImage("./blocks/oled/oled.svg", 15, 15))
+      .appendField("Setup OLED 128 x 64");
+    this.appendDummyInput()
+      .appendField("Address")
+      .appendField(
+        new Blockly.FieldDropdown([
+          ["0x3C", "0x3C"],
+          ["0x3D", "0x3D"],
+        ]),
+        "ADDRESS"
+      );
+    appendI2cPinInput(this);
+    this.setColour(COLOR_THEME.COMPONENTS);
+    this.setTooltip(
+      "Most 128 x 64 OLEDs use the address 0x3C, it is printed on the back of the screen."
+    );
+    this.setHelpUrl("");
+  },
+};
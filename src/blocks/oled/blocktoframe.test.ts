@@ -0,0 +1,185 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../../core/blockly/blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import { connectToArduinoBlock } from "../../core/blockly/helpers/block.helper";
+import { eventToFrameFactory } from "../../core/frames/event-to-frame.factory";
+import { ARDUINO_PINS } from "../../core/microcontroller/selectBoard";
+import {
+  type ArduinoFrame,
+  ArduinoComponentType,
+} from "../../core/frames/arduino.frame";
+import { findComponent } from "../../core/frames/transformer/frame-transformer.helpers";
+import { VariableTypes } from "../../core/blockly/dto/variable.type";
+import {
+  createArduinoAndWorkSpace,
+  createTestEvent,
+  createValueBlock,
+} from "../../tests/tests.helper";
+import { OLED_ADDRESS, type OledState } from "./state";
+
+describe("oled factories", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+  let oledSetup: BlockSvg;
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue("1", "LOOP_TIMES");
+    oledSetup = workspace.newBlock("oled_setup") as BlockSvg;
+    oledSetup.setFieldValue("0x3D", "ADDRESS");
+  });
+
+  it("should start with an empty screen", () => {
+    const frames = eventToFrameFactory(createTestEvent(oledSetup.id)).frames;
+    const oled = getOled(frames[0]);
+
+    expect(frames[0].explanation).toBe("Setting up OLED.");
+    expect(oled.address).toBe(OLED_ADDRESS["0X3D"]);
+    expect(oled.pins).toEqual([ARDUINO_PINS.PIN_A4, ARDUINO_PINS.PIN_A5]);
+    expect(oled.sdaPin).toBe(ARDUINO_PINS.PIN_A4);
+    expect(oled.sclPin).toBe(ARDUINO_PINS.PIN_A5);
+    expect(oled.buffer.length).toBe(64);
+    expect(oled.buffer.every((row) => row === "0".repeat(128))).toBe(true);
+    expect(oled.screen).toEqual(oled.buffer);
+  });
+
+  it("should only change the screen when the drawing is shown", () => {
+    // Blocks are added to the top of the loop
+    connectToArduinoBlock(workspace.newBlock("oled_display") as BlockSvg);
+    const print = createDrawBlock(workspace, "oled_print", { X: 1, Y: 2 });
+    print
+      .getInput("TEXT")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.STRING, "H").outputConnection
+      );
+    connectToArduinoBlock(print);
+
+    const frames = eventToFrameFactory(createTestEvent(oledSetup.id)).frames;
+    expect(frames.length).toBe(3);
+
+    const printed = getOled(frames[1]);
+    expect(frames[1].explanation).toBe('Drawing "H" at (1, 2) on the OLED.');
+    expect(printed.screen.every((row) => !row.includes("1"))).toBe(true);
+    // The first column of the H is 7 pixels tall
+    expect(printed.buffer.slice(2, 10).map((row) => row[1])).toEqual([
+      "1",
+      "1",
+      "1",
+      "1",
+      "1",
+      "1",
+      "1",
+      "0",
+    ]);
+    // The middle bar of the H
+    expect(printed.buffer[5].slice(1, 6)).toBe("11111");
+
+    const shown = getOled(frames[2]);
+    expect(frames[2].explanation).toBe("Showing the drawing on the OLED.");
+    expect(shown.screen).toEqual(printed.buffer);
+  });
+
+  it("should draw pixels, lines, rectangles and pictures", () => {
+    const bitmap = createDrawBlock(workspace, "oled_draw_bitmap", {
+      X: 20,
+      Y: 30,
+    });
+    bitmap.setFieldValue("TRUE", "1,1");
+    bitmap.setFieldValue("TRUE", "2,8");
+    connectToArduinoBlock(bitmap);
+    const rectangle = createDrawBlock(workspace, "oled_draw_rectangle", {
+      X: 10,
+      Y: 10,
+      WIDTH: 4,
+      HEIGHT: 3,
+    });
+    connectToArduinoBlock(rectangle);
+    connectToArduinoBlock(
+      createDrawBlock(workspace, "oled_draw_line", {
+        X1: 0,
+        Y1: 0,
+        X2: 3,
+        Y2: 3,
+      })
+    );
+    connectToArduinoBlock(
+      createDrawBlock(workspace, "oled_draw_pixel", { X: 127, Y: 63 })
+    );
+
+    const frames = eventToFrameFactory(createTestEvent(oledSetup.id)).frames;
+    expect(frames.length).toBe(5);
+
+    expect(frames[1].explanation).toBe(
+      "Drawing a dot at (127, 63) on the OLED."
+    );
+    expect(getOled(frames[1]).buffer[63][127]).toBe("1");
+
+    const line = getOled(frames[2]).buffer;
+    expect([0, 1, 2, 3].map((i) => line[i][i])).toEqual(["1", "1", "1", "1"]);
+    expect(line[0][1]).toBe("0");
+
+    expect(frames[3].explanation).toBe(
+      "Drawing an outlined 4 by 3 rectangle at (10, 10) on the OLED."
+    );
+    const rectangleBuffer = getOled(frames[3]).buffer;
+    expect(rectangleBuffer[10].slice(10, 14)).toBe("1111");
+    expect(rectangleBuffer[11].slice(10, 14)).toBe("1001");
+    expect(rectangleBuffer[12].slice(10, 14)).toBe("1111");
+
+    const picture = getOled(frames[4]).buffer;
+    expect(picture[30].slice(20, 28)).toBe("10000000");
+    expect(picture[31].slice(20, 28)).toBe("00000001");
+  });
+
+  it("should erase the drawing when the screen is cleared", () => {
+    connectToArduinoBlock(workspace.newBlock("oled_display") as BlockSvg);
+    connectToArduinoBlock(workspace.newBlock("oled_clear") as BlockSvg);
+    connectToArduinoBlock(workspace.newBlock("oled_display") as BlockSvg);
+    const rectangle = createDrawBlock(workspace, "oled_draw_rectangle", {
+      X: 0,
+      Y: 0,
+      WIDTH: 128,
+      HEIGHT: 64,
+    });
+    rectangle.setFieldValue("FILL", "FILL");
+    connectToArduinoBlock(rectangle);
+
+    const frames = eventToFrameFactory(createTestEvent(oledSetup.id)).frames;
+    expect(frames.length).toBe(5);
+    const filled = getOled(frames[2]).screen;
+    expect(filled.every((row) => !row.includes("0"))).toBe(true);
+
+    const cleared = getOled(frames[3]);
+    expect(frames[3].explanation).toBe("Clearing the OLED.");
+    expect(cleared.buffer.every((row) => !row.includes("1"))).toBe(true);
+    // The screen still shows the rectangle until the next show block
+    expect(cleared.screen).toEqual(filled);
+    expect(getOled(frames[4]).screen).toEqual(cleared.buffer);
+  });
+});
+
+const getOled = (frame: ArduinoFrame) =>
+  findComponent<OledState>(frame, ArduinoComponentType.OLED);
+
+const createDrawBlock = (
+  workspace: Workspace,
+  type: string,
+  numbers: { [input: string]: number }
+) => {
+  const block = workspace.newBlock(type) as BlockSvg;
+  Object.keys(numbers).forEach((input) => {
+    block
+      .getInput(input)
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, numbers[input])
+          .outputConnection
+      );
+  });
+
+  return block;
+};
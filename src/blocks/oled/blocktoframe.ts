@@ -0,0 +1,274 @@
+import _ from "lodash";
+import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
+import type { BlockData } from "../../core/blockly/dto/block.type";
+import type { VariableData } from "../../core/blockly/dto/variable.type";
+import {
+  ArduinoComponentType,
+  type ArduinoFrame,
+  type Timeline,
+} from "../../core/frames/arduino.frame";
+import type { BlockToFrameTransformer } from "../../core/frames/transformer/block-to-frame.transformer";
+import { getInputValue } from "../../core/frames/transformer/block-to-value.factories";
+import {
+  arduinoFrameByComponent,
+  findComponent,
+} from "../../core/frames/transformer/frame-transformer.helpers";
+import { OLED_HEIGHT, OLED_WIDTH, type OledState } from "./state";
+import {
+  createPixelBuffer,
+  drawBitmap,
+  drawLine,
+  drawOnBuffer,
+  drawRectangle,
+  drawText,
+  type PixelCanvas,
+} from "./pixel-buffer";
+
+export const oledSetup: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const oledState: OledState = {
+    type: ArduinoComponentType.OLED,
+    pins: block.pins.sort(),
+    address: findFieldValue(block, "ADDRESS"),
+    width: OLED_WIDTH,
+    height: OLED_HEIGHT,
+    buffer: createPixelBuffer(OLED_WIDTH, OLED_HEIGHT),
+    screen: createPixelBuffer(OLED_WIDTH, OLED_HEIGHT),
+    sdaPin: findFieldValue(block, "PIN_SDA"),
+    sclPin: findFieldValue(block, "PIN_SCL"),
+  };
+
+  return [
+    arduinoFrameByComponent(
+      block.id,
+      block.blockName,
+      timeline,
+      oledState,
+      "Setting up OLED.",
+      previousState
+    ),
+  ];
+};
+
+export const oledPrint: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const text = getInputValue(
+    blocks,
+    block,
+    variables,
+    timeline,
+    "TEXT",
+    "",
+    previousState
+  ).toString();
+  const x = getNumber(blocks, block, variables, timeline, "X", previousState);
+  const y = getNumber(blocks, block, variables, timeline, "Y", previousState);
+  const size = +findFieldValue(block, "SIZE");
+
+  return drawOnOled(
+    block,
+    timeline,
+    previousState,
+    `Drawing "${text}" at (${x}, ${y}) on the OLED.`,
+    (canvas) => drawText(canvas, x, y, text, size, isWhite(block))
+  );
+};
+
+export const oledDrawPixel: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const x = getNumber(blocks, block, variables, timeline, "X", previousState);
+  const y = getNumber(blocks, block, variables, timeline, "Y", previousState);
+
+  return drawOnOled(
+    block,
+    timeline,
+    previousState,
+    `Drawing a dot at (${x}, ${y}) on the OLED.`,
+    (canvas) => canvas.setPixel(x, y, isWhite(block))
+  );
+};
+
+export const oledDrawLine: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const [x1, y1, x2, y2] = ["X1", "Y1", "X2", "Y2"].map((name) =>
+    getNumber(blocks, block, variables, timeline, name, previousState)
+  );
+
+  return drawOnOled(
+    block,
+    timeline,
+    previousState,
+    `Drawing a line from (${x1}, ${y1}) to (${x2}, ${y2}) on the OLED.`,
+    (canvas) => drawLine(canvas, x1, y1, x2, y2, isWhite(block))
+  );
+};
+
+export const oledDrawRectangle: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const [x, y, width, height] = ["X", "Y", "WIDTH", "HEIGHT"].map((name) =>
+    getNumber(blocks, block, variables, timeline, name, previousState)
+  );
+  const fill = findFieldValue(block, "FILL") === "FILL";
+
+  return drawOnOled(
+    block,
+    timeline,
+    previousState,
+    `Drawing ${fill ? "a filled" : "an outlined"} ${width} by ${height} rectangle at (${x}, ${y}) on the OLED.`,
+    (canvas) => drawRectangle(canvas, x, y, width, height, fill, isWhite(block))
+  );
+};
+
+export const oledDrawBitmap: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const x = getNumber(blocks, block, variables, timeline, "X", previousState);
+  const y = getNumber(blocks, block, variables, timeline, "Y", previousState);
+
+  return drawOnOled(
+    block,
+    timeline,
+    previousState,
+    `Drawing a picture at (${x}, ${y}) on the OLED.`,
+    (canvas) => drawBitmap(canvas, x, y, getBitmap(block), isWhite(block))
+  );
+};
+
+export const oledClear: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const oledState = _.cloneDeep(
+    findComponent<OledState>(previousState, ArduinoComponentType.OLED)
+  );
+  oledState.buffer = createPixelBuffer(oledState.width, oledState.height);
+
+  return [
+    arduinoFrameByComponent(
+      block.id,
+      block.blockName,
+      timeline,
+      oledState,
+      "Clearing the OLED.",
+      previousState
+    ),
+  ];
+};
+
+export const oledDisplay: BlockToFrameTransformer = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const oledState = _.cloneDeep(
+    findComponent<OledState>(previousState, ArduinoComponentType.OLED)
+  );
+  oledState.screen = [...oledState.buffer];
+
+  return [
+    arduinoFrameByComponent(
+      block.id,
+      block.blockName,
+      timeline,
+      oledState,
+      "Showing the drawing on the OLED.",
+      previousState
+    ),
+  ];
+};
+
+/**
+ * Rows of the checkboxes in the draw picture block, 1 is checked.
+ */
+export const getBitmap = (block: BlockData): string[] => {
+  return _.range(1, 9).map((row) =>
+    _.range(1, 9)
+      .map((column) =>
+        findFieldValue(block, `${row},${column}`) === "TRUE" ? "1" : "0"
+      )
+      .join("")
+  );
+};
+
+const isWhite = (block: BlockData) =>
+  findFieldValue(block, "COLOR") === "WHITE";
+
+const getNumber = (
+  blocks: BlockData[],
+  block: BlockData,
+  variables: VariableData[],
+  timeline: Timeline,
+  inputName: string,
+  previousState?: ArduinoFrame
+): number => {
+  return Math.round(
+    +getInputValue(
+      blocks,
+      block,
+      variables,
+      timeline,
+      inputName,
+      0,
+      previousState
+    ) || 0
+  );
+};
+
+// Drawing only changes the buffer, the screen changes with the show block
+const drawOnOled = (
+  block: BlockData,
+  timeline: Timeline,
+  previousState: ArduinoFrame,
+  explanation: string,
+  draw: (canvas: PixelCanvas) => void
+): ArduinoFrame[] => {
+  const oledState = _.cloneDeep(
+    findComponent<OledState>(previousState, ArduinoComponentType.OLED)
+  );
+  oledState.buffer = drawOnBuffer(oledState.buffer, draw);
+
+  return [
+    arduinoFrameByComponent(
+      block.id,
+      block.blockName,
+      timeline,
+      oledState,
+      explanation,
+      previousState
+    ),
+  ];
+};
@@ -0,0 +1,105 @@
+import Blockly, { type Block } from "blockly";
+
+const oledColor = (block: Block) =>
+  block.getFieldValue("COLOR") === "WHITE" ? "SSD1306_WHITE" : "SSD1306_BLACK";
+
+const numberValue = (block: Block, name: string) =>
+  Blockly["Arduino"].valueToCode(
+    block,
+    name,
+    Blockly["Arduino"].ORDER_ATOMIC
+  ) || "0";
+
+Blockly["Arduino"]["oled_setup"] = function (block: Block) {
+  const address = block.getFieldValue("ADDRESS");
+
+  Blockly["Arduino"].libraries_["define_wire"] =
+    "#include <Wire.h>;  // Include the Wire library for I2C communication.";
+  Blockly["Arduino"].libraries_["define_adafruit_gfx"] =
+    "#include <Adafruit_GFX.h>  // Include the Adafruit GFX library for drawing text and shapes";
+  Blockly["Arduino"].libraries_["define_adafruit_ssd1306"] =
+    "#include <Adafruit_SSD1306.h>  // Include the Adafruit SSD1306 library for controlling the OLED";
+  Blockly["Arduino"].libraries_["adafruit_ssd1306_oled_object"] =
+    "Adafruit_SSD1306 oled(128, 64, &Wire, -1); // Create a 128 x 64 OLED object without a reset pin";
+
+  Blockly["Arduino"].setupCode_["adafruit_ssd1306_oled"] =
+    `   oled.begin(SSD1306_SWITCHCAPVCC, ${address}); // Start the OLED at I2C address ${address}
+   oled.clearDisplay(); // Clear the logo the library starts with
+   oled.display(); // Show the empty screen\n`;
+
+  return "";
+};
+
+Blockly["Arduino"]["oled_print"] = function (block: Block) {
+  const text =
+    Blockly["Arduino"].valueToCode(
+      block,
+      "TEXT",
+      Blockly["Arduino"].ORDER_ATOMIC
+    ) || '""';
+
+  return `oled.setTextSize(${block.getFieldValue("SIZE")});
+oled.setTextColor(${oledColor(block)});
+oled.setCursor(${numberValue(block, "X")}, ${numberValue(block, "Y")});
+oled.print(${text});\n`;
+};
+
+Blockly["Arduino"]["oled_draw_pixel"] = function (block: Block) {
+  return `oled.drawPixel(${numberValue(block, "X")}, ${numberValue(
+    block,
+    "Y"
+  )}, ${oledColor(block)});\n`;
+};
+
+Blockly["Arduino"]["oled_draw_line"] = function (block: Block) {
+  const [x1, y1, x2, y2] = ["X1", "Y1", "X2", "Y2"].map((name) =>
+    numberValue(block, name)
+  );
+
+  return `oled.drawLine(${x1}, ${y1}, ${x2}, ${y2}, ${oledColor(block)});\n`;
+};
+
+Blockly["Arduino"]["oled_draw_rectangle"] = function (block: Block) {
+  const [x, y, width, height] = ["X", "Y", "WIDTH", "HEIGHT"].map((name) =>
+    numberValue(block, name)
+  );
+  const func = block.getFieldValue("FILL") === "FILL" ? "fillRect" : "drawRect";
+
+  return `oled.${func}(${x}, ${y}, ${width}, ${height}, ${oledColor(block)});\n`;
+};
+
+Blockly["Arduino"]["oled_draw_bitmap"] = function (block: Block) {
+  const rows: string[] = [];
+  for (let row = 1; row <= 8; row += 1) {
+    let bits = "";
+    for (let column = 1; column <= 8; column += 1) {
+      bits += block.getFieldValue(`${row},${column}`) === "TRUE" ? "1" : "0";
+    }
+    rows.push(bits);
+  }
+
+  // Pictures that look the same share one array.  The arrays go with the
+  // functions so they come after the includes.
+  const hex = rows
+    .map((bits) => parseInt(bits, 2).toString(16).padStart(2, "0"))
+    .join("")
+    .toUpperCase();
+  const bitmapName = `oled_bitmap_${hex}`;
+  Blockly["Arduino"].functionNames_[bitmapName] = `// 8 x 8 picture for the OLED
+const unsigned char ${bitmapName}[] PROGMEM = {
+  ${rows.map((bits) => `0b${bits}`).join(",\n  ")}
+};`;
+
+  return `oled.drawBitmap(${numberValue(block, "X")}, ${numberValue(
+    block,
+    "Y"
+  )}, ${bitmapName}, 8, 8, ${oledColor(block)});\n`;
+};
+
+Blockly["Arduino"]["oled_clear"] = function () {
+  return "oled.clearDisplay();\n";
+};
+
+Blockly["Arduino"]["oled_display"] = function () {
+  return "oled.display();\n";
+};
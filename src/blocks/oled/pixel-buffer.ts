@@ -0,0 +1,169 @@
+import { FONT_5X7, UNKNOWN_CHARACTER } from "./font";
+
+export interface PixelCanvas {
+  setPixel(x: number, y: number, on: boolean): void;
+  width: number;
+  height: number;
+}
+
+export const createPixelBuffer = (width: number, height: number): string[] => {
+  return new Array(height).fill("0".repeat(width));
+};
+
+/**
+ * Draws on a copy of the buffer like the Adafruit GFX library draws on the
+ * screen's memory.  Pixels outside the screen are ignored.
+ */
+export const drawOnBuffer = (
+  buffer: string[],
+  draw: (canvas: PixelCanvas) => void
+): string[] => {
+  const rows = buffer.map((row) => row.split(""));
+  const width = rows.length > 0 ? rows[0].length : 0;
+  const height = rows.length;
+
+  draw({
+    width,
+    height,
+    setPixel(x, y, on) {
+      x = Math.round(x);
+      y = Math.round(y);
+      if (x < 0 || y < 0 || x >= width || y >= height) {
+        return;
+      }
+      rows[y][x] = on ? "1" : "0";
+    },
+  });
+
+  return rows.map((row) => row.join(""));
+};
+
+export const drawLine = (
+  canvas: PixelCanvas,
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  on: boolean
+) => {
+  [x1, y1, x2, y2] = [x1, y1, x2, y2].map(Math.round);
+  // Bresenham's line algorithm, the same one the library uses
+  const dx = Math.abs(x2 - x1);
+  const dy = -Math.abs(y2 - y1);
+  const stepX = x1 < x2 ? 1 : -1;
+  const stepY = y1 < y2 ? 1 : -1;
+  let error = dx + dy;
+
+  while (true) {
+    canvas.setPixel(x1, y1, on);
+    if (x1 === x2 && y1 === y2) {
+      return;
+    }
+    const doubleError = 2 * error;
+    if (doubleError >= dy) {
+      error += dy;
+      x1 += stepX;
+    }
+    if (doubleError <= dx) {
+      error += dx;
+      y1 += stepY;
+    }
+  }
+};
+
+export const drawRectangle = (
+  canvas: PixelCanvas,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  fill: boolean,
+  on: boolean
+) => {
+  [x, y, width, height] = [x, y, width, height].map(Math.round);
+  if (width <= 0 || height <= 0) {
+    return;
+  }
+
+  for (let row = y; row < y + height; row += 1) {
+    for (let col = x; col < x + width; col += 1) {
+      const isEdge =
+        row === y ||
+        row === y + height - 1 ||
+        col === x ||
+        col === x + width - 1;
+      if (fill || isEdge) {
+        canvas.setPixel(col, row, on);
+      }
+    }
+  }
+};
+
+/**
+ * Draws the lit pixels of the bitmap, the others are left as they are.
+ */
+export const drawBitmap = (
+  canvas: PixelCanvas,
+  x: number,
+  y: number,
+  bitmap: string[],
+  on: boolean
+) => {
+  bitmap.forEach((row, rowIndex) => {
+    row.split("").forEach((pixel, colIndex) => {
+      if (pixel === "1") {
+        canvas.setPixel(x + colIndex, y + rowIndex, on);
+      }
+    });
+  });
+};
+
+/**
+ * Prints the text from the cursor, wrapping at the edge of the screen.
+ * Every letter takes 6 by 8 pixels times the text size.
+ */
+export const drawText = (
+  canvas: PixelCanvas,
+  x: number,
+  y: number,
+  text: string,
+  size: number,
+  on: boolean
+) => {
+  let cursorX = Math.round(x);
+  let cursorY = Math.round(y);
+
+  for (const letter of text) {
+    if (letter === "\n") {
+      cursorX = 0;
+      cursorY += 8 * size;
+      continue;
+    }
+    if (letter === "\r") {
+      continue;
+    }
+    if (cursorX + 6 * size > canvas.width) {
+      cursorX = 0;
+      cursorY += 8 * size;
+    }
+
+    const code = letter.charCodeAt(0);
+    const columns = FONT_5X7[code - 32] || UNKNOWN_CHARACTER;
+    columns.forEach((column, col) => {
+      for (let row = 0; row < 8; row += 1) {
+        if ((column >> row) & 1) {
+          drawRectangle(
+            canvas,
+            cursorX + col * size,
+            cursorY + row * size,
+            size,
+            size,
+            true,
+            on
+          );
+        }
+      }
+    });
+    cursorX += 6 * size;
+  }
+};
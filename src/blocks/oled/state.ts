@@ -0,0 +1,20 @@
+import type { I2cComponentState } from "../../core/frames/arduino.frame";
+
+export interface OledState extends I2cComponentState {
+  address: OLED_ADDRESS;
+  width: number;
+  height: number;
+  // One string per row, 1 is a lit pixel and 0 is dark
+  buffer: string[];
+  // What is on the screen, the buffer is only copied here on display
+  screen: string[];
+}
+
+export enum OLED_ADDRESS {
+  "0X3C" = "0x3C",
+  "0X3D" = "0x3D",
+}
+
+export const OLED_WIDTH = 128;
+
+export const OLED_HEIGHT = 64;
@@ -0,0 +1,48 @@
+import { COLOR_THEME } from "../../core/blockly/constants/colors";
+
+const number = (name: string, value: number) => `<value name="${name}">
+                <block type="math_number">
+                    <field name="NUM">${value}</field>
+                </block>
+            </value>`;
+
+export default `<category name="OLED" colour="${COLOR_THEME.COMPONENTS}">
+       <block type="oled_setup">
+            <comment pinned="false" h="100" w="460">Sets up a 128 x 64 OLED screen.  Most screens use the address 0x3C, it is printed on the back.</comment>
+       </block>
+       <block type="oled_print">
+            <comment pinned="false" h="100" w="460">Draws text on the screen.  x goes from 0 on the left to 127 on the right and y goes from 0 at the top to 63 at the bottom.</comment>
+            <value name="TEXT">
+                <block type="text">
+                    <field name="TEXT">Hello</field>
+                </block>
+            </value>
+            ${number("X", 0)}
+            ${number("Y", 0)}
+       </block>
+       <block type="oled_draw_pixel">
+            ${number("X", 64)}
+            ${number("Y", 32)}
+       </block>
+       <block type="oled_draw_line">
+            ${number("X1", 0)}
+            ${number("Y1", 0)}
+            ${number("X2", 127)}
+            ${number("Y2", 63)}
+       </block>
+       <block type="oled_draw_rectangle">
+            ${number("X", 10)}
+            ${number("Y", 10)}
+            ${number("WIDTH", 40)}
+            ${number("HEIGHT", 20)}
+       </block>
+       <block type="oled_draw_bitmap">
+            <comment pinned="false" h="80" w="460">Check the checkboxes to draw a picture on the screen.</comment>
+            ${number("X", 60)}
+            ${number("Y", 28)}
+       </block>
+       <block type="oled_clear"></block>
+       <block type="oled_display">
+            <comment pinned="false" h="100" w="460">The screen only changes when this block runs.  Draw everything and then show it so the screen does not flicker.</comment>
+       </block>
+   </category>`;
@@ -0,0 +1,124 @@
+import type {
+  SyncComponent,
+  ResetComponent,
+} from "../../core/virtual-circuit/svg-sync";
+import type {
+  PositionComponent,
+  CreateWire,
+  AfterComponentCreateHook,
+} from "../../core/virtual-circuit/svg-create";
+
+import type { OledState } from "./state";
+import type { Element, G } from "@svgdotjs/svg.js";
+import { positionComponent } from "../../core/virtual-circuit/svg-position";
+import {
+  createGroundOrPowerWire,
+  createI2cBusWire,
+} from "../../core/virtual-circuit/wire";
+
+export const oledCreate: AfterComponentCreateHook<OledState> = (
+  state,
+  oledEl
+) => {
+  oledEl.findOne("#PIN_SCL_TEXT").node.innerHTML = state.sclPin;
+  oledEl.findOne("#PIN_SDA_TEXT").node.innerHTML = state.sdaPin;
+  drawPixels(oledEl, state.screen);
+};
+
+export const oledPosition: PositionComponent<OledState> = (
+  state,
+  oledEl,
+  arduino,
+  draw,
+  board,
+  area
+) => {
+  const { holes, isDown } = area;
+  positionComponent(oledEl, arduino, draw, holes[1], isDown, "PIN_POWER");
+};
+
+export const oledReset: ResetComponent = (oledEl: Element) => {
+  drawPixels(oledEl, []);
+};
+
+export const oledUpdate: SyncComponent = (state: OledState, oledEl) => {
+  drawPixels(oledEl, state.screen);
+};
+
+/**
+ * Draws the lit pixels as one path, every run of lit pixels in a row is a
+ * rectangle.  That keeps the svg small compared to a rect per pixel.
+ */
+const drawPixels = (oledEl: Element, screen: string[]) => {
+  const pixelsEl = oledEl.findOne("#PIXELS") as G;
+  pixelsEl.clear();
+
+  const path = screen
+    .map((row, y) => {
+      let rowPath = "";
+      let x = 0;
+      while (x < row.length) {
+        if (row[x] !== "1") {
+          x += 1;
+          continue;
+        }
+        const start = x;
+        while (row[x] === "1") {
+          x += 1;
+        }
+        rowPath += `M${start} ${y}h${x - start}v1h-${x - start}z`;
+      }
+      return rowPath;
+    })
+    .join("");
+
+  if (path !== "") {
+    pixelsEl.path(path);
+  }
+};
+
+export const createWiresOled: CreateWire<OledState> = (
+  state,
+  draw,
+  oledEl,
+  arduino,
+  id,
+  board,
+  area
+) => {
+  const { holes, isDown } = area;
+  createGroundOrPowerWire(
+    holes[0],
+    isDown,
+    oledEl,
+    draw,
+    arduino,
+    id,
+    "ground"
+  );
+  createGroundOrPowerWire(holes[1], isDown, oledEl, draw, arduino, id, "power");
+
+  createI2cBusWire(
+    holes[2],
+    isDown,
+    oledEl,
+    state.sclPin,
+    draw,
+    arduino,
+    id,
+    "PIN_SCL",
+    board
+  );
+
+  createI2cBusWire(
+    holes[3],
+    isDown,
+    oledEl,
+    state.sdaPin,
+    draw,
+    arduino,
+    id,
+    "PIN_SDA",
+    board
+  );
+};
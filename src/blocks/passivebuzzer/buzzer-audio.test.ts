@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach, expect, vi } from "vitest";
+
+import {
+  playBuzzer,
+  setBuzzerPlaying,
+  setBuzzerSound,
+  stopAllBuzzers,
+  stopBuzzer,
+} from "./buzzer-audio";
+
+const oscillators: FakeOscillator[] = [];
+
+class FakeParam {
+  value = 0;
+  setValueAtTime(value: number) {
+    this.value = value;
+  }
+}
+
+class FakeOscillator {
+  type = "sine";
+  frequency = new FakeParam();
+  playing = false;
+  connect() {}
+  disconnect() {}
+  start() {
+    this.playing = true;
+  }
+  stop() {
+    this.playing = false;
+  }
+}
+
+class FakeAudioContext {
+  state = "running";
+  currentTime = 0;
+  destination = {};
+  createOscillator() {
+    const oscillator = new FakeOscillator();
+    oscillators.push(oscillator);
+    return oscillator;
+  }
+  createGain() {
+    return { gain: new FakeParam(), connect() {}, disconnect() {} };
+  }
+}
+
+describe("passive buzzer audio", () => {
+  beforeEach(() => {
+    vi.stubGlobal("AudioContext", FakeAudioContext);
+    oscillators.length = 0;
+    setBuzzerSound(false, 50);
+    setBuzzerPlaying(true);
+  });
+
+  afterEach(() => {
+    stopAllBuzzers();
+    vi.unstubAllGlobals();
+  });
+
+  it("should play the tone as a square wave until it is stopped", () => {
+    playBuzzer("buzzer_3", 131);
+    expect(oscillators.length).toBe(1);
+    expect(oscillators[0].type).toBe("square");
+    expect(oscillators[0].frequency.value).toBe(131);
+    expect(oscillators[0].playing).toBe(true);
+
+    // Changing the note keeps the same sound going
+    playBuzzer("buzzer_3", 247);
+    expect(oscillators.length).toBe(1);
+    expect(oscillators[0].frequency.value).toBe(247);
+
+    stopBuzzer("buzzer_3");
+    expect(oscillators[0].playing).toBe(false);
+  });
+
+  it("should stop the tone when the tone is off", () => {
+    playBuzzer("buzzer_3", 131);
+    playBuzzer("buzzer_3", 0);
+
+    expect(oscillators[0].playing).toBe(false);
+  });
+
+  it("should only play while the player is playing and not muted", () => {
+    playBuzzer("buzzer_3", 131);
+    setBuzzerPlaying(false);
+    expect(oscillators[0].playing).toBe(false);
+
+    playBuzzer("buzzer_3", 131);
+    expect(oscillators.length).toBe(1);
+
+    setBuzzerPlaying(true);
+    setBuzzerSound(true, 50);
+    playBuzzer("buzzer_3", 131);
+    expect(oscillators.length).toBe(1);
+  });
+});
@@ -0,0 +1,108 @@
+interface BuzzerSound {
+  oscillator: OscillatorNode;
+  gain: GainNode;
+}
+
+// Square waves are loud so full volume is still quieter than the page
+const MAX_GAIN = 0.2;
+
+let audioContext: AudioContext | undefined;
+const buzzerSounds: { [buzzerId: string]: BuzzerSound } = {};
+
+let muted = false;
+let volume = 50;
+// Tones only play while the player is playing so they keep
+// in time with the frames and stop when it is paused
+let playing = false;
+
+// Only browsers have an AudioContext, the server and tests do not
+const canPlay = () =>
+  playing &&
+  !muted &&
+  volume > 0 &&
+  typeof globalThis.AudioContext !== "undefined";
+
+const getAudioContext = () => {
+  if (!audioContext) {
+    audioContext = new globalThis.AudioContext();
+  }
+
+  // Browsers keep the audio suspended until someone clicks on the page
+  if (audioContext.state === "suspended") {
+    audioContext.resume();
+  }
+
+  return audioContext;
+};
+
+/**
+ * Plays the frequency on the buzzer until it is stopped, a buzzer
+ * that is already playing changes to the new frequency.
+ */
+export const playBuzzer = (buzzerId: string, frequency: number) => {
+  if (!canPlay() || frequency <= 0) {
+    stopBuzzer(buzzerId);
+    return;
+  }
+
+  const context = getAudioContext();
+  const sound = buzzerSounds[buzzerId];
+  if (sound) {
+    sound.oscillator.frequency.setValueAtTime(frequency, context.currentTime);
+    return;
+  }
+
+  // tone() makes a square wave on the pin
+  const oscillator = context.createOscillator();
+  oscillator.type = "square";
+  oscillator.frequency.setValueAtTime(frequency, context.currentTime);
+  const gain = context.createGain();
+  gain.gain.setValueAtTime((volume / 100) * MAX_GAIN, context.currentTime);
+  oscillator.connect(gain);
+  gain.connect(context.destination);
+  oscillator.start();
+
+  buzzerSounds[buzzerId] = { oscillator, gain };
+};
+
+export const stopBuzzer = (buzzerId: string) => {
+  const sound = buzzerSounds[buzzerId];
+  if (!sound) {
+    return;
+  }
+
+  sound.oscillator.stop();
+  sound.oscillator.disconnect();
+  sound.gain.disconnect();
+  delete buzzerSounds[buzzerId];
+};
+
+export const stopAllBuzzers = () => {
+  Object.keys(buzzerSounds).forEach(stopBuzzer);
+};
+
+/**
+ * Volume goes from 0 to 100
+ */
+export const setBuzzerSound = (isMuted: boolean, newVolume: number) => {
+  muted = isMuted;
+  volume = Math.min(100, Math.max(0, newVolume));
+  if (!canPlay()) {
+    stopAllBuzzers();
+    return;
+  }
+
+  Object.values(buzzerSounds).forEach(({ gain }) => {
+    gain.gain.setValueAtTime(
+      (volume / 100) * MAX_GAIN,
+      getAudioContext().currentTime
+    );
+  });
+};
+
+export const setBuzzerPlaying = (isPlaying: boolean) => {
+  playing = isPlaying;
+  if (!playing) {
+    stopAllBuzzers();
+  }
+};
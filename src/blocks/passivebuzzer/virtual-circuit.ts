@@ -14,6 +14,7 @@ import {
   createGroundOrPowerWire,
 } from "../../core/virtual-circuit/wire";
 import { PassiveBuzzerState, NOTE_TONES, Notes } from "./state";
+import { playBuzzer, stopBuzzer } from "./buzzer-audio";
 
 export const afterCreatePassiveBuzzer: AfterComponentCreateHook<PassiveBuzzerState> = (
   state,
@@ -32,6 +33,7 @@ export const updatePassiveBuzzer: SyncComponent = (
   draw,
   frame
 ) => {
+  playBuzzer(componentEl.id(), state.tone);
 
   if (state.displaySimpleOn) {
     componentEl.findOne("#NOTE_TEXT").node.textContent =
@@ -96,5 +98,6 @@ export const createWiresPassiveBuzzer: CreateWire<PassiveBuzzerState> = (
 };
 
 export const resetPassiveBuzzer: ResetComponent = (component) => {
+  stopBuzzer(component.id());
   component.findOne("#NOTE_TEXT").node.textContent = "";
 };
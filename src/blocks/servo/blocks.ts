@@ -28,3 +28,24 @@ Blockly.Blocks["rotate_servo"] = {
     this.setHelpUrl("");
   },
 };
+
+Blockly.Blocks["servo_read_degrees"] = {
+  init: function () {
+    this.appendDummyInput()
+      .appendField(new Blockly.FieldImage("./blocks/servo/servo.png", 15, 15))
+      .appendField("Servo Degrees")
+      .appendField("Pin# ")
+      .appendField(
+        new Blockly.FieldDropdown(() => {
+          return selectBoardBlockly().digitalPins;
+        }),
+        "PIN"
+      );
+    this.setOutput(true, "Number");
+    this.setColour(COLOR_THEME.COMPONENTS);
+    this.setTooltip(
+      "Where the servo is right now.  It takes time for the servo to turn to the degrees it was told to go to."
+    );
+    this.setHelpUrl("");
+  },
+};
@@ -18,6 +18,7 @@ import {
   ArduinoFrame,
 } from "../../core/frames/arduino.frame";
 import type { ServoState } from "./state";
+import { servoDrawnDegree } from "./motion";
 
 describe("test servos factories", () => {
   let workspace: Workspace;
@@ -64,6 +65,96 @@ describe("test servos factories", () => {
     verifyServos(state4, 120, 140);
   });
 
+  it("should turn the servo while the Arduino waits", () => {
+    const servo6Block = createServoBlock(90, ARDUINO_PINS.PIN_6);
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    delayBlock
+      .getInput("DELAY")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 0.1).outputConnection
+      );
+    const readDegreesBlock = workspace.newBlock("servo_read_degrees");
+    readDegreesBlock.setFieldValue(ARDUINO_PINS.PIN_6, "PIN");
+    const servo9Block = workspace.newBlock("rotate_servo") as BlockSvg;
+    servo9Block.setFieldValue(ARDUINO_PINS.PIN_9, "PIN");
+    servo9Block
+      .getInput("DEGREE")
+      .connection.connect(readDegreesBlock.outputConnection);
+
+    connectToArduinoBlock(servo6Block);
+    servo6Block.nextConnection.connect(delayBlock.previousConnection);
+    delayBlock.nextConnection.connect(servo9Block.previousConnection);
+
+    const event = createTestEvent(servo6Block.id);
+
+    const [rotateState, delayState, readState] =
+      eventToFrameFactory(event).frames;
+
+    const servo6 = (state: ArduinoFrame) =>
+      findComponent<ServoState>(
+        state,
+        ArduinoComponentType.SERVO,
+        ARDUINO_PINS.PIN_6
+      );
+
+    // The servo has not had any time to turn
+    expect(servo6(rotateState).degree).toBe(90);
+    expect(servo6(rotateState).position).toBe(0);
+    expect(rotateState.delay).toBe(0);
+
+    // A servo turns 60 degrees in 0.1 seconds
+    expect(servo6(delayState).position).toBeCloseTo(60);
+    expect(readState.explanation).toBe("Servo 9 is rotating to 60 degrees.");
+  });
+
+  it("should draw the servo turning when nothing waits after the rotate", () => {
+    const servo6Block = createServoBlock(90, ARDUINO_PINS.PIN_6);
+    const servo9Block = createServoBlock(45, ARDUINO_PINS.PIN_9);
+
+    connectToArduinoBlock(servo6Block);
+    servo6Block.nextConnection.connect(servo9Block.previousConnection);
+
+    const event = createTestEvent(servo6Block.id);
+    const [rotate6State, rotate9State] = eventToFrameFactory(event).frames;
+
+    const servo6 = findComponent<ServoState>(
+      rotate9State,
+      ArduinoComponentType.SERVO,
+      ARDUINO_PINS.PIN_6
+    );
+
+    // No time went by so the servo is still where it started
+    expect(servo6.position).toBe(0);
+    expect(rotate9State.delay).toBe(0);
+
+    // The real servo keeps turning while the code runs
+    expect(servoDrawnDegree(servo6, rotate6State)).toBe(90);
+    expect(servoDrawnDegree(servo6, rotate9State)).toBe(90);
+  });
+
+  it("should draw the servo where it is when the Arduino waits", () => {
+    const servo6Block = createServoBlock(90, ARDUINO_PINS.PIN_6);
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    delayBlock
+      .getInput("DELAY")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 0.1).outputConnection
+      );
+
+    connectToArduinoBlock(servo6Block);
+    servo6Block.nextConnection.connect(delayBlock.previousConnection);
+
+    const event = createTestEvent(servo6Block.id);
+    const [, delayState] = eventToFrameFactory(event).frames;
+
+    const servo6 = findComponent<ServoState>(
+      delayState,
+      ArduinoComponentType.SERVO,
+      ARDUINO_PINS.PIN_6
+    );
+    expect(servoDrawnDegree(servo6, delayState)).toBeCloseTo(60);
+  });
+
   const createServoBlock = (degree: number, pin: ARDUINO_PINS) => {
     const rotateServo = workspace.newBlock("rotate_servo") as BlockSvg;
     const numberBlock = createValueBlock(
@@ -34,11 +34,10 @@ export const servoRotate: BlockToFrameTransformer = (
     )
   );
 
-  const newComponent = getServo(
-    degree,
-    findFieldValue(block, "PIN"),
-    previousState
-  );
+  const pin = findFieldValue(block, "PIN");
+  // The servo turns while the code keeps going, the frames
+  // after this one move it closer to the degree.
+  const newComponent = getServo(degree, pin, previousState);
 
   return [
     arduinoFrameByComponent(
@@ -58,7 +57,12 @@ const getServo = (
   previousState: ArduinoFrame
 ): ServoState => {
   if (!previousState) {
-    return { pins: [pin], degree, type: ArduinoComponentType.SERVO };
+    return {
+      pins: [pin],
+      degree,
+      position: 0,
+      type: ArduinoComponentType.SERVO,
+    };
   }
 
   const servo = findComponent<ServoState>(
@@ -68,7 +72,12 @@ const getServo = (
   );
 
   if (!servo) {
-    return { pins: [pin], degree, type: ArduinoComponentType.SERVO };
+    return {
+      pins: [pin],
+      degree,
+      position: 0,
+      type: ArduinoComponentType.SERVO,
+    };
   }
 
   return { ...servo, degree };
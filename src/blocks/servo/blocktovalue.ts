@@ -0,0 +1,26 @@
+import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
+import { ArduinoComponentType } from "../../core/frames/arduino.frame";
+import type { ValueGenerator } from "../../core/frames/transformer/block-to-value.factories";
+import { findComponent } from "../../core/frames/transformer/frame-transformer.helpers";
+import type { ServoState } from "./state";
+
+/**
+ * Where the servo is while it is turning, not the degree it was told to go to.
+ */
+export const servoReadDegrees: ValueGenerator = (
+  blocks,
+  block,
+  variables,
+  timeline,
+  previousState
+) => {
+  const servo = previousState
+    ? findComponent<ServoState>(
+        previousState,
+        ArduinoComponentType.SERVO,
+        findFieldValue(block, "PIN")
+      )
+    : undefined;
+
+  return servo ? Math.round(servo.position) : 0;
+};
@@ -0,0 +1,34 @@
+import type { ArduinoFrame } from "../../core/frames/arduino.frame";
+import type { ServoState } from "./state";
+
+// A hobby servo turns 60 degrees in about 0.1 seconds
+export const SERVO_DEGREES_PER_MS = 60 / 100;
+
+/**
+ * Turns the servo towards the degree it was told to go to for the
+ * milliseconds that went by.
+ */
+export const moveServo = (servo: ServoState, ms: number): ServoState => {
+  const distance = servo.degree - servo.position;
+  if (distance === 0 || ms <= 0) {
+    return servo;
+  }
+
+  const maxDistance = ms * SERVO_DEGREES_PER_MS;
+  if (Math.abs(distance) <= maxDistance) {
+    return { ...servo, position: servo.degree };
+  }
+
+  return {
+    ...servo,
+    position: servo.position + Math.sign(distance) * maxDistance,
+  };
+};
+
+/**
+ * The degree the servo is drawn turning to.  A frame that does not wait
+ * leaves the servo where it was, but the real servo keeps turning while
+ * the code runs so it is drawn turning to the degree it was told to go to.
+ */
+export const servoDrawnDegree = (servo: ServoState, frame?: ArduinoFrame) =>
+  frame && frame.delay > 0 ? servo.position : servo.degree;
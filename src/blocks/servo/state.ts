@@ -1,5 +1,8 @@
 import type { ArduinoComponentState } from "../../core/frames/arduino.frame";
 
 export interface ServoState extends ArduinoComponentState {
+  // Where the code told the servo to go
   degree: number;
+  // Where the servo really is, it takes time to turn to the degree
+  position: number;
 }
@@ -11,5 +11,6 @@ export default `
    </block>
    </value>
    </block>
+   <block type="servo_read_degrees"></block>
    </category>
 `;
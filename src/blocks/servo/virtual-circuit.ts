@@ -12,20 +12,57 @@ import { findSvgElement } from "../../core/virtual-circuit/svg-helpers";
 import type { Svg, Text, Element } from "@svgdotjs/svg.js";
 import { positionComponent } from "../../core/virtual-circuit/svg-position";
 import type { ServoState } from "./state";
+import { moveServo, servoDrawnDegree } from "./motion";
 import {
   createComponentWire,
   createGroundOrPowerWire,
 } from "../../core/virtual-circuit/wire";
+import { get } from "svelte/store";
+import playerSpeedStore from "../../stores/player-speed.store";
+
+/**
+ * Timers turning the servos, by the servo element id
+ */
+const servoTimers: { [servoId: string]: any } = {};
+
+// How often the servo is redrawn while it is turning
+const SERVO_ANIMATION_MS = 20;
 
 export const servoReset: ResetComponent = (servoEl) => {
+  clearInterval(servoTimers[servoEl.id()]);
   setDegrees(servoEl, 0);
   setText(servoEl, 0);
+  servoEl.data("position", 0);
 };
 
-export const servoUpdate: SyncComponent = (state: ServoState, servoEl) => {
-  setDegrees(servoEl, state.degree);
+export const servoUpdate: SyncComponent = (
+  state: ServoState,
+  servoEl,
+  draw,
+  frame
+) => {
+  clearInterval(servoTimers[servoEl.id()]);
+
+  // Turns from where the servo is drawn at the speed a servo turns,
+  // sped up or slowed down like the player
+  const degree = servoDrawnDegree(state, frame);
+  const simulatedMs = SERVO_ANIMATION_MS * get(playerSpeedStore);
+  let position = servoEl.data("position") || 0;
+  const turnServo = () => {
+    position = moveServo({ ...state, position, degree }, simulatedMs).position;
+    setDegrees(servoEl, position);
+    setText(servoEl, position);
+    servoEl.data("position", position);
+
+    if (position === degree) {
+      clearInterval(servoTimers[servoEl.id()]);
+    }
+  };
 
-  setText(servoEl, state.degree);
+  turnServo();
+  if (position !== degree) {
+    servoTimers[servoEl.id()] = setInterval(turnServo, SERVO_ANIMATION_MS);
+  }
 };
 
 export const servoCreate: AfterComponentCreateHook<ServoState> = (
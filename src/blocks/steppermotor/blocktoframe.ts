@@ -20,6 +20,7 @@ export const stepperMotorSetup: BlockToFrameTransformer = (
   const pin3 = findFieldValue(block, "PIN_3");
   const pin4 = findFieldValue(block, "PIN_4");
   const totalSteps = findFieldValue(block, "TOTAL_STEPS");
+  const rpm = +findFieldValue(block, "SPEED");
   const stepperMotorState: StepperMotorState = {
     type: ArduinoComponentType.STEPPER_MOTOR,
     pins: [pin1, pin2, pin3, pin4],
@@ -28,6 +29,7 @@ export const stepperMotorSetup: BlockToFrameTransformer = (
     pin3,
     pin4,
     currentRotation: 0,
+    stepDelay: rpm > 0 && +totalSteps > 0 ? 60000 / (+totalSteps * rpm) : 0,
     totalSteps,
     steps: 0,
   };
@@ -64,6 +66,9 @@ export const moveStepperMotor: BlockToFrameTransformer = (
     previosState,
     ArduinoComponentType.STEPPER_MOTOR
   ) as StepperMotorState;
+  // stepperMotor.step waits until the motor has moved all the steps
+  const moveTime = Math.abs(steps) * stepperMotorState.stepDelay;
+
   const updatedComponent: StepperMotorState = {
     ...stepperMotorState,
     steps,
@@ -77,7 +82,10 @@ export const moveStepperMotor: BlockToFrameTransformer = (
       timeline,
       updatedComponent,
       `Stepper motor moving ${steps} steps.`,
-      previosState
+      previosState,
+      false,
+      false,
+      moveTime
     ),
   ];
 };
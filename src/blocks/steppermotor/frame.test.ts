@@ -72,6 +72,14 @@ describe("Passive Buzzer Tests", () => {
     verifySetupFrame(frame1, 0, 300, 0);
     verifyFrameStep(frame2, 20, 300, 20);
     verifyFrameStep(frame3, -30, 300, -10);
+
+    // 30 rpm with 300 steps a turn is 9000 steps a minute
+    const stepDelay = 60000 / 9000;
+    const setupStepper = frame1.components[0] as StepperMotorState;
+    expect(setupStepper.stepDelay).toBeCloseTo(stepDelay);
+    const stepper = frame3.components[0] as StepperMotorState;
+    expect(stepper.stepDelay).toBeCloseTo(stepDelay);
+    expect(frame3.delay).toBeCloseTo(30 * stepDelay);
   });
 });
 
@@ -5,6 +5,8 @@ export interface StepperMotorState extends ArduinoComponentState {
   totalSteps: number;
   steps: number;
   currentRotation: number;
+  // Milliseconds between each step at the speed from the setup block
+  stepDelay: number;
   pin1: ARDUINO_PINS;
   pin2: ARDUINO_PINS;
   pin3: ARDUINO_PINS;
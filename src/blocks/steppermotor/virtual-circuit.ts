@@ -14,6 +14,13 @@ import {
   createGroundOrPowerWire,
 } from "../../core/virtual-circuit/wire";
 import { StepperMotorState } from "./state";
+import { get } from "svelte/store";
+import playerSpeedStore from "../../stores/player-speed.store";
+
+/**
+ * Timers moving the stepper motors, by the stepper motor element id
+ */
+const stepperTimers: { [stepperId: string]: any } = {};
 
 export const positionStepperMotor: PositionComponent<StepperMotorState> = (
   state,
@@ -43,13 +50,30 @@ export const updateStepperMotor: SyncComponent = (
   rotateTextEl.node.textContent = `Moved ${state.steps} Steps`;
   rotateTextEl.cx(cx + 13);
 
-  const currentElSteps = rotateTextEl.data("steps") || 0;
+  clearInterval(stepperTimers[componentEl.id()]);
+  let currentElSteps = rotateTextEl.data("steps") || 0;
 
-  const diffSteps = state.currentRotation - currentElSteps;
+  // Turns one step at a time at the speed the stepper motor was moving,
+  // sped up or slowed down like the player
+  const step = (steps: number) => {
+    rotatingEl.rotate(steps * degreesPerStep, cx, cy);
+    currentElSteps += steps;
+    rotateTextEl.data("steps", currentElSteps);
+  };
 
-  rotatingEl.rotate(diffSteps * degreesPerStep, cx, cy);
+  if (state.stepDelay <= 0) {
+    step(state.currentRotation - currentElSteps);
+    return;
+  }
 
-  rotateTextEl.data("steps", state.currentRotation);
+  const stepMs = state.stepDelay / get(playerSpeedStore);
+  stepperTimers[componentEl.id()] = setInterval(() => {
+    if (currentElSteps === state.currentRotation) {
+      clearInterval(stepperTimers[componentEl.id()]);
+      return;
+    }
+    step(Math.sign(state.currentRotation - currentElSteps));
+  }, stepMs);
 };
 
 export const createWireStepperMotor: CreateWire<StepperMotorState> = (
@@ -138,6 +162,7 @@ export const createWireStepperMotor: CreateWire<StepperMotorState> = (
 };
 
 export const resetStepperMotor: ResetComponent = (componentEl) => {
+  clearInterval(stepperTimers[componentEl.id()]);
   const rotateTextEl = componentEl.findOne("#ROTATE_TEXT") as Element;
   const rotateAroundEl = componentEl.findOne("#ROTATE") as Element;
   const rotatingEl = componentEl.findOne("#ROTATING_PIECE") as Element;
@@ -1,4 +1,3 @@
-import { b } from "vitest/dist/suite-KPWE530F.js";
 import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
 import { ArduinoComponentType } from "../../core/frames/arduino.frame";
 import type { ValueGenerator } from "../../core/frames/transformer/block-to-value.factories";
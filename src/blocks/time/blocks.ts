@@ -46,21 +46,22 @@ Blockly.defineBlocksWithJsonArray([
   },
 ]);
 
+// The simulated clock keeps the time now, the block is only here so
+// projects that have it still load.
 const timeSetupBlock: any = {
   init: function () {
     this.appendDummyInput()
       .appendField(new Blockly.FieldImage("./blocks/time/time.png", 15, 15))
       .appendField("Setup Time");
 
-    this.appendDummyInput()
-      .appendField("How many seconds per loop")
-      .appendField(
-        new Blockly.FieldNumber(0.1, 0, 100000, 0.00001),
-        "time_in_seconds"
-      );
+    this.appendDummyInput().appendField(
+      "Not needed anymore, you can delete it"
+    );
 
     this.setColour(COLOR_THEME.ARDUINO);
-    this.setTooltip("");
+    this.setTooltip(
+      "The simulator counts the time the Arduino waits, so this block does nothing."
+    );
     this.setHelpUrl("");
   },
 };
@@ -1,6 +1,7 @@
-import _ from "lodash";
 import type { BlockToFrameTransformer } from "../../core/frames/transformer/block-to-frame.transformer";
 import { getInputValue } from "../../core/frames/transformer/block-to-value.factories";
+import { simulatedTime } from "../../core/frames/transformer/frame-transformer.helpers";
+import { moveComponents } from "../../core/frames/transformer/component-motion";
 
 export const delayBlock: BlockToFrameTransformer = (
   blocks,
@@ -23,12 +24,8 @@ export const delayBlock: BlockToFrameTransformer = (
 
   const explanation = `Waiting for ${seconds.toFixed(2)} seconds.`;
 
-  const newVariables = previousState
-    ? { ..._.cloneDeep(previousState.variables) }
-    : {};
-  const newComponets = previousState
-    ? [..._.cloneDeep(previousState.components)]
-    : [];
+  const newVariables = previousState ? { ...previousState.variables } : {};
+  const newComponets = previousState ? [...previousState.components] : [];
 
   return [
     {
@@ -39,9 +36,11 @@ export const delayBlock: BlockToFrameTransformer = (
       variables: newVariables,
       txLedOn: false,
       builtInLedOn: false,
-      components: newComponets,
+      // Servos and motors keep moving while the Arduino waits
+      components: moveComponents(newComponets, delay),
       explanation,
       delay,
+      time: simulatedTime(previousState, delay),
       powerLedOn: true,
       frameNumber: previousState ? previousState.frameNumber + 1 : 1,
     },
@@ -5,8 +5,8 @@ import { eventToFrameFactory } from "../../core/frames/event-to-frame.factory";
 import {
   ArduinoFrame,
   ArduinoComponentType,
+  ArduinoComponentState,
 } from "../../core/frames/arduino.frame";
-import { TimeState } from "./state";
 import {
   createArduinoAndWorkSpace,
   createTestEvent,
@@ -24,16 +24,13 @@ describe("time state factories", () => {
   beforeEach(() => {
     [workspace] = createArduinoAndWorkSpace();
     timesetup = workspace.newBlock("time_setup");
-
-    timesetup.setFieldValue(".3", "time_in_seconds");
   });
 
   it("should be able generate state for time setup block", () => {
     const event = createTestEvent(timesetup.id);
 
-    const timeState: TimeState = {
+    const timeState: ArduinoComponentState = {
       pins: [],
-      timeInSeconds: 0.3,
       type: ArduinoComponentType.TIME,
     };
 
@@ -48,6 +45,7 @@ describe("time state factories", () => {
       builtInLedOn: false,
       sendMessage: "", // message arduino is sending
       delay: 0, // Number of milliseconds to delay
+      time: 0, // Milliseconds since the arduino turned on
       powerLedOn: true,
       frameNumber: 1,
     };
@@ -1,6 +1,7 @@
-import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
-import type { TimeState } from "./state";
-import { ArduinoComponentType } from "../../core/frames/arduino.frame";
+import {
+  ArduinoComponentType,
+  type ArduinoComponentState,
+} from "../../core/frames/arduino.frame";
 import type { BlockToFrameTransformer } from "../../core/frames/transformer/block-to-frame.transformer";
 import { arduinoFrameByComponent } from "../../core/frames/transformer/frame-transformer.helpers";
 
@@ -11,9 +12,8 @@ export const timeSetup: BlockToFrameTransformer = (
   timeline,
   previousState
 ) => {
-  const timeComonent: TimeState = {
+  const timeComonent: ArduinoComponentState = {
     pins: block.pins,
-    timeInSeconds: +findFieldValue(block, "time_in_seconds"),
     type: ArduinoComponentType.TIME,
   };
 
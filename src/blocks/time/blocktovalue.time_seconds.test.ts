@@ -9,11 +9,11 @@ import {
   createArduinoAndWorkSpace,
   createSetVariableBlockWithValue,
   createTestEvent,
+  createValueBlock,
 } from "../../tests/tests.helper";
 import { VariableTypes } from "../../core/blockly/dto/variable.type";
 describe("get time block factories", () => {
   let workspace: Workspace;
-  let timesetup;
   let arduinoBlock: BlockSvg;
 
   afterEach(() => {
@@ -22,12 +22,9 @@ describe("get time block factories", () => {
 
   beforeEach(() => {
     [workspace, arduinoBlock] = createArduinoAndWorkSpace();
-    timesetup = workspace.newBlock("time_setup");
-
-    timesetup.setFieldValue(".3", "time_in_seconds");
   });
 
-  it("should be able generate state for time setup block", () => {
+  it("should not count time when nothing waits", () => {
     arduinoBlock.setFieldValue("3", "LOOP_TIMES");
 
     const numberVariableBlock = createSetVariableBlockWithValue(
@@ -48,11 +45,50 @@ describe("get time block factories", () => {
 
     connectToArduinoBlock(numberVariableBlock);
 
-    const event = createTestEvent(timesetup.id);
+    const event = createTestEvent(arduinoBlock.id);
+
+    const [state1, state2, state3] = eventToFrameFactory(event).frames;
+    expect(state1.variables["seconds"].value).toBe(0);
+    expect(state2.variables["seconds"].value).toBe(0);
+    expect(state3.variables["seconds"].value).toBe(0);
+  });
+
+  it("should count the time the arduino spent waiting", () => {
+    arduinoBlock.setFieldValue("3", "LOOP_TIMES");
+
+    const numberVariableBlock = createSetVariableBlockWithValue(
+      workspace,
+      "seconds",
+      VariableTypes.NUMBER,
+      1
+    );
+    numberVariableBlock
+      .getInput("VALUE")
+      .connection.targetBlock()
+      .dispose(true);
+    numberVariableBlock
+      .getInput("VALUE")
+      .connection.connect(workspace.newBlock("time_seconds").outputConnection);
+
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    delayBlock
+      .getInput("DELAY")
+      .connection.connect(
+        createValueBlock(workspace, VariableTypes.NUMBER, 2).outputConnection
+      );
+    numberVariableBlock.nextConnection.connect(delayBlock.previousConnection);
+
+    connectToArduinoBlock(numberVariableBlock);
+
+    const event = createTestEvent(arduinoBlock.id);
 
-    const [state1, state2, state3, state4] = eventToFrameFactory(event).frames;
-    expect(state2.variables["seconds"].value).toBe(0.3);
-    expect(state3.variables["seconds"].value).toBe(0.6);
-    expect(state4.variables["seconds"].value).toBe(0.9);
+    const [state1, state2, state3, state4, state5, state6] =
+      eventToFrameFactory(event).frames;
+    expect(state1.variables["seconds"].value).toBe(0);
+    expect(state2.time).toBe(2000);
+    expect(state3.variables["seconds"].value).toBe(2);
+    expect(state4.time).toBe(4000);
+    expect(state5.variables["seconds"].value).toBe(4);
+    expect(state6.time).toBe(6000);
   });
 });
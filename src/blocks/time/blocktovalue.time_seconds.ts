@@ -1,7 +1,9 @@
-import type { TimeState } from "./state";
-import { ArduinoComponentType } from "../../core/frames/arduino.frame";
 import type { ValueGenerator } from "../../core/frames/transformer/block-to-value.factories";
 
+/**
+ * The simulated time the Arduino has been on, it counts the delays and the
+ * time components take to move.
+ */
 export const timeSeconds: ValueGenerator = (
   blocks,
   block,
@@ -9,9 +11,9 @@ export const timeSeconds: ValueGenerator = (
   timeline,
   previousState
 ) => {
-  const timeState = previousState.components.find(
-    (c) => c.type === ArduinoComponentType.TIME
-  ) as TimeState;
+  if (!previousState) {
+    return 0;
+  }
 
-  return Math.floor(Math.round(timeState.timeInSeconds * 100)) / 100;
+  return Math.floor(Math.round((previousState.time / 1000) * 100)) / 100;
 };
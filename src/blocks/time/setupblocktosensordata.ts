@@ -1,10 +1,9 @@
 import type { BlockData } from "../../core/blockly/dto/block.type";
 import { findFieldValue } from "../../core/blockly/helpers/block-data.helper";
-import type { TimeSensor } from "./state";
+import type { Sensor } from "../../core/blockly/dto/sensors.type";
 
-export const timeSetupBlockToSensorData = (block: BlockData): TimeSensor => {
+export const timeSetupBlockToSensorData = (block: BlockData): Sensor => {
   return {
-    time_in_seconds: +findFieldValue(block, "time_in_seconds"),
     loop: +findFieldValue(block, "LOOP"),
     blockName: block.blockName,
   };
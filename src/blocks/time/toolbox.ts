@@ -3,9 +3,6 @@ import { COLOR_THEME } from "../../core/blockly/constants/colors";
 export const DELAY_COMMENT = `Wait for the given/defined seconds.`;
 
 export default `<category colour="${COLOR_THEME.ARDUINO}" name="Time">
-   <block type="time_setup">
-   <comment pinned="false" h="80" w="460">This block sets up how much time will pass in the virtual circuit per loop.</comment>
-   </block>
    <block type="delay_block">
       <comment pinned="false" h="90" w="460">
       ${DELAY_COMMENT}</comment>
@@ -45,4 +45,26 @@ describe("disable pins where the microcontroller does not have thoses pins", ()
       "Pin is not avialable for the microcontroller you are using."
     );
   });
+
+  it("should allow the nano's analog only pins when using the nano", () => {
+    settingsStore.update((settings) => {
+      return { ...settings, boardType: MicroControllerType.ARDUINO_NANO };
+    });
+    const analogSetupBlock = workspace.newBlock(
+      "analog_read_setup"
+    ) as BlockSvg;
+    analogSetupBlock.setFieldValue("A6", "PIN");
+    const event = createTestEvent(arduinoBlock.id);
+
+    expect(disableBlocksWithInvalidPinNumbers(event).length).toBe(0);
+
+    settingsStore.update((settings) => {
+      return { ...settings, boardType: MicroControllerType.ARDUINO_UNO };
+    });
+    const unoEvent = createTestEvent(arduinoBlock.id);
+    const actions = disableBlocksWithInvalidPinNumbers(unoEvent);
+
+    expect(actions.length).toBe(1);
+    expect(actions[0].blockId).toBe(analogSetupBlock.id);
+  });
 });
@@ -166,4 +166,34 @@ describe("disableDuplicatePinBlocks", () => {
 
     expect(actions.length).toBe(3);
   });
+
+  it("should allow components on the I2C bus to share the SDA and SCL pins", () => {
+    workspace.newBlock("lcd_setup");
+    workspace.newBlock("oled_setup");
+
+    const event = createTestEvent(arduinoBlock.id);
+
+    expect(disableDuplicatePinBlocks(event)).toEqual([]);
+  });
+
+  it("should disable I2C components that share a pin with something that is not on the I2C bus", () => {
+    const lcdBlock = workspace.newBlock("lcd_setup");
+    const oledBlock = workspace.newBlock("oled_setup");
+
+    const analogBlock = workspace.newBlock("analog_read_setup");
+    analogBlock.setFieldValue(ARDUINO_PINS.PIN_A4, "PIN");
+
+    const event = createTestEvent(arduinoBlock.id);
+
+    const actions = disableDuplicatePinBlocks(event);
+
+    expect(actions.map((a) => a.blockId).sort()).toEqual(
+      [lcdBlock.id, oledBlock.id, analogBlock.id].sort()
+    );
+    expect(actions.map((a) => a.warningText)).toEqual([
+      "This blocks has these duplicate pins: " + ARDUINO_PINS.PIN_A4,
+      "This blocks has these duplicate pins: " + ARDUINO_PINS.PIN_A4,
+      "This blocks has these duplicate pins: " + ARDUINO_PINS.PIN_A4,
+    ]);
+  });
 });
@@ -6,6 +6,7 @@ import {
   type BlockData,
   BlockTypeRequireRootBlock,
   BlockType,
+  i2cPinCategories,
 } from "../../dto/block.type";
 import type { ARDUINO_PINS } from "../../../microcontroller/selectBoard";
 import { findRootBlock } from "../../helpers/block-data.helper";
@@ -106,6 +107,14 @@ const getDuplicatePinsForCategory = (
 ): ARDUINO_PINS[] => {
   return _.keys(pinCategories)
     .filter((cat) => category !== cat)
+    // Components on the I2C bus can share the SDA and SCL pins
+    .filter(
+      (cat) =>
+        !(
+          i2cPinCategories.includes(category) &&
+          i2cPinCategories.includes(cat as PinCategory)
+        )
+    )
     .reduce((prev, next) => {
       const duplicatePins = _.intersection(
         pinCategories[category],
@@ -0,0 +1,52 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../../blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import { ActionType } from "../actions";
+import { disableI2cBlocksWithSameAddress } from "./disableI2cBlocksWithSameAddress";
+import {
+  createArduinoAndWorkSpace,
+  createTestEvent,
+} from "../../../../tests/tests.helper";
+
+describe("disableI2cBlocksWithSameAddress", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  it("should allow components on the I2C bus with different addresses", () => {
+    workspace.newBlock("lcd_setup").setFieldValue("0x27", "MEMORY_TYPE");
+    workspace.newBlock("oled_setup").setFieldValue("0x3C", "ADDRESS");
+
+    const event = createTestEvent(arduinoBlock.id);
+
+    expect(disableI2cBlocksWithSameAddress(event)).toEqual([]);
+  });
+
+  it("should disable the components on the I2C bus that use the same address", () => {
+    const lcdBlock = workspace.newBlock("lcd_setup");
+    lcdBlock.setFieldValue("0x3C", "MEMORY_TYPE");
+    const oledBlock = workspace.newBlock("oled_setup");
+    oledBlock.setFieldValue("0x3C", "ADDRESS");
+
+    const event = createTestEvent(arduinoBlock.id);
+    const actions = disableI2cBlocksWithSameAddress(event);
+
+    expect(actions.map((a) => a.blockId).sort()).toEqual(
+      [lcdBlock.id, oledBlock.id].sort()
+    );
+    expect(actions[0].type).toBe(ActionType.DISABLE_BLOCK);
+    expect(actions[0].stopCompiling).toBe(true);
+    expect(actions.map((a) => a.warningText)).toEqual([
+      "The I2C address 0x3C is used by the LCD screen and the OLED, please change one of them.",
+      "The I2C address 0x3C is used by the LCD screen and the OLED, please change one of them.",
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import _ from "lodash";
+import type { BlockEvent } from "../../dto/event.type";
+import { type DisableBlock, ActionType } from "../actions";
+import { i2cSetupBlocks, type BlockData } from "../../dto/block.type";
+import { findFieldValue } from "../../helpers/block-data.helper";
+
+/**
+ * Disables setup blocks for components on the I2C bus that use the same
+ * address.  The Arduino would not know which component it is talking to.
+ */
+export const disableI2cBlocksWithSameAddress = (
+  event: BlockEvent
+): DisableBlock[] => {
+  const i2cBlocks = event.blocks.filter((b) => i2cSetupBlocks[b.blockName]);
+
+  return i2cBlocks
+    .filter((block) =>
+      i2cBlocks.some(
+        (other) => other.id !== block.id && address(other) === address(block)
+      )
+    )
+    .map((block) => {
+      const names = _.uniq(
+        i2cBlocks
+          .filter((other) => address(other) === address(block))
+          .map((other) => i2cSetupBlocks[other.blockName].name)
+      );
+
+      return {
+        blockId: block.id,
+        type: ActionType.DISABLE_BLOCK,
+        warningText: `The I2C address ${address(
+          block
+        )} is used by the ${names.join(" and the ")}, please change one of them.`,
+        stopCompiling: true,
+      };
+    });
+};
+
+const address = (block: BlockData) =>
+  findFieldValue(block, i2cSetupBlocks[block.blockName].addressField);
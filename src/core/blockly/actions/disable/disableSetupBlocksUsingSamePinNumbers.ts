@@ -12,7 +12,12 @@ export const disableSetupBlocksUsingSamePinNumbers = (
   const { blocks } = event;
   return blocks
     .filter((block) => multipleTopBlocks.includes(block.blockName))
-    .filter((block) => block.blockName !== "procedures_defnoreturn")
+    .filter(
+      (block) =>
+        !["procedures_defnoreturn", "procedures_defreturn"].includes(
+          block.blockName
+        )
+    )
     .filter((block) => block.pins.includes(ARDUINO_PINS.NO_PINS))
     .map((block) => {
       return {
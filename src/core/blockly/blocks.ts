@@ -19,7 +19,7 @@ export function initializeBlocks() {
     const Blockly = (window as any).Blockly;
     
     // Clear known duplicate definitions
-    const duplicateBlocks = ['controls_ifelse', 'controls_for', 'math_number_property'];
+    const duplicateBlocks = ['controls_ifelse', 'controls_for', 'controls_whileUntil', 'math_number_property'];
     duplicateBlocks.forEach(blockId => {
       if (Blockly.Blocks && Blockly.Blocks[blockId]) {
         delete Blockly.Blocks[blockId];
@@ -68,4 +68,5 @@ import '../../blocks/thermistor/blocks';
 import '../../blocks/passivebuzzer/blocks';
 import '../../blocks/steppermotor/blocks';
 import '../../blocks/digit4display/blocks';
-import '../../blocks/joystick/blocks';
\ No newline at end of file
+import '../../blocks/joystick/blocks';
+import '../../blocks/oled/blocks';
\ No newline at end of file
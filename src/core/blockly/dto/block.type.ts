@@ -36,6 +36,7 @@ export enum PinCategory {
   STEPPER_MOTOR = "STEPPER_MOTOR",
   DIGITAL_DISPLAY = "DIGITAL_DISPLAY",
   JOYSTICK = "JOYSTICK",
+  OLED = "OLED",
 }
 
 // These are block type require being put into a setup, loop or function block
@@ -59,6 +60,7 @@ export const standAloneBlocks = [
   "create_list_boolean_block",
   "create_list_colour_block",
   "procedures_defnoreturn",
+  "procedures_defreturn",
   "motor_setup",
   "lcd_setup",
   "neo_pixel_setup",
@@ -78,6 +80,7 @@ export const standAloneBlocks = [
   "thermistor_setup",
   "stepper_motor_setup",
   "digital_display_setup",
+  "oled_setup",
   "sensorSetupBlocks",
 ];
 
@@ -86,6 +89,33 @@ export const multipleTopBlocks = [
   "digital_read_setup",
   "analog_read_setup",
   "procedures_defnoreturn",
+  "procedures_defreturn",
+];
+
+/**
+ * Components on the I2C bus share the SDA and SCL pins so they can not
+ * take each other's pins.
+ */
+export const i2cPinCategories = [PinCategory.LCD_SCREEN, PinCategory.OLED];
+
+/**
+ * Setup blocks for the components on the I2C bus and the field with their
+ * address.  Every component on the bus needs a different address.
+ */
+export const i2cSetupBlocks: {
+  [blockName: string]: { addressField: string; name: string };
+} = {
+  lcd_setup: { addressField: "MEMORY_TYPE", name: "LCD screen" },
+  oled_setup: { addressField: "ADDRESS", name: "OLED" },
+};
+
+/**
+ * Loop blocks that a break or continue block can jump out of
+ */
+export const loopBlocks = [
+  "controls_repeat_ext",
+  "controls_for",
+  "controls_whileUntil",
 ];
 
 export const sensorSetupBlocks = [
@@ -140,7 +170,6 @@ export const blocksThatRequireSetup = {
   digital_read: "digital_read_setup",
   analog_read: "analog_read_setup",
   ultra_sonic_sensor_motion: "ultra_sonic_sensor_setup",
-  time_seconds: "time_setup",
   thermistor_read: "thermistor_setup",
   stepper_motor_move: "stepper_motor_setup",
   digital_display_set: "digital_display_setup",
@@ -149,6 +178,13 @@ export const blocksThatRequireSetup = {
   joystick_engaged: "joystick_setup",
   move_motor: "motor_setup",
   stop_motor: "motor_setup",
+  oled_print: "oled_setup",
+  oled_draw_pixel: "oled_setup",
+  oled_draw_line: "oled_setup",
+  oled_draw_rectangle: "oled_setup",
+  oled_draw_bitmap: "oled_setup",
+  oled_clear: "oled_setup",
+  oled_display: "oled_setup",
 };
 
 /**
@@ -176,6 +212,7 @@ export const setupBlockTypeToHumanName = {
   digital_display_setup: "digital display setup block",
   joystick_setup: "joystick setup block",
   motor_setup: "motor setup block",
+  oled_setup: "OLED setup block",
 };
 
 export const blocksToBlockTypes: {
@@ -312,6 +349,14 @@ export const blocksToBlockTypes: {
     type: BlockType.STATE,
     pinCategory: PinCategory.NONE,
   },
+  procedures_defreturn: {
+    type: BlockType.FUNCTION,
+    pinCategory: PinCategory.NONE,
+  },
+  procedures_callreturn: {
+    type: BlockType.VALUE,
+    pinCategory: PinCategory.NONE,
+  },
   passive_buzzer_note: {
     type: BlockType.STATE,
     pinCategory: PinCategory.PASSIVE_BUZZER,
@@ -336,6 +381,14 @@ export const blocksToBlockTypes: {
     type: BlockType.STATE,
     pinCategory: PinCategory.NONE,
   },
+  controls_whileUntil: {
+    type: BlockType.STATE,
+    pinCategory: PinCategory.NONE,
+  },
+  controls_flow_statements: {
+    type: BlockType.STATE,
+    pinCategory: PinCategory.NONE,
+  },
 
   debug_block: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
 
@@ -418,6 +471,7 @@ export const blocksToBlockTypes: {
     pinCategory: PinCategory.NONE,
   },
   rotate_servo: { type: BlockType.STATE, pinCategory: PinCategory.SERVO },
+  servo_read_degrees: { type: BlockType.VALUE, pinCategory: PinCategory.NONE },
 
   move_motor: { type: BlockType.STATE, pinCategory: PinCategory.MOTOR },
   stop_motor: { type: BlockType.STATE, pinCategory: PinCategory.MOTOR },
@@ -542,6 +596,14 @@ export const blocksToBlockTypes: {
     type: BlockType.SENSOR_READ,
     pinCategory: PinCategory.NONE,
   },
+  oled_setup: { type: BlockType.SETUP, pinCategory: PinCategory.OLED },
+  oled_print: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_draw_pixel: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_draw_line: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_draw_rectangle: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_draw_bitmap: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_clear: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
+  oled_display: { type: BlockType.STATE, pinCategory: PinCategory.NONE },
 };
 
 export interface BlockData {
@@ -1,6 +1,7 @@
 import Blockly from "blockly";
 import _ from "lodash";
 import { getBlockByType } from "../helpers/block.helper";
+import { wrapWithSourceMapMarkers } from "./source-map";
 
 /**
  * Arduino code generator.
@@ -56,6 +57,12 @@ Blockly["Arduino"].ORDER_ASSIGNMENT = 14; // = *= /= ~/= %= += -= <<= >>= &= ^=
 Blockly["Arduino"].ORDER_COMMA = 18; // ,
 Blockly["Arduino"].ORDER_NONE = 99; // (...)
 
+/**
+ * When true statement blocks mark the code they generate so a source map
+ * can be created.  See getArduinoCodeWithSourceMap.
+ */
+Blockly["Arduino"].sourceMapMarkers_ = false;
+
 /**
  * Initialise the database of variable names.
  * @param {!Blockly.Workspace} workspace Workspace to generate code from.
@@ -315,5 +322,11 @@ Blockly["Arduino"].scrub_ = function (block, code) {
   }
   const nextBlock = block.nextConnection && block.nextConnection.targetBlock();
   const nextCode = Blockly["Arduino"].blockToCode(nextBlock);
+
+  // Value blocks are part of the line of the block they are connected to
+  if (Blockly["Arduino"].sourceMapMarkers_ && !block.outputConnection) {
+    return wrapWithSourceMapMarkers(block.id, commentCode + code) + nextCode;
+  }
+
   return commentCode + code + nextCode;
 };
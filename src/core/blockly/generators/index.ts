@@ -34,3 +34,4 @@ import '../../../blocks/passivebuzzer/generators';
 import '../../../blocks/steppermotor/generators';
 import '../../../blocks/digit4display/generators';
 import '../../../blocks/joystick/generators';
+import '../../../blocks/oled/generators';
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  findIncludes,
+  getLibraryManifest,
+  toSketchYaml,
+} from "./library-manifest";
+
+describe("library manifest for the generated code", () => {
+  it("should find each included header once", () => {
+    const code = `#include <Servo.h> // Servo
+#include <Wire.h>;
+  #include "SevenSegmentTM1637.h"
+#include <Servo.h>
+void setup() {}`;
+
+    expect(findIncludes(code)).toEqual([
+      "Servo.h",
+      "Wire.h",
+      "SevenSegmentTM1637.h",
+    ]);
+  });
+
+  it("should pin the third party libraries and skip the bundled ones", () => {
+    const code = `#include <Wire.h>;
+#include <LiquidCrystal_I2C.h>;
+#include <FastLED.h>
+#include <math.h>`;
+
+    expect(getLibraryManifest(code)).toEqual({
+      libraries: [
+        {
+          name: "LiquidCrystal I2C",
+          version: "1.1.2",
+          header: "LiquidCrystal_I2C.h",
+        },
+        { name: "FastLED", version: "3.6.0", header: "FastLED.h" },
+      ],
+      unknownHeaders: [],
+    });
+  });
+
+  it("should add the libraries a library depends on", () => {
+    const manifest = getLibraryManifest("#include <DHT.h>;");
+
+    expect(manifest.libraries.map((l) => l.name)).toEqual([
+      "DHT sensor library",
+      "Adafruit Unified Sensor",
+    ]);
+  });
+
+  it("should list headers that are not in the library manager", () => {
+    const manifest = getLibraryManifest(`#include <LedControlMS.h>;
+#include <IRremote.hpp>`);
+
+    expect(manifest.libraries.map((l) => l.name)).toEqual(["IRremote"]);
+    expect(manifest.unknownHeaders).toEqual(["LedControlMS.h"]);
+  });
+
+  it("should write an arduino-cli sketch project file", () => {
+    const manifest = getLibraryManifest(`#include <Servo.h>
+#include "RFIDRdm630.h"`);
+
+    expect(toSketchYaml(manifest, "arduino:avr:uno")).toBe(`profiles:
+  default:
+    fqbn: arduino:avr:uno
+    platforms:
+      - platform: arduino:avr (1.8.6)
+    libraries:
+      - Servo (1.2.1)
+# These headers are not in the library manager, install them by hand:
+#   RFIDRdm630.h
+default_profile: default
+`);
+  });
+
+  it("should leave the platform version out for unknown cores", () => {
+    const yaml = toSketchYaml(getLibraryManifest(""), "esp32:esp32:esp32");
+
+    expect(yaml).toContain("      - platform: esp32:esp32\n");
+    expect(yaml).not.toContain("libraries:");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * A third party library the generated code needs, with the version it was
+ * tested with.  The name is the name in the Arduino library manager.
+ */
+export interface ArduinoLibrary {
+  name: string;
+  version: string;
+  header: string;
+}
+
+export interface LibraryManifest {
+  libraries: ArduinoLibrary[];
+  // Headers that are not in the library manager and have to be installed by hand
+  unknownHeaders: string[];
+}
+
+// Libraries the blocks include, by header.  Bump the versions together with
+// the compile service.
+const KNOWN_LIBRARIES: { [header: string]: Omit<ArduinoLibrary, "header">[] } = {
+  "Servo.h": [{ name: "Servo", version: "1.2.1" }],
+  "Adafruit_TiCoServo.h": [{ name: "Adafruit TiCoServo", version: "1.0.3" }],
+  "FastLED.h": [{ name: "FastLED", version: "3.6.0" }],
+  "LiquidCrystal_I2C.h": [{ name: "LiquidCrystal I2C", version: "1.1.2" }],
+  "Adafruit_GFX.h": [
+    { name: "Adafruit GFX Library", version: "1.11.9" },
+    { name: "Adafruit BusIO", version: "1.15.0" },
+  ],
+  "Adafruit_SSD1306.h": [{ name: "Adafruit SSD1306", version: "2.5.9" }],
+  "IRremote.hpp": [{ name: "IRremote", version: "4.2.0" }],
+  "Adafruit_NeoPixel.h": [{ name: "Adafruit NeoPixel", version: "1.12.0" }],
+  "DHT.h": [
+    { name: "DHT sensor library", version: "1.4.6" },
+    { name: "Adafruit Unified Sensor", version: "1.1.14" },
+  ],
+  "Stepper.h": [{ name: "Stepper", version: "1.1.3" }],
+  "SevenSegmentTM1637.h": [{ name: "SevenSegmentTM1637", version: "1.1.0" }],
+};
+
+// Headers that come with the compiler or the board's core
+const BUNDLED_HEADERS = [
+  "Arduino.h",
+  "Wire.h",
+  "SPI.h",
+  "EEPROM.h",
+  "SoftwareSerial.h",
+  "math.h",
+  "avr/power.h",
+  "avr/pgmspace.h",
+];
+
+const INCLUDE_REGEX = /^\s*#include\s*[<"]([^>"]+)[>"]/gm;
+
+/**
+ * Lists the headers the code includes in the order they first appear.
+ */
+export const findIncludes = (code: string): string[] => {
+  const headers: string[] = [];
+  for (const match of code.matchAll(INCLUDE_REGEX)) {
+    if (!headers.includes(match[1])) {
+      headers.push(match[1]);
+    }
+  }
+  return headers;
+};
+
+/**
+ * Works out which libraries the code depends on from its includes.
+ */
+export const getLibraryManifest = (code: string): LibraryManifest => {
+  return findIncludes(code).reduce(
+    (manifest, header) => {
+      if (BUNDLED_HEADERS.includes(header)) {
+        return manifest;
+      }
+
+      const libraries = KNOWN_LIBRARIES[header];
+      if (!libraries) {
+        return {
+          ...manifest,
+          unknownHeaders: [...manifest.unknownHeaders, header],
+        };
+      }
+
+      const newLibraries = libraries
+        .filter((l) => !manifest.libraries.find((m) => m.name === l.name))
+        .map((l) => ({ ...l, header }));
+      return {
+        ...manifest,
+        libraries: [...manifest.libraries, ...newLibraries],
+      };
+    },
+    { libraries: [], unknownHeaders: [] } as LibraryManifest
+  );
+};
+
+// Core versions the compile service builds with
+const PLATFORM_VERSIONS: { [platform: string]: string } = {
+  "arduino:avr": "1.8.6",
+};
+
+/**
+ * Writes the manifest as an arduino-cli sketch project file so the sketch
+ * can be built offline with the same libraries using
+ * `arduino-cli compile --profile default`.
+ */
+export const toSketchYaml = (manifest: LibraryManifest, fqbn: string) => {
+  const platform = fqbn.split(":").slice(0, 2).join(":");
+  const platformVersion = PLATFORM_VERSIONS[platform];
+
+  const lines = [
+    "profiles:",
+    "  default:",
+    `    fqbn: ${fqbn}`,
+    "    platforms:",
+    platformVersion
+      ? `      - platform: ${platform} (${platformVersion})`
+      : `      - platform: ${platform}`,
+  ];
+
+  if (manifest.libraries.length > 0) {
+    lines.push("    libraries:");
+    manifest.libraries.forEach((library) => {
+      lines.push(`      - ${library.name} (${library.version})`);
+    });
+  }
+
+  if (manifest.unknownHeaders.length > 0) {
+    lines.push(
+      "# These headers are not in the library manager, install them by hand:"
+    );
+    manifest.unknownHeaders.forEach((header) => lines.push(`#   ${header}`));
+  }
+
+  lines.push("default_profile: default");
+
+  return lines.join("\n") + "\n";
+};
@@ -0,0 +1,94 @@
+import "../blocks";
+import "./index";
+import Blockly from "blockly";
+import type { BlockSvg, Workspace } from "blockly";
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import { createArduinoAndWorkSpace } from "../../../tests/tests.helper";
+import {
+  extractSourceMap,
+  findBlockIdForLine,
+  findLinesForBlock,
+} from "./source-map";
+
+describe("source map for the generated code", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  it("should map the lines of each statement block to the block", () => {
+    const repeatBlock = workspace.newBlock("controls_repeat_ext");
+    const timesBlock = workspace.newBlock("math_number");
+    timesBlock.setFieldValue("3", "NUM");
+    repeatBlock
+      .getInput("TIMES")
+      .connection.connect(timesBlock.outputConnection);
+    const delayBlock = createDelayBlock(2);
+    repeatBlock
+      .getInput("DO")
+      .connection.connect(delayBlock.previousConnection);
+    arduinoBlock
+      .getInput("loop")
+      .connection.connect(repeatBlock.previousConnection);
+    const secondDelayBlock = createDelayBlock(1);
+    repeatBlock.nextConnection.connect(secondDelayBlock.previousConnection);
+
+    const code = Blockly["Arduino"].workspaceToCode(workspace);
+    Blockly["Arduino"].sourceMapMarkers_ = true;
+    const result = extractSourceMap(
+      Blockly["Arduino"].workspaceToCode(workspace)
+    );
+    Blockly["Arduino"].sourceMapMarkers_ = false;
+
+    expect(result.code).toBe(code);
+
+    const lines: string[] = code.split("\n");
+    const delayLine = lines.findIndex((l) => l.includes("delay(2000)")) + 1;
+    const secondDelayLine =
+      lines.findIndex((l) => l.includes("delay(1000)")) + 1;
+    const repeatLine = lines.findIndex((l) => l.includes("for (")) + 1;
+
+    expect(findBlockIdForLine(result.sourceMap, delayLine)).toBe(
+      delayBlock.id
+    );
+    expect(findBlockIdForLine(result.sourceMap, secondDelayLine)).toBe(
+      secondDelayBlock.id
+    );
+    expect(findBlockIdForLine(result.sourceMap, repeatLine)).toBe(
+      repeatBlock.id
+    );
+    expect(findBlockIdForLine(result.sourceMap, repeatLine - 1)).toBe(
+      arduinoBlock.id
+    );
+    expect(findBlockIdForLine(result.sourceMap, 1)).toBeUndefined();
+
+    expect(findLinesForBlock(result.sourceMap, delayBlock.id)).toEqual({
+      blockId: delayBlock.id,
+      startLine: delayLine,
+      endLine: delayLine,
+    });
+    expect(findLinesForBlock(result.sourceMap, repeatBlock.id)).toEqual({
+      blockId: repeatBlock.id,
+      startLine: repeatLine,
+      endLine: secondDelayLine - 1,
+    });
+    expect(findLinesForBlock(result.sourceMap, timesBlock.id)).toBeUndefined();
+  });
+
+  const createDelayBlock = (seconds: number) => {
+    const delayBlock = workspace.newBlock("delay_block");
+    const numberBlock = workspace.newBlock("math_number");
+    numberBlock.setFieldValue(seconds.toString(), "NUM");
+    delayBlock
+      .getInput("DELAY")
+      .connection.connect(numberBlock.outputConnection);
+
+    return delayBlock;
+  };
+});
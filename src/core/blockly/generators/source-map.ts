@@ -0,0 +1,128 @@
+/**
+ * A range of lines in the generated code that a block created.
+ * Lines start at 1 so they match what the compiler reports.
+ */
+export interface SourceMapEntry {
+  blockId: string;
+  startLine: number;
+  endLine: number;
+}
+
+const START_MARKER = "\u0001";
+const START_MARKER_END = "\u0002";
+const END_MARKER = "\u0003";
+
+const markerRegex = /\u0001([^\u0002]*)\u0002|\u0003/g;
+
+/**
+ * Wraps the code of a statement block so that the lines it generates
+ * can be found after all the code is put together.
+ */
+export const wrapWithSourceMapMarkers = (blockId: string, code: string) => {
+  // The end marker goes before the last new line so that indenting
+  // the code inside of another block does not indent the line after it.
+  const end = code.endsWith("\n")
+    ? code.substring(0, code.length - 1) + END_MARKER + "\n"
+    : code + END_MARKER;
+
+  return START_MARKER + blockId + START_MARKER_END + end;
+};
+
+/**
+ * Removes the markers from the code and returns the line ranges for each block.
+ * This has to do the same clean up blockly does at the end of workspaceToCode
+ * because the markers stop blockly from finding the whitespace.
+ */
+export const extractSourceMap = (
+  markedCode: string
+): { code: string; sourceMap: SourceMapEntry[] } => {
+  const lines = markedCode.split("\n");
+  const openBlocks: { blockId: string; line: number }[] = [];
+  const ranges: SourceMapEntry[] = [];
+
+  const cleanLines = lines.map((line, index) => {
+    const lineNumber = index + 1;
+    let cleanLine = "";
+    let lastIndex = 0;
+    for (const match of line.matchAll(markerRegex)) {
+      cleanLine += line.substring(lastIndex, match.index);
+      lastIndex = match.index + match[0].length;
+
+      if (match[0] === END_MARKER) {
+        const openBlock = openBlocks.pop();
+        if (!openBlock) {
+          continue;
+        }
+        // The block ended on the line before when nothing comes before the marker
+        const endLine =
+          cleanLine.trim() === "" ? lineNumber - 1 : lineNumber;
+        ranges.push({
+          blockId: openBlock.blockId,
+          startLine: openBlock.line,
+          endLine,
+        });
+        continue;
+      }
+
+      openBlocks.push({ blockId: match[1], line: lineNumber });
+    }
+
+    return cleanLine + line.substring(lastIndex);
+  });
+
+  const leadingBlankLines = cleanLines.findIndex((l) => l.trim() !== "");
+  const linesRemoved = Math.max(leadingBlankLines, 0);
+  let code = cleanLines.slice(linesRemoved).join("\n");
+  code = code.replace(/\n\s+$/, "\n");
+  code = code.replace(/[ \t]+\n/g, "\n");
+  const codeLines = code.split("\n");
+
+  const sourceMap = ranges
+    .map((range) => {
+      let startLine = range.startLine - linesRemoved;
+      let endLine = range.endLine - linesRemoved;
+      // Blank lines around the code do not belong to the block
+      while (startLine < endLine && isBlankLine(codeLines, startLine)) {
+        startLine += 1;
+      }
+      while (endLine > startLine && isBlankLine(codeLines, endLine)) {
+        endLine -= 1;
+      }
+
+      return { blockId: range.blockId, startLine, endLine };
+    })
+    .filter((range) => !isBlankLine(codeLines, range.startLine))
+    .sort((a, b) => a.startLine - b.startLine);
+
+  return { code, sourceMap };
+};
+
+/**
+ * Returns the block that created the line.  If blocks are inside
+ * each other the inner most block is returned.
+ */
+export const findBlockIdForLine = (
+  sourceMap: SourceMapEntry[],
+  line: number
+): string | undefined => {
+  const entry = sourceMap
+    .filter((e) => e.startLine <= line && e.endLine >= line)
+    .sort((a, b) => a.endLine - a.startLine - (b.endLine - b.startLine))[0];
+
+  return entry ? entry.blockId : undefined;
+};
+
+/**
+ * Returns the lines the block created or undefined if it did not create any.
+ */
+export const findLinesForBlock = (
+  sourceMap: SourceMapEntry[],
+  blockId: string
+): SourceMapEntry | undefined => {
+  return sourceMap.find((e) => e.blockId === blockId);
+};
+
+const isBlankLine = (lines: string[], lineNumber: number) => {
+  const line = lines[lineNumber - 1];
+  return line === undefined || line.trim() === "";
+};
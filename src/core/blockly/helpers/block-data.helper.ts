@@ -1,4 +1,4 @@
-import type { BlockData } from "../dto/block.type";
+import { type BlockData, loopBlocks } from "../dto/block.type";
 
 export const findFieldValue = (block: BlockData, fieldName: string) => {
   const field = block.fieldValues.find((f) => f.name === fieldName);
@@ -37,3 +37,35 @@ export const getLoopTimeFromBlockData = (blocks: BlockData[]): number => {
 export const findRootBlock = (block: BlockData, blocks: BlockData[]) => {
   return blocks.find((b) => block.rootBlockId === b.id);
 };
+
+/**
+ * Returns the loop the block is inside of.  Blocks after a loop are not
+ * inside of it, only the blocks in its DO input are.
+ */
+export const findEnclosingLoopBlock = (
+  blocks: BlockData[],
+  block: BlockData
+) => {
+  let current = block;
+  let parent = findParentBlock(blocks, current);
+  while (parent) {
+    if (
+      parent.nextBlockId !== current.id &&
+      loopBlocks.includes(parent.blockName)
+    ) {
+      return parent;
+    }
+    current = parent;
+    parent = findParentBlock(blocks, current);
+  }
+
+  return undefined;
+};
+
+const findParentBlock = (blocks: BlockData[], block: BlockData) => {
+  return blocks.find(
+    (b) =>
+      b.nextBlockId === block.id ||
+      b.inputStatements.some((i) => i.blockId === block.id)
+  );
+};
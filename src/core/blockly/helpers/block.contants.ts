@@ -7,7 +7,9 @@ export const standAloneBlocks = [
   "create_list_boolean_block",
   "create_list_colour_block",
   "procedures_defnoreturn",
+  "procedures_defreturn",
   "lcd_setup",
+  "oled_setup",
   "neo_pixel_setup",
   "fastled_setup",
   "soil_sensor_setup",
@@ -28,6 +30,7 @@ export const blockMultipleSetup = [
   "digital_read_setup",
   "analog_read_setup",
   "procedures_defnoreturn",
+  "procedures_defreturn",
 ];
 
 export const sensorSetupBlocks = [
@@ -0,0 +1,34 @@
+import { getBlockById } from "./block.helper";
+
+// The blocks that are showing a compile error as their warning
+let blockIdsWithCompileErrors: string[] = [];
+
+export const showCompileErrors = (
+  blockErrors: { blockId: string; message: string }[]
+) => {
+  clearCompileErrors();
+
+  blockErrors.forEach(({ blockId, message }) => {
+    const block = getBlockById(blockId);
+    if (!block) {
+      return;
+    }
+
+    block.setWarningText(`This block does not compile: ${message}`);
+    blockIdsWithCompileErrors.push(blockId);
+  });
+
+  if (blockIdsWithCompileErrors.length > 0) {
+    getBlockById(blockIdsWithCompileErrors[0]).select();
+  }
+};
+
+export const clearCompileErrors = () => {
+  blockIdsWithCompileErrors
+    .map(getBlockById)
+    // Disabled blocks are using the warning to say why they are disabled
+    .filter((block) => block && block.isEnabled())
+    .forEach((block) => block.setWarningText(null));
+
+  blockIdsWithCompileErrors = [];
+};
@@ -0,0 +1,22 @@
+import Blockly, { type Block } from "blockly";
+import { selectBoardBlockly } from "../../microcontroller/selectBoard";
+
+/**
+ * Adds the SDA and SCL dropdowns for a component on the I2C bus.
+ * The pins come from the selected board so they can be validated like
+ * any other pin field.
+ */
+export const appendI2cPinInput = (block: Block) => {
+  block
+    .appendDummyInput()
+    .appendField("SDA")
+    .appendField<string>(
+      new Blockly.FieldDropdown(() => selectBoardBlockly().sdaPins),
+      "PIN_SDA"
+    )
+    .appendField("SCL")
+    .appendField<string>(
+      new Blockly.FieldDropdown(() => selectBoardBlockly().sclPins),
+      "PIN_SCL"
+    );
+};
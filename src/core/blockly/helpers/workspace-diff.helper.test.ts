@@ -0,0 +1,97 @@
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+
+import "../blocks";
+import Blockly from "blockly";
+import type { Workspace, BlockSvg } from "blockly";
+import { connectToArduinoBlock } from "./block.helper";
+import {
+  diffWorkspaceXml,
+  isWorkspaceDiffEmpty,
+} from "./workspace-diff.helper";
+import { createArduinoAndWorkSpace } from "../../../tests/tests.helper";
+
+describe("workspace diff", () => {
+  let workspace: Workspace;
+  let arduinoLoopBlock: BlockSvg;
+
+  const toXml = () =>
+    Blockly.Xml.domToText(Blockly.Xml.workspaceToDom(workspace));
+
+  beforeEach(() => {
+    [workspace, arduinoLoopBlock] = createArduinoAndWorkSpace();
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  it("should have no changes for the same workspace", () => {
+    const debugBlock = workspace.newBlock("debug_block") as BlockSvg;
+    connectToArduinoBlock(debugBlock);
+
+    const diff = diffWorkspaceXml(toXml(), toXml());
+
+    expect(isWorkspaceDiffEmpty(diff)).toBeTruthy();
+  });
+
+  it("should find added and removed blocks", () => {
+    const debugBlock = workspace.newBlock("debug_block") as BlockSvg;
+    connectToArduinoBlock(debugBlock);
+    const beforeXml = toXml();
+
+    debugBlock.dispose(true);
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    connectToArduinoBlock(delayBlock);
+
+    const diff = diffWorkspaceXml(beforeXml, toXml());
+
+    expect(diff.added.map((b) => b.type)).toEqual(["delay_block"]);
+    expect(diff.added[0].id).toBe(delayBlock.id);
+    expect(diff.added[0].parentId).toBe(arduinoLoopBlock.id);
+    expect(diff.removed.map((b) => b.type)).toEqual(["debug_block"]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  it("should find blocks with changed fields", () => {
+    const beforeXml = toXml();
+    arduinoLoopBlock.setFieldValue(5, "LOOP_TIMES");
+
+    const diff = diffWorkspaceXml(beforeXml, toXml());
+
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed.length).toBe(1);
+    expect(diff.changed[0].after.id).toBe(arduinoLoopBlock.id);
+    expect(diff.changed[0].changes).toEqual(["fields"]);
+    expect(diff.changed[0].changedFields).toEqual(["LOOP_TIMES"]);
+    expect(diff.changed[0].before.fields["LOOP_TIMES"]).toBe("3");
+    expect(diff.changed[0].after.fields["LOOP_TIMES"]).toBe("5");
+  });
+
+  it("should find blocks that were moved to a different connection", () => {
+    const debugBlock = workspace.newBlock("debug_block") as BlockSvg;
+    const delayBlock = workspace.newBlock("delay_block") as BlockSvg;
+    connectToArduinoBlock(delayBlock);
+    connectToArduinoBlock(debugBlock);
+    const beforeXml = toXml();
+
+    debugBlock.unplug(true);
+    connectToArduinoBlock(debugBlock);
+    delayBlock.unplug(false);
+
+    const diff = diffWorkspaceXml(beforeXml, toXml());
+
+    const movedBlock = diff.changed.find((c) => c.after.id === delayBlock.id)!;
+    expect(movedBlock.changes).toEqual(["position"]);
+    expect(movedBlock.before.parentId).toBe(debugBlock.id);
+    expect(movedBlock.before.connection).toBe("next");
+    expect(movedBlock.after.parentId).toBeUndefined();
+  });
+
+  it("should treat an empty workspace as having no blocks", () => {
+    const diff = diffWorkspaceXml("", toXml());
+
+    expect(diff.added.map((b) => b.id)).toEqual([arduinoLoopBlock.id]);
+    expect(diff.removed).toEqual([]);
+  });
+});
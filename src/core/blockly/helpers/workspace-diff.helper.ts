@@ -0,0 +1,170 @@
+import Blockly from "blockly";
+
+export interface BlockSnapshot {
+  id: string;
+  type: string;
+  fields: { [name: string]: string };
+  mutation: string;
+  // The block this one is attached to and the input / next connection used
+  parentId?: string;
+  connection?: string;
+  disabled: boolean;
+}
+
+export interface BlockChange {
+  before: BlockSnapshot;
+  after: BlockSnapshot;
+  changes: Array<"type" | "fields" | "mutation" | "position" | "disabled">;
+  changedFields: string[];
+}
+
+export interface WorkspaceDiff {
+  added: BlockSnapshot[];
+  removed: BlockSnapshot[];
+  changed: BlockChange[];
+}
+
+/**
+ * Compares two Blockly xml workspaces by block id and returns the blocks
+ * that were added, removed or changed.  Moving a block around the canvas
+ * is not a change, moving it into a different input is.
+ */
+export const diffWorkspaceXml = (
+  beforeXml: string,
+  afterXml: string
+): WorkspaceDiff => {
+  const beforeBlocks = getBlockSnapshots(beforeXml);
+  const afterBlocks = getBlockSnapshots(afterXml);
+
+  const added = [...afterBlocks.values()].filter(
+    (block) => !beforeBlocks.has(block.id)
+  );
+  const removed = [...beforeBlocks.values()].filter(
+    (block) => !afterBlocks.has(block.id)
+  );
+
+  const changed: BlockChange[] = [];
+  for (const after of afterBlocks.values()) {
+    const before = beforeBlocks.get(after.id);
+    if (!before) {
+      continue;
+    }
+
+    const change = compareBlocks(before, after);
+    if (change.changes.length > 0) {
+      changed.push(change);
+    }
+  }
+
+  return { added, removed, changed };
+};
+
+export const isWorkspaceDiffEmpty = (diff: WorkspaceDiff) => {
+  return (
+    diff.added.length === 0 &&
+    diff.removed.length === 0 &&
+    diff.changed.length === 0
+  );
+};
+
+const compareBlocks = (
+  before: BlockSnapshot,
+  after: BlockSnapshot
+): BlockChange => {
+  const changes: BlockChange["changes"] = [];
+
+  if (before.type !== after.type) {
+    changes.push("type");
+  }
+
+  const fieldNames = new Set([
+    ...Object.keys(before.fields),
+    ...Object.keys(after.fields),
+  ]);
+  const changedFields = [...fieldNames].filter(
+    (name) => before.fields[name] !== after.fields[name]
+  );
+  if (changedFields.length > 0) {
+    changes.push("fields");
+  }
+
+  if (before.mutation !== after.mutation) {
+    changes.push("mutation");
+  }
+
+  if (
+    before.parentId !== after.parentId ||
+    before.connection !== after.connection
+  ) {
+    changes.push("position");
+  }
+
+  if (before.disabled !== after.disabled) {
+    changes.push("disabled");
+  }
+
+  return { before, after, changes, changedFields };
+};
+
+const getBlockSnapshots = (xml: string) => {
+  const blocks = new Map<string, BlockSnapshot>();
+  if (!xml) {
+    return blocks;
+  }
+
+  const dom = Blockly.utils.xml.textToDom(xml);
+  const blockElements = Array.from(dom.getElementsByTagName("block"));
+
+  for (const element of blockElements) {
+    const snapshot = toBlockSnapshot(element);
+    blocks.set(snapshot.id, snapshot);
+  }
+
+  return blocks;
+};
+
+const toBlockSnapshot = (element: Element): BlockSnapshot => {
+  const fields: { [name: string]: string } = {};
+  let mutation = "";
+
+  for (const child of childElements(element)) {
+    if (child.nodeName.toLowerCase() === "field") {
+      fields[child.getAttribute("name") || ""] = child.textContent || "";
+    }
+
+    if (child.nodeName.toLowerCase() === "mutation") {
+      mutation = Blockly.utils.xml.domToText(child);
+    }
+  }
+
+  const snapshot: BlockSnapshot = {
+    id: element.getAttribute("id") || "",
+    type: element.getAttribute("type") || "",
+    fields,
+    mutation,
+    disabled: element.getAttribute("disabled") === "true",
+  };
+
+  // <block><statement name="loop"><block> or <block><next><block>
+  const connectionElement = element.parentNode as Element;
+  const parentBlock = connectionElement?.parentNode as Element;
+  if (
+    parentBlock &&
+    parentBlock.nodeName &&
+    parentBlock.nodeName.toLowerCase() === "block"
+  ) {
+    snapshot.parentId = parentBlock.getAttribute("id") || "";
+    snapshot.connection =
+      connectionElement.nodeName.toLowerCase() === "next"
+        ? "next"
+        : connectionElement.getAttribute("name") || "";
+  }
+
+  return snapshot;
+};
+
+const childElements = (element: Element) => {
+  return Array.from(element.childNodes).filter(
+    (node) => node.nodeType === 1
+  ) as Element[];
+};
@@ -3,6 +3,7 @@ import Blockly from "blockly";
 import { arduinoLoopBlockShowLoopForeverText } from "./arduino_loop_block.helper";
 import { getAllBlocks } from "./block.helper";
 import { deleteVariable, getAllVariables } from "./variable.helper";
+import { extractSourceMap } from "../generators/source-map";
 
 export const getWorkspace = () => {
   return Blockly.getMainWorkspace() as WorkspaceSvg;
@@ -22,6 +23,15 @@ export const getArduinoCode = () => {
   return Blockly["Arduino"].workspaceToCode(getWorkspace()) as string;
 };
 
+export const getArduinoCodeWithSourceMap = () => {
+  Blockly["Arduino"].sourceMapMarkers_ = true;
+  try {
+    return extractSourceMap(getArduinoCode());
+  } finally {
+    Blockly["Arduino"].sourceMapMarkers_ = false;
+  }
+};
+
 export const workspaceToXML = () => {
   let workspace = getWorkspace();
   if (!workspace) return;
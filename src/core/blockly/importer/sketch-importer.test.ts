@@ -0,0 +1,249 @@
+import "../blocks";
+import "../generators/index";
+import Blockly from "blockly";
+import type { BlockSvg, Workspace } from "blockly";
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import { createArduinoAndWorkSpace } from "../../../tests/tests.helper";
+import { importSketch } from "./sketch-importer";
+
+describe("importing Arduino sketches as blocks", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    // The imported xml has its own loop block
+    arduinoBlock.dispose(false);
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  const loadXml = (xml: string) => {
+    Blockly.Xml.domToWorkspace(Blockly.utils.xml.textToDom(xml), workspace);
+  };
+
+  it("should turn the blink sketch into blocks that generate the same code", () => {
+    const { xml, problems } = importSketch(`
+#define LED 13
+
+void setup() {
+  pinMode(LED, OUTPUT);
+}
+
+void loop() {
+  digitalWrite(LED, HIGH);   // turn the LED on
+  delay(1000);
+  digitalWrite(LED, LOW);
+  delay(500);
+}`);
+
+    expect(problems).toEqual([]);
+    loadXml(xml);
+
+    expect(
+      workspace
+        .getAllBlocks(false)
+        .map((b) => b.type)
+        .sort()
+    ).toEqual([
+      "arduino_loop",
+      "delay_block",
+      "delay_block",
+      "digital_write",
+      "digital_write",
+      "math_number",
+      "math_number",
+    ]);
+
+    const code: string = Blockly["Arduino"].workspaceToCode(workspace);
+    expect(code).toContain("digitalWrite(13, HIGH);");
+    expect(code.indexOf("delay(1000)")).toBeLessThan(
+      code.indexOf("digitalWrite(13, LOW);")
+    );
+    expect(code).toContain("delay(500)");
+  });
+
+  it("should add the setup blocks for the sensors and serial messages", () => {
+    const { xml, problems } = importSketch(`
+const int buttonPin = 2;
+int buttonState = 0;
+
+void setup() {
+  Serial.begin(9600);
+  pinMode(buttonPin, INPUT);
+}
+
+void loop() {
+  buttonState = digitalRead(buttonPin);
+  if (buttonState == LOW) {
+    Serial.println("Pressed " + String(analogRead(A0)));
+  }
+}`);
+
+    expect(problems).toEqual([]);
+    loadXml(xml);
+
+    const types = workspace.getAllBlocks(false).map((b) => b.type);
+    expect(types.filter((t) => t.endsWith("_setup")).sort()).toEqual([
+      "analog_read_setup",
+      "arduino_setup",
+      "digital_read_setup",
+      "message_setup",
+    ]);
+    expect(workspace.getVariable("buttonState", "Boolean")).not.toBeNull();
+
+    const [ifBlock] = workspace.getBlocksByType("control_if", false);
+    const condition = ifBlock.getInputTargetBlock("IF0");
+    expect(condition?.type).toBe("logic_negate");
+    expect(condition?.getInputTargetBlock("BOOL")?.type).toBe(
+      "variables_get_boolean"
+    );
+
+    const [message] = workspace.getBlocksByType("arduino_send_message", false);
+    const join = message.getInputTargetBlock("MESSAGE");
+    expect(join?.type).toBe("text_join");
+    expect(join?.getInputTargetBlock("ADD0")?.getFieldValue("TEXT")).toBe(
+      "Pressed "
+    );
+    expect(join?.getInputTargetBlock("ADD1")?.type).toBe("number_to_string");
+  });
+
+  it("should import the servo and lcd screen patterns the blocks create", () => {
+    const { xml, problems } = importSketch(`
+#include <Wire.h>
+#include <LiquidCrystal_I2C.h>
+#include <Servo.h>
+
+LiquidCrystal_I2C lcd(0x27, 20, 4);
+Servo myServo;
+
+void setup() {
+  lcd.init();
+  myServo.attach(9);
+}
+
+void loop() {
+  for (int angle = 0; angle < 180; angle += 10) {
+    myServo.write(angle);
+    lcd.clear();
+    lcd.setCursor(2, 1);
+    lcd.print(angle);
+  }
+}`);
+
+    expect(problems).toEqual([]);
+    loadXml(xml);
+
+    const [lcdSetup] = workspace.getBlocksByType("lcd_setup", false);
+    expect(lcdSetup.getFieldValue("SIZE")).toBe("20 x 4");
+    expect(lcdSetup.getFieldValue("MEMORY_TYPE")).toBe("0x27");
+
+    const [forBlock] = workspace.getBlocksByType("controls_for", false);
+    expect(forBlock.getField("VAR")?.getText()).toBe("angle");
+    expect(forBlock.getFieldValue("BY")).toBe(10);
+    expect(forBlock.getInputTargetBlock("TO")?.getFieldValue("NUM")).toBe(179);
+
+    const [servo] = workspace.getBlocksByType("rotate_servo", false);
+    expect(servo.getFieldValue("PIN")).toBe("9");
+
+    // The block counts the rows and columns from 1
+    const [print] = workspace.getBlocksByType("lcd_screen_print", false);
+    expect(print.getInputTargetBlock("ROW")?.getFieldValue("NUM")).toBe(2);
+    expect(print.getInputTargetBlock("COLUMN")?.getFieldValue("NUM")).toBe(3);
+  });
+
+  it("should turn functions without parameters into custom blocks", () => {
+    const { xml, problems } = importSketch(`
+void blink() {
+  digitalWrite(LED_BUILTIN, HIGH);
+}
+
+void loop() {
+  blink();
+}`);
+
+    expect(problems).toEqual([]);
+    loadXml(xml);
+
+    const [definition] = workspace.getBlocksByType(
+      "procedures_defnoreturn",
+      false
+    );
+    expect(definition.getFieldValue("NAME")).toBe("blink");
+    expect(definition.getInputTargetBlock("STACK")?.getFieldValue("PIN")).toBe(
+      "13"
+    );
+    const [loop] = workspace.getBlocksByType("arduino_loop", false);
+    expect(loop.getInputTargetBlock("loop")?.type).toBe(
+      "procedures_callnoreturn"
+    );
+  });
+
+  it("should turn functions that return a value into custom blocks", () => {
+    const { xml, problems } = importSketch(`
+int doubleLight() {
+  int light = analogRead(A0);
+  return light * 2;
+}
+
+void loop() {
+  Serial.println(doubleLight());
+}`);
+
+    expect(problems).toEqual([]);
+    loadXml(xml);
+
+    const [definition] = workspace.getBlocksByType(
+      "procedures_defreturn",
+      false
+    );
+    expect(definition.getFieldValue("NAME")).toBe("doubleLight");
+    expect(definition.getFieldValue("RETURN TYPE")).toBe("Number");
+    expect(definition.getInputTargetBlock("STACK")?.type).toBe(
+      "variables_set_number"
+    );
+    expect(definition.getInputTargetBlock("RETURN")?.type).toBe(
+      "math_arithmetic"
+    );
+    const [call] = workspace.getBlocksByType("procedures_callreturn", false);
+    expect(call.getFieldValue("NAME")).toBe("doubleLight");
+  });
+
+  it("should report what is not supported with the line it is on", () => {
+    const { xml, problems } = importSketch(`#include <Adafruit_GFX.h>
+int readings[10];
+
+int average(int a, int b) {
+  return (a + b) / 2;
+}
+
+void loop() {
+  tone(8, 440);
+  digitalWrite(7, HIGH);
+  switch (state) {
+    case 1:
+      break;
+  }
+  delay(100);
+}`);
+
+    expect(problems).toEqual([
+      { line: 1, message: "The Adafruit_GFX.h library is not supported." },
+      { line: 2, message: "int readings[10]; is not supported." },
+      {
+        line: 4,
+        message:
+          "average is not supported, only functions without parameters that return nothing, a number, text or true / false can be blocks.",
+      },
+      { line: 9, message: "tone() is not supported." },
+      { line: 11, message: "switch (state) { is not supported." },
+    ]);
+
+    // The supported statements are still imported
+    loadXml(xml);
+    expect(workspace.getBlocksByType("digital_write", false).length).toBe(1);
+    expect(workspace.getBlocksByType("delay_block", false).length).toBe(1);
+  });
+});
@@ -0,0 +1,1486 @@
+import { VariableTypes } from "../dto/variable.type";
+import {
+  parseSketch,
+  type Declaration,
+  type Expression,
+  type SketchFunction,
+  type Statement,
+} from "./sketch-parser";
+import {
+  LCD_SCREEN_ADDRESSES,
+  LCD_SCREEN_MEMORY_TYPE,
+} from "../../../blocks/lcd_screen/state";
+
+/**
+ * Something in the sketch that could not be turned into blocks.
+ */
+export interface ImportProblem {
+  line: number;
+  message: string;
+}
+
+export interface SketchImport {
+  xml: string;
+  problems: ImportProblem[];
+}
+
+type ValueType =
+  | VariableTypes.NUMBER
+  | VariableTypes.STRING
+  | VariableTypes.BOOLEAN;
+
+interface SketchVariable {
+  id: string;
+  name: string;
+  type: ValueType;
+}
+
+interface XmlBlock {
+  type: string;
+  attributes?: { [name: string]: string };
+  mutation?: { [name: string]: string };
+  fields?: { [name: string]: string };
+  // The variable in the VAR field
+  variable?: SketchVariable;
+  values?: { [name: string]: XmlBlock };
+  statements?: { [name: string]: XmlBlock[] };
+}
+
+interface TypedBlock {
+  block: XmlBlock;
+  type: ValueType;
+  // Whole numbers are shown without decimals when they become text
+  isInteger?: boolean;
+}
+
+// Where the next lcd.print goes, the columns and rows start at 0 like the library
+interface LcdCursor {
+  column: Expression;
+  row: Expression;
+}
+
+const NUMBER_TYPES = [
+  "int",
+  "long",
+  "short",
+  "float",
+  "double",
+  "byte",
+  "word",
+  "char",
+  "unsigned",
+  "unsigned int",
+  "unsigned long",
+  "unsigned short",
+  "unsigned char",
+  "long long",
+  "uint8_t",
+  "int8_t",
+  "uint16_t",
+  "int16_t",
+  "uint32_t",
+  "int32_t",
+  "size_t",
+];
+
+const INTEGER_TYPES = NUMBER_TYPES.filter(
+  (type) => !["float", "double"].includes(type)
+);
+
+const COMPARE_OPERATORS: { [operator: string]: string } = {
+  "==": "EQ",
+  "!=": "NEQ",
+  "<": "LT",
+  "<=": "LTE",
+  ">": "GT",
+  ">=": "GTE",
+};
+
+const ARITHMETIC_OPERATORS: { [operator: string]: string } = {
+  "+": "ADD",
+  "-": "MINUS",
+  "*": "MULTIPLY",
+  "/": "DIVIDE",
+};
+
+// Headers the blocks include themselves
+const SUPPORTED_INCLUDES = [
+  "Arduino.h",
+  "Servo.h",
+  "Wire.h",
+  "LiquidCrystal_I2C.h",
+];
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+const attributesToXml = (attributes: { [name: string]: string } = {}) =>
+  Object.entries(attributes)
+    .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+    .join("");
+
+/**
+ * Writes the blocks as a stack, each block is connected to the next one.
+ */
+const blocksToXml = (blocks: XmlBlock[]): string => {
+  if (blocks.length === 0) {
+    return "";
+  }
+
+  const [block, ...rest] = blocks;
+  const mutation = block.mutation
+    ? `<mutation${attributesToXml(block.mutation)}></mutation>`
+    : "";
+  const variable = block.variable
+    ? `<field name="VAR" id="${escapeXml(block.variable.id)}" variabletype="${
+        block.variable.type
+      }">${escapeXml(block.variable.name)}</field>`
+    : "";
+  const fields = Object.entries(block.fields || {})
+    .map(([name, value]) => `<field name="${name}">${escapeXml(value)}</field>`)
+    .join("");
+  const values = Object.entries(block.values || {})
+    .map(
+      ([name, value]) => `<value name="${name}">${blocksToXml([value])}</value>`
+    )
+    .join("");
+  const statements = Object.entries(block.statements || {})
+    .filter(([, children]) => children.length > 0)
+    .map(
+      ([name, children]) =>
+        `<statement name="${name}">${blocksToXml(children)}</statement>`
+    )
+    .join("");
+  const next = rest.length > 0 ? `<next>${blocksToXml(rest)}</next>` : "";
+
+  return `<block type="${block.type}"${attributesToXml(
+    block.attributes
+  )}>${mutation}${variable}${fields}${values}${statements}${next}</block>`;
+};
+
+const numberBlock = (value: number): XmlBlock => ({
+  type: "math_number",
+  fields: { NUM: value.toString() },
+});
+
+const textBlock = (text: string): XmlBlock => ({
+  type: "text",
+  fields: { TEXT: text },
+});
+
+const booleanBlock = (value: boolean): XmlBlock => ({
+  type: "logic_boolean",
+  fields: { BOOL: value ? "TRUE" : "FALSE" },
+});
+
+const toValueType = (type: string): ValueType | undefined => {
+  if (NUMBER_TYPES.includes(type)) {
+    return VariableTypes.NUMBER;
+  }
+
+  if (["bool", "boolean"].includes(type)) {
+    return VariableTypes.BOOLEAN;
+  }
+
+  if (type === "String") {
+    return VariableTypes.STRING;
+  }
+
+  return undefined;
+};
+
+// Walks every statement, including the ones inside ifs and loops
+const walkStatements = (
+  statements: Statement[],
+  visit: (statement: Statement) => void
+) => {
+  statements.forEach((statement) => {
+    visit(statement);
+    if (statement.kind === "if") {
+      walkStatements(statement.then, visit);
+      walkStatements(statement.otherwise || [], visit);
+    }
+    if (statement.kind === "for") {
+      if (statement.init) visit(statement.init);
+      walkStatements(statement.body, visit);
+    }
+    if (statement.kind === "while") {
+      walkStatements(statement.body, visit);
+    }
+  });
+};
+
+const isLiteral = (expression?: Expression): boolean =>
+  !!expression &&
+  (["number", "string"].includes(expression.kind) ||
+    (expression.kind === "unary" &&
+      expression.operator === "-" &&
+      expression.argument.kind === "number"));
+
+class SketchImporter {
+  private problems: ImportProblem[] = [];
+  private constants = new Map<string, Expression>();
+  private variables = new Map<string, SketchVariable>();
+  private integerVariables = new Set<string>();
+  // Variables that are given digitalRead(), they hold HIGH or LOW
+  private digitalVariables = new Set<string>();
+  private assignedNames = new Set<string>();
+  private servos = new Map<string, string | undefined>();
+  private lcdName: string | undefined;
+  private lcdCursor: LcdCursor | undefined;
+  private procedures = new Set<string>();
+  // Functions that give back a value by the type they give back
+  private returnProcedures = new Map<string, ValueType>();
+  // Setup blocks like analog read setup by what they set up so they are only added once
+  private setupBlocks = new Map<string, XmlBlock>();
+  private lines: string[] = [];
+
+  importSketch(code: string): SketchImport {
+    const program = parseSketch(code);
+    this.lines = code.split("\n");
+
+    program.unsupported.forEach(({ line }) => this.addUnsupported(line));
+    program.includes
+      .filter(({ header }) => !SUPPORTED_INCLUDES.includes(header))
+      .forEach(({ header, line }) =>
+        this.addProblem(line, `The ${header} library is not supported.`)
+      );
+
+    const functions = program.functions.filter((func) => {
+      const isProcedure =
+        (func.returnType === "void" || !!toValueType(func.returnType)) &&
+        ["", "void"].includes(func.params.trim());
+      if (!isProcedure) {
+        this.addProblem(
+          func.line,
+          `${func.name} is not supported, only functions without parameters that return nothing, a number, text or true / false can be blocks.`
+        );
+      }
+      return isProcedure;
+    });
+    functions
+      .filter((func) => !["setup", "loop"].includes(func.name))
+      .forEach((func) => {
+        const returnType = toValueType(func.returnType);
+        if (returnType) {
+          this.returnProcedures.set(func.name, returnType);
+        } else {
+          this.procedures.add(func.name);
+        }
+      });
+
+    const allStatements = [
+      ...program.globals,
+      ...functions.flatMap((func) => func.body),
+    ];
+    this.findAssignedVariables(allStatements);
+
+    program.defines.forEach(({ name, value, line }) => {
+      if (value) {
+        this.constants.set(name, value);
+      } else {
+        this.addProblem(line, `#define ${name} is not supported.`);
+      }
+    });
+
+    const globalSetup = program.globals.flatMap((declaration) =>
+      this.declaration(declaration)
+    );
+    this.findServoPins(allStatements);
+
+    const setup = functions.find((func) => func.name === "setup");
+    const loop = functions.find((func) => func.name === "loop");
+    const setupBlocks = [
+      ...globalSetup,
+      ...(setup ? this.functionBody(setup) : []),
+    ];
+    const loopBlocks = loop ? this.functionBody(loop) : [];
+    const procedureBlocks = functions
+      .filter((func) => this.procedures.has(func.name))
+      .map(
+        (func): XmlBlock => ({
+          type: "procedures_defnoreturn",
+          fields: { NAME: func.name },
+          statements: { STACK: this.functionBody(func) },
+        })
+      );
+    const returnProcedureBlocks = functions.flatMap((func) => {
+      const type = this.returnProcedures.get(func.name);
+      return type ? [this.returnProcedure(func, type)] : [];
+    });
+
+    const componentBlocks = [...this.setupBlocks.values()].map(
+      (block, index) => ({
+        ...block,
+        attributes: { x: "0", y: (index * 150).toString() },
+      })
+    );
+    const arduinoBlocks: XmlBlock[] = [
+      ...(setupBlocks.length > 0
+        ? [
+            {
+              type: "arduino_setup",
+              statements: { setup: setupBlocks },
+            },
+          ]
+        : []),
+      {
+        type: "arduino_loop",
+        attributes: { deletable: "false" },
+        fields: { LOOP_TIMES: "3" },
+        statements: { loop: loopBlocks },
+      },
+      ...procedureBlocks,
+      ...returnProcedureBlocks,
+    ].map((block, index) => ({
+      ...block,
+      attributes: {
+        ...block.attributes,
+        x: (400 + index * 450).toString(),
+        y: "0",
+      },
+    }));
+
+    const variables = [...this.variables.values()]
+      .map(
+        (variable) =>
+          `<variable type="${variable.type}" id="${escapeXml(
+            variable.id
+          )}">${escapeXml(variable.name)}</variable>`
+      )
+      .join("");
+
+    const xml =
+      '<xml xmlns="https://developers.google.com/blockly/xml">' +
+      `<variables>${variables}</variables>` +
+      [...componentBlocks, ...arduinoBlocks]
+        .map((block) => blocksToXml([block]))
+        .join("") +
+      "</xml>";
+
+    return { xml, problems: this.problems.sort((a, b) => a.line - b.line) };
+  }
+
+  private addProblem(line: number, message: string) {
+    this.problems.push({ line, message });
+  }
+
+  // Shows the code on the line, the statement may go on after it
+  private addUnsupported(line: number) {
+    const code = (this.lines[line - 1] || "").replace(/\/\/.*$/, "").trim();
+    this.addProblem(line, `${code} is not supported.`);
+  }
+
+  private findAssignedVariables(statements: Statement[]) {
+    const visitExpression = (expression?: Expression) => {
+      if (!expression) return;
+      if (expression.kind === "assign") {
+        this.assignedNames.add(expression.target);
+        if (
+          expression.value.kind === "call" &&
+          expression.value.callee === "digitalRead"
+        ) {
+          this.digitalVariables.add(expression.target);
+        }
+      }
+      if (expression.kind === "update") {
+        this.assignedNames.add(expression.target);
+      }
+    };
+
+    walkStatements(statements, (statement) => {
+      if (statement.kind === "expression")
+        visitExpression(statement.expression);
+      if (statement.kind === "for") visitExpression(statement.update);
+      if (
+        statement.kind === "declaration" &&
+        statement.value?.kind === "call" &&
+        statement.value.callee === "digitalRead"
+      ) {
+        this.digitalVariables.add(statement.name);
+      }
+    });
+  }
+
+  // Servo servo; needs servo.attach(9); to know which pin the blocks use
+  private findServoPins(statements: Statement[]) {
+    walkStatements(statements, (statement) => {
+      if (
+        statement.kind !== "expression" ||
+        statement.expression.kind !== "call"
+      ) {
+        return;
+      }
+
+      const [object, method] = statement.expression.callee.split(".");
+      if (this.servos.has(object) && method === "attach") {
+        const [pin] = statement.expression.args;
+        this.servos.set(object, pin ? this.pin(pin) : undefined);
+      }
+    });
+  }
+
+  private functionBody(func: SketchFunction) {
+    this.lcdCursor = { column: numberExpression(0), row: numberExpression(0) };
+    return this.statements(func.body);
+  }
+
+  // The block gives back the value of the return at the end of the function
+  private returnProcedure(func: SketchFunction, type: ValueType): XmlBlock {
+    const last = func.body[func.body.length - 1];
+    const returned = last?.kind === "return" ? last.value : undefined;
+    if (!returned) {
+      this.addProblem(func.line, `${func.name} has to end with a return.`);
+    }
+
+    const body = this.functionBody({
+      ...func,
+      body: returned ? func.body.slice(0, -1) : func.body,
+    });
+    const value = returned && this.value(returned, type);
+    return {
+      type: "procedures_defreturn",
+      fields: { NAME: func.name, "RETURN TYPE": type },
+      values: value ? { RETURN: value } : {},
+      statements: { STACK: body },
+    };
+  }
+
+  private statements(statements: Statement[]): XmlBlock[] {
+    return statements.flatMap((statement) => this.statement(statement));
+  }
+
+  private statement(statement: Statement): XmlBlock[] {
+    switch (statement.kind) {
+      case "declaration":
+        return this.declaration(statement);
+      case "expression":
+        return this.expressionStatement(statement.expression);
+      case "if":
+        return this.ifStatement(statement);
+      case "for":
+        return this.forStatement(statement);
+      case "while": {
+        const condition = this.value(
+          statement.condition,
+          VariableTypes.BOOLEAN
+        );
+        return [
+          {
+            type: "controls_whileUntil",
+            fields: { MODE: "WHILE", MAX_TIMES: "10" },
+            values: condition ? { BOOL: condition } : {},
+            statements: { DO: this.statements(statement.body) },
+          },
+        ];
+      }
+      case "return":
+        this.addProblem(
+          statement.line,
+          "return is only supported at the end of a function that returns a value."
+        );
+        return [];
+      case "unsupported":
+        this.addUnsupported(statement.line);
+        return [];
+    }
+  }
+
+  private declaration(declaration: Declaration): XmlBlock[] {
+    const { name, line } = declaration;
+
+    if (declaration.type === "Servo") {
+      this.servos.set(name, undefined);
+      return [];
+    }
+
+    if (declaration.type === "LiquidCrystal_I2C") {
+      this.lcdSetup(declaration);
+      return [];
+    }
+
+    if (declaration.type === "LiquidCrystal") {
+      this.addProblem(
+        line,
+        "Only I2C LCD screens are supported, use the LiquidCrystal_I2C library."
+      );
+      return [];
+    }
+
+    const type = this.digitalVariables.has(name)
+      ? VariableTypes.BOOLEAN
+      : toValueType(declaration.type);
+    if (!type) {
+      this.addProblem(
+        line,
+        `Variables of type ${declaration.type} are not supported.`
+      );
+      return [];
+    }
+
+    // Pins and other settings are shown as numbers in the blocks
+    if (
+      isLiteral(declaration.value) &&
+      (declaration.isConst || !this.assignedNames.has(name))
+    ) {
+      this.constants.set(name, declaration.value as Expression);
+      return [];
+    }
+
+    const variable = this.variable(name, type);
+    if (INTEGER_TYPES.includes(declaration.type)) {
+      this.integerVariables.add(name);
+    }
+    if (!declaration.value) {
+      return [];
+    }
+
+    return this.setVariable(variable, declaration.value);
+  }
+
+  private variable(name: string, type: ValueType) {
+    const existing = this.variables.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const variable = { id: `sketch_variable_${name}`, name, type };
+    this.variables.set(name, variable);
+    return variable;
+  }
+
+  private setVariable(
+    variable: SketchVariable,
+    expression: Expression
+  ): XmlBlock[] {
+    const value = this.value(expression, variable.type);
+    return [
+      {
+        type: `variables_set_${variable.type.toLowerCase()}`,
+        variable,
+        values: value ? { VALUE: value } : {},
+      },
+    ];
+  }
+
+  private expressionStatement(expression: Expression): XmlBlock[] {
+    if (expression.kind === "call") {
+      return this.callStatement(expression);
+    }
+
+    if (expression.kind === "assign" || expression.kind === "update") {
+      const variable = this.variables.get(expression.target);
+      if (!variable) {
+        this.addProblem(
+          expression.line,
+          `${expression.target} is not a variable.`
+        );
+        return [];
+      }
+
+      const target: Expression = {
+        kind: "identifier",
+        name: expression.target,
+        line: expression.line,
+      };
+      if (expression.kind === "update") {
+        return this.setVariable(variable, {
+          kind: "binary",
+          operator: expression.operator === "++" ? "+" : "-",
+          left: target,
+          right: numberExpression(1, expression.line),
+          line: expression.line,
+        });
+      }
+
+      return this.setVariable(
+        variable,
+        expression.operator === "="
+          ? expression.value
+          : {
+              kind: "binary",
+              operator: expression.operator.slice(0, -1),
+              left: target,
+              right: expression.value,
+              line: expression.line,
+            }
+      );
+    }
+
+    this.addProblem(expression.line, "This statement does not do anything.");
+    return [];
+  }
+
+  private callStatement(
+    call: Extract<Expression, { kind: "call" }>
+  ): XmlBlock[] {
+    const { callee, args, line } = call;
+    const [object, method] = callee.split(".");
+
+    if (callee === "pinMode") {
+      const pin = this.pin(args[0]);
+      const mode = args[1]?.kind === "identifier" ? args[1].name : "";
+      if (pin && ["INPUT", "INPUT_PULLUP"].includes(mode)) {
+        this.readSetup(pin, pin.startsWith("A") ? "analog" : "digital");
+      }
+      return [];
+    }
+
+    if (callee === "digitalWrite") {
+      const pin = this.pin(args[0]);
+      const state = this.digitalState(args[1]);
+      if (!pin || state === undefined) {
+        if (pin) {
+          this.addProblem(line, "digitalWrite can only be given HIGH or LOW.");
+        }
+        return [];
+      }
+      return [
+        {
+          type: "digital_write",
+          fields: { PIN: pin, STATE: state ? "ON" : "OFF" },
+        },
+      ];
+    }
+
+    if (callee === "analogWrite") {
+      const pin = this.pin(args[0]);
+      const value = args[1] && this.value(args[1], VariableTypes.NUMBER);
+      if (!pin) return [];
+      return [
+        {
+          type: "analog_write",
+          fields: { PIN: pin },
+          values: value ? { WRITE_VALUE: value } : {},
+        },
+      ];
+    }
+
+    if (callee === "delay") {
+      // The delay block is in seconds
+      const milliseconds = args[0] && this.resolveConstant(args[0]);
+      const seconds =
+        milliseconds?.kind === "number"
+          ? numberBlock(milliseconds.value / 1000)
+          : milliseconds &&
+            this.arithmetic(
+              "DIVIDE",
+              this.value(milliseconds, VariableTypes.NUMBER),
+              numberBlock(1000)
+            );
+      return [
+        {
+          type: "delay_block",
+          values: seconds ? { DELAY: seconds } : {},
+        },
+      ];
+    }
+
+    if (object === "Serial") {
+      return this.serialStatement(method, args, line);
+    }
+
+    if (this.servos.has(object)) {
+      return this.servoStatement(object, method, args, line);
+    }
+
+    if (object === this.lcdName && method) {
+      return this.lcdStatement(method, args, line);
+    }
+
+    if (this.procedures.has(callee)) {
+      return [{ type: "procedures_callnoreturn", mutation: { name: callee } }];
+    }
+
+    if (this.returnProcedures.has(callee)) {
+      this.addProblem(line, `The value ${callee}() returns has to be used.`);
+      return [];
+    }
+
+    this.addProblem(line, `${callee}() is not supported.`);
+    return [];
+  }
+
+  private serialStatement(
+    method: string,
+    args: Expression[],
+    line: number
+  ): XmlBlock[] {
+    this.messageSetup();
+
+    if (method === "begin") {
+      return [];
+    }
+
+    if (["print", "println"].includes(method)) {
+      if (args.length > 1) {
+        this.addProblem(line, `Serial.${method} can only print one value.`);
+      }
+      const message = args[0]
+        ? this.value(args[0], VariableTypes.STRING)
+        : textBlock("");
+      return [
+        {
+          type: "arduino_send_message",
+          values: message ? { MESSAGE: message } : {},
+        },
+      ];
+    }
+
+    this.addProblem(line, `Serial.${method}() is not supported.`);
+    return [];
+  }
+
+  private servoStatement(
+    servo: string,
+    method: string,
+    args: Expression[],
+    line: number
+  ): XmlBlock[] {
+    if (method === "attach") {
+      return [];
+    }
+
+    const pin = this.servos.get(servo);
+    if (method === "write" && args[0]) {
+      if (!pin) {
+        this.addProblem(line, `${servo}.attach() with the pin is missing.`);
+        return [];
+      }
+      const degrees = this.value(args[0], VariableTypes.NUMBER);
+      return [
+        {
+          type: "rotate_servo",
+          fields: { PIN: pin },
+          values: degrees ? { DEGREE: degrees } : {},
+        },
+      ];
+    }
+
+    this.addProblem(line, `${servo}.${method}() is not supported.`);
+    return [];
+  }
+
+  private lcdStatement(
+    method: string,
+    args: Expression[],
+    line: number
+  ): XmlBlock[] {
+    const origin = { column: numberExpression(0), row: numberExpression(0) };
+
+    switch (method) {
+      case "init":
+      case "begin":
+      case "home":
+        this.lcdCursor = origin;
+        return [];
+      case "backlight":
+      case "noBacklight":
+        return [
+          {
+            type: "lcd_backlight",
+            fields: { BACKLIGHT: method === "backlight" ? "ON" : "OFF" },
+          },
+        ];
+      case "clear":
+        this.lcdCursor = origin;
+        return [{ type: "lcd_screen_clear" }];
+      case "scrollDisplayLeft":
+      case "scrollDisplayRight":
+        return [
+          {
+            type: "lcd_scroll",
+            fields: { DIR: method === "scrollDisplayLeft" ? "LEFT" : "RIGHT" },
+          },
+        ];
+      case "setCursor":
+        if (args.length === 2) {
+          this.lcdCursor = { column: args[0], row: args[1] };
+          return [];
+        }
+        break;
+      case "print":
+        if (args.length === 1) {
+          return [this.lcdPrint(args[0], line)];
+        }
+        break;
+    }
+
+    this.addProblem(line, `${this.lcdName}.${method}() is not supported.`);
+    return [];
+  }
+
+  private lcdPrint(message: Expression, line: number): XmlBlock {
+    if (!this.lcdCursor) {
+      this.addProblem(
+        line,
+        "The text is printed at the start of the screen, add lcd.setCursor before lcd.print."
+      );
+    }
+
+    // The block counts rows and columns from 1
+    const { column, row } = this.lcdCursor || {
+      column: numberExpression(0),
+      row: numberExpression(0),
+    };
+    const fromOne = (position: Expression) => {
+      const expression = this.resolveConstant(position);
+      return expression.kind === "number"
+        ? numberBlock(expression.value + 1)
+        : this.arithmetic(
+            "ADD",
+            this.value(expression, VariableTypes.NUMBER),
+            numberBlock(1)
+          );
+    };
+
+    // The library moves the cursor to the end of the text
+    this.lcdCursor = undefined;
+    const text = this.value(message, VariableTypes.STRING);
+
+    return {
+      type: "lcd_screen_print",
+      values: {
+        ROW: fromOne(row),
+        COLUMN: fromOne(column),
+        ...(text ? { PRINT: text } : {}),
+      },
+    };
+  }
+
+  // LiquidCrystal_I2C lcd(0x27, 16, 2);
+  private lcdSetup(declaration: Declaration) {
+    this.lcdName = declaration.name;
+    const [address, ...size] = (declaration.args || []).map((arg) =>
+      arg.kind === "number" ? arg.value : undefined
+    );
+
+    if (
+      address === undefined ||
+      size.length !== 2 ||
+      size.includes(undefined)
+    ) {
+      this.addProblem(
+        declaration.line,
+        "The LCD screen needs the address, columns and rows, ie LiquidCrystal_I2C lcd(0x27, 16, 2);"
+      );
+    }
+
+    // The columns and rows can be in either order
+    const columns = Math.max(...size.map((n) => n || 0));
+    const hexAddress = `0x${(address || 0).toString(16).toUpperCase()}`;
+    const memoryType = LCD_SCREEN_ADDRESSES.includes(hexAddress)
+      ? hexAddress
+      : LCD_SCREEN_MEMORY_TYPE["0X27"];
+    if (address !== undefined && memoryType !== hexAddress) {
+      this.addProblem(
+        declaration.line,
+        `The LCD screen address has to be between 0x20 and 0x27 or 0x38 and 0x3F, it will use ${memoryType}.`
+      );
+    }
+
+    this.setupBlocks.set("lcd", {
+      type: "lcd_setup",
+      fields: {
+        MEMORY_TYPE: memoryType,
+        SIZE: columns >= 20 ? "20 x 4" : "16 x 2",
+      },
+    });
+  }
+
+  private readSetup(pin: string, type: "analog" | "digital") {
+    const key = `${type}_read_setup_${pin}`;
+    if (this.setupBlocks.has(key)) {
+      return;
+    }
+
+    this.setupBlocks.set(key, {
+      type: `${type}_read_setup`,
+      fields: { PIN: pin, TYPE: "SENSOR" },
+    });
+  }
+
+  private messageSetup() {
+    if (!this.setupBlocks.has("message")) {
+      this.setupBlocks.set("message", { type: "message_setup" });
+    }
+  }
+
+  private ifStatement(
+    statement: Extract<Statement, { kind: "if" }>
+  ): XmlBlock[] {
+    const condition = this.value(statement.condition, VariableTypes.BOOLEAN);
+    const values: { [name: string]: XmlBlock } = condition
+      ? { IF0: condition }
+      : {};
+    const then = this.statements(statement.then);
+
+    if (!statement.otherwise) {
+      return [{ type: "control_if", values, statements: { DO0: then } }];
+    }
+
+    return [
+      {
+        type: "controls_ifelse",
+        values,
+        statements: { DO0: then, ELSE: this.statements(statement.otherwise) },
+      },
+    ];
+  }
+
+  /**
+   * for (int i = 0; i < 10; i += 1) becomes count with i from 0 to 9 by 1.
+   * The block counts up or down by itself.
+   */
+  private forStatement(
+    statement: Extract<Statement, { kind: "for" }>
+  ): XmlBlock[] {
+    const { init, condition, update, line } = statement;
+
+    let name: string | undefined;
+    let from: Expression | undefined;
+    if (init?.kind === "declaration" && init.value) {
+      name = init.name;
+      from = init.value;
+    } else if (
+      init?.kind === "expression" &&
+      init.expression.kind === "assign" &&
+      init.expression.operator === "="
+    ) {
+      name = init.expression.target;
+      from = init.expression.value;
+    }
+
+    let step: number | undefined;
+    if (update?.kind === "update" && update.target === name) {
+      step = 1;
+    } else if (
+      update?.kind === "assign" &&
+      update.target === name &&
+      ["+=", "-="].includes(update.operator) &&
+      update.value.kind === "number"
+    ) {
+      step = update.value.value;
+    }
+
+    if (
+      !name ||
+      !from ||
+      !step ||
+      condition?.kind !== "binary" ||
+      condition.left.kind !== "identifier" ||
+      condition.left.name !== name ||
+      !["<", "<=", ">", ">="].includes(condition.operator)
+    ) {
+      this.addProblem(
+        line,
+        "Only for loops that count a variable up or down are supported, ie for (int i = 0; i < 10; i++)."
+      );
+      return [];
+    }
+
+    const variable = this.variable(name, VariableTypes.NUMBER);
+    this.integerVariables.add(name);
+
+    // The block includes the last number
+    const offset = { "<": -1, ">": 1 }[condition.operator] || 0;
+    const end = this.resolveConstant(condition.right);
+    const to =
+      end.kind === "number"
+        ? numberBlock(end.value + offset)
+        : offset === 0
+          ? this.value(end, VariableTypes.NUMBER)
+          : this.arithmetic(
+              offset < 0 ? "MINUS" : "ADD",
+              this.value(end, VariableTypes.NUMBER),
+              numberBlock(1)
+            );
+    const start = this.value(from, VariableTypes.NUMBER);
+
+    return [
+      {
+        type: "controls_for",
+        variable,
+        fields: { BY: Math.abs(step).toString() },
+        values: {
+          ...(start ? { FROM: start } : {}),
+          ...(to ? { TO: to } : {}),
+        },
+        statements: { DO: this.statements(statement.body) },
+      },
+    ];
+  }
+
+  // DELAY_TIME becomes 1000 when it is #define DELAY_TIME 1000
+  private resolveConstant(expression: Expression): Expression {
+    const constant =
+      expression.kind === "identifier"
+        ? this.constants.get(expression.name)
+        : undefined;
+
+    return constant ? this.resolveConstant(constant) : expression;
+  }
+
+  private arithmetic(
+    operator: string,
+    a: XmlBlock | undefined,
+    b: XmlBlock | undefined
+  ): XmlBlock {
+    return {
+      type: "math_arithmetic",
+      fields: { OP: operator },
+      values: { ...(a ? { A: a } : {}), ...(b ? { B: b } : {}) },
+    };
+  }
+
+  /**
+   * The pin as it is shown in the pin dropdowns, ie 13 or A0.
+   */
+  private pin(expression: Expression | undefined): string | undefined {
+    if (expression?.kind === "number") {
+      return expression.value.toString();
+    }
+
+    if (expression?.kind === "identifier") {
+      if (/^A\d+$/.test(expression.name)) {
+        return expression.name;
+      }
+      if (expression.name === "LED_BUILTIN") {
+        return "13";
+      }
+      const constant = this.constants.get(expression.name);
+      if (constant) {
+        return this.pin(constant);
+      }
+    }
+
+    this.addProblem(
+      expression?.line || 1,
+      "The pin has to be a number or a variable that does not change."
+    );
+    return undefined;
+  }
+
+  // HIGH, LOW, true, false, 1 and 0
+  private digitalState(
+    expression: Expression | undefined
+  ): boolean | undefined {
+    if (expression?.kind === "number" && [0, 1].includes(expression.value)) {
+      return expression.value === 1;
+    }
+
+    if (expression?.kind === "identifier") {
+      if (["HIGH", "true"].includes(expression.name)) return true;
+      if (["LOW", "false"].includes(expression.name)) return false;
+      const constant = this.constants.get(expression.name);
+      if (constant) return this.digitalState(constant);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Turns the expression into a block that fits an input of the type.
+   */
+  private value(expression: Expression, type: ValueType): XmlBlock | undefined {
+    return this.convert(
+      this.expression(expression, type),
+      type,
+      expression.line
+    );
+  }
+
+  private convert(
+    result: TypedBlock | undefined,
+    type: ValueType,
+    line: number
+  ): XmlBlock | undefined {
+    if (!result) {
+      return undefined;
+    }
+
+    if (result.type === type) {
+      return result.block;
+    }
+
+    if (result.type === VariableTypes.NUMBER && type === VariableTypes.STRING) {
+      if (result.block.type === "math_number") {
+        return textBlock(result.block.fields?.NUM || "0");
+      }
+      return {
+        type: "number_to_string",
+        fields: { PRECISION: result.isInteger ? "0" : "2" },
+        values: { NUMBER: result.block },
+      };
+    }
+
+    if (
+      result.type === VariableTypes.NUMBER &&
+      type === VariableTypes.BOOLEAN
+    ) {
+      if (result.block.type === "math_number") {
+        return booleanBlock(result.block.fields?.NUM !== "0");
+      }
+      return {
+        type: "logic_compare",
+        fields: { OP: "NEQ" },
+        values: { A: result.block, B: numberBlock(0) },
+      };
+    }
+
+    if (result.type === VariableTypes.STRING && type === VariableTypes.NUMBER) {
+      return { type: "string_to_number", values: { VALUE: result.block } };
+    }
+
+    this.addProblem(
+      line,
+      `A ${result.type.toLowerCase()} can not be used where a ${type.toLowerCase()} is needed.`
+    );
+    return undefined;
+  }
+
+  private expression(
+    expression: Expression,
+    expected: ValueType
+  ): TypedBlock | undefined {
+    switch (expression.kind) {
+      case "number":
+        return {
+          block: numberBlock(expression.value),
+          type: VariableTypes.NUMBER,
+          isInteger: Number.isInteger(expression.value),
+        };
+      case "string":
+        return {
+          block: textBlock(expression.value),
+          type: VariableTypes.STRING,
+        };
+      case "identifier":
+        return this.identifier(expression, expected);
+      case "call":
+        return this.callExpression(expression, expected);
+      case "binary":
+        return this.binary(expression, expected);
+      case "unary":
+        return this.unary(expression);
+      case "assign":
+      case "update":
+        this.addProblem(
+          expression.line,
+          "Changing a variable inside of another statement is not supported."
+        );
+        return undefined;
+    }
+  }
+
+  private identifier(
+    expression: Extract<Expression, { kind: "identifier" }>,
+    expected: ValueType
+  ): TypedBlock | undefined {
+    const { name, line } = expression;
+    const state = ["HIGH", "LOW", "true", "false"].includes(name)
+      ? this.digitalState(expression)
+      : undefined;
+    if (state !== undefined) {
+      return expected === VariableTypes.BOOLEAN ||
+        ["true", "false"].includes(name)
+        ? { block: booleanBlock(state), type: VariableTypes.BOOLEAN }
+        : {
+            block: numberBlock(state ? 1 : 0),
+            type: VariableTypes.NUMBER,
+            isInteger: true,
+          };
+    }
+
+    if (name === "LED_BUILTIN" || /^A\d+$/.test(name)) {
+      this.addProblem(line, `${name} can only be used as a pin.`);
+      return undefined;
+    }
+
+    const constant = this.constants.get(name);
+    if (constant) {
+      return this.expression(constant, expected);
+    }
+
+    const variable = this.variables.get(name);
+    if (variable) {
+      return {
+        block: {
+          type: `variables_get_${variable.type.toLowerCase()}`,
+          variable,
+        },
+        type: variable.type,
+        isInteger: this.integerVariables.has(name),
+      };
+    }
+
+    this.addProblem(line, `${name} is not supported.`);
+    return undefined;
+  }
+
+  private callExpression(
+    call: Extract<Expression, { kind: "call" }>,
+    expected: ValueType
+  ): TypedBlock | undefined {
+    const { callee, args, line } = call;
+    const [object, method] = callee.split(".");
+
+    if (callee === "analogRead") {
+      const pin = this.pin(args[0]);
+      if (!pin) return undefined;
+      this.readSetup(pin, "analog");
+      return {
+        block: { type: "analog_read", fields: { PIN: pin } },
+        type: VariableTypes.NUMBER,
+        isInteger: true,
+      };
+    }
+
+    if (callee === "digitalRead") {
+      const pin = this.pin(args[0]);
+      if (!pin) return undefined;
+      this.readSetup(pin, "digital");
+      return {
+        block: { type: "digital_read", fields: { PIN: pin } },
+        type: VariableTypes.BOOLEAN,
+      };
+    }
+
+    if (this.servos.has(object) && method === "read") {
+      const pin = this.servos.get(object);
+      if (!pin) {
+        this.addProblem(line, `${object}.attach() with the pin is missing.`);
+        return undefined;
+      }
+      return {
+        block: { type: "servo_read_degrees", fields: { PIN: pin } },
+        type: VariableTypes.NUMBER,
+        isInteger: true,
+      };
+    }
+
+    const returnType = this.returnProcedures.get(callee);
+    if (returnType) {
+      return {
+        block: { type: "procedures_callreturn", mutation: { name: callee } },
+        type: returnType,
+      };
+    }
+
+    // String(value) and F("text") do not change what is shown
+    if (["String", "F"].includes(callee) && args.length === 1) {
+      const block = this.value(
+        args[0],
+        callee === "String" ? VariableTypes.STRING : expected
+      );
+      return block
+        ? { block, type: callee === "String" ? VariableTypes.STRING : expected }
+        : undefined;
+    }
+
+    this.addProblem(line, `${callee}() is not supported.`);
+    return undefined;
+  }
+
+  private binary(
+    expression: Extract<Expression, { kind: "binary" }>,
+    expected: ValueType
+  ): TypedBlock | undefined {
+    const { operator, left, right, line } = expression;
+
+    if (operator === "+" && this.isText(expression, expected)) {
+      const parts = this.joinParts(expression)
+        .map((part) => this.value(part, VariableTypes.STRING))
+        .filter((part): part is XmlBlock => !!part);
+      return {
+        block: {
+          type: "text_join",
+          mutation: { items: parts.length.toString() },
+          values: Object.fromEntries(parts.map((part, i) => [`ADD${i}`, part])),
+        },
+        type: VariableTypes.STRING,
+      };
+    }
+
+    if (ARITHMETIC_OPERATORS[operator]) {
+      const a = this.expression(left, VariableTypes.NUMBER);
+      const b = this.expression(right, VariableTypes.NUMBER);
+      return {
+        block: this.arithmetic(
+          ARITHMETIC_OPERATORS[operator],
+          this.convert(a, VariableTypes.NUMBER, left.line),
+          this.convert(b, VariableTypes.NUMBER, right.line)
+        ),
+        type: VariableTypes.NUMBER,
+        isInteger: operator !== "/" && a?.isInteger && b?.isInteger,
+      };
+    }
+
+    if (operator === "%") {
+      const dividend = this.value(left, VariableTypes.NUMBER);
+      const divisor = this.value(right, VariableTypes.NUMBER);
+      return {
+        block: {
+          type: "math_modulo",
+          values: {
+            ...(dividend ? { DIVIDEND: dividend } : {}),
+            ...(divisor ? { DIVISOR: divisor } : {}),
+          },
+        },
+        type: VariableTypes.NUMBER,
+        isInteger: true,
+      };
+    }
+
+    if (["==", "!="].includes(operator)) {
+      // digitalRead(2) == HIGH is the digital read block
+      const digital =
+        this.digitalComparison(left, right) ||
+        this.digitalComparison(right, left);
+      if (digital) {
+        const isOn = digital.state === (operator === "==");
+        return {
+          block: isOn
+            ? digital.block
+            : { type: "logic_negate", values: { BOOL: digital.block } },
+          type: VariableTypes.BOOLEAN,
+        };
+      }
+    }
+
+    if (COMPARE_OPERATORS[operator]) {
+      const a = this.value(left, VariableTypes.NUMBER);
+      const b = this.value(right, VariableTypes.NUMBER);
+      return {
+        block: {
+          type: "logic_compare",
+          fields: { OP: COMPARE_OPERATORS[operator] },
+          values: { ...(a ? { A: a } : {}), ...(b ? { B: b } : {}) },
+        },
+        type: VariableTypes.BOOLEAN,
+      };
+    }
+
+    if (["&&", "||"].includes(operator)) {
+      const a = this.value(left, VariableTypes.BOOLEAN);
+      const b = this.value(right, VariableTypes.BOOLEAN);
+      return {
+        block: {
+          type: "logic_operation",
+          fields: { OP: operator === "&&" ? "AND" : "OR" },
+          values: { ...(a ? { A: a } : {}), ...(b ? { B: b } : {}) },
+        },
+        type: VariableTypes.BOOLEAN,
+      };
+    }
+
+    this.addProblem(line, `The ${operator} operator is not supported.`);
+    return undefined;
+  }
+
+  private digitalComparison(
+    value: Expression,
+    state: Expression
+  ): { block: XmlBlock; state: boolean } | undefined {
+    const isDigitalState =
+      (state.kind === "identifier" &&
+        ["HIGH", "LOW", "true", "false"].includes(state.name)) ||
+      (state.kind === "number" && [0, 1].includes(state.value));
+    const isDigital =
+      (value.kind === "call" && value.callee === "digitalRead") ||
+      (value.kind === "identifier" &&
+        this.variables.get(value.name)?.type === VariableTypes.BOOLEAN);
+    if (!isDigitalState || !isDigital) {
+      return undefined;
+    }
+
+    const block = this.value(value, VariableTypes.BOOLEAN);
+    return block ? { block, state: !!this.digitalState(state) } : undefined;
+  }
+
+  // "Temperature: " + temperature is text
+  private isText(expression: Expression, expected: ValueType): boolean {
+    if (expected === VariableTypes.STRING) {
+      return true;
+    }
+
+    return this.joinParts(expression).some(
+      (part) =>
+        part.kind === "string" ||
+        (part.kind === "call" && part.callee === "String") ||
+        (part.kind === "identifier" &&
+          (this.variables.get(part.name)?.type === VariableTypes.STRING ||
+            this.constants.get(part.name)?.kind === "string"))
+    );
+  }
+
+  // a + b + c is ((a + b) + c)
+  private joinParts(expression: Expression): Expression[] {
+    if (expression.kind === "binary" && expression.operator === "+") {
+      return [
+        ...this.joinParts(expression.left),
+        ...this.joinParts(expression.right),
+      ];
+    }
+
+    return [expression];
+  }
+
+  private unary(
+    expression: Extract<Expression, { kind: "unary" }>
+  ): TypedBlock | undefined {
+    const { operator, argument, line } = expression;
+
+    if (operator === "!") {
+      const value = this.value(argument, VariableTypes.BOOLEAN);
+      return value
+        ? {
+            block: { type: "logic_negate", values: { BOOL: value } },
+            type: VariableTypes.BOOLEAN,
+          }
+        : undefined;
+    }
+
+    if (operator === "-" && argument.kind === "number") {
+      return {
+        block: numberBlock(-argument.value),
+        type: VariableTypes.NUMBER,
+        isInteger: Number.isInteger(argument.value),
+      };
+    }
+
+    if (operator === "-") {
+      const value = this.value(argument, VariableTypes.NUMBER);
+      return {
+        block: this.arithmetic("MINUS", numberBlock(0), value),
+        type: VariableTypes.NUMBER,
+      };
+    }
+
+    if (operator === "+") {
+      return this.expression(argument, VariableTypes.NUMBER);
+    }
+
+    this.addProblem(line, `The ${operator} operator is not supported.`);
+    return undefined;
+  }
+}
+
+const numberExpression = (value: number, line = 1): Expression => ({
+  kind: "number",
+  value,
+  line,
+});
+
+/**
+ * Turns an Arduino sketch into blocks.  Only the code the blocks can
+ * create is supported, everything else is listed in the problems with the
+ * line it is on.
+ */
+export const importSketch = (code: string): SketchImport =>
+  new SketchImporter().importSketch(code);
@@ -0,0 +1,916 @@
+/**
+ * A small parser for the subset of Arduino C++ that the blocks can show.
+ * It is not a C++ compiler, anything it does not understand becomes an
+ * unsupported statement with the line it is on so the importer can report it.
+ */
+
+export interface Token {
+  type: "number" | "string" | "char" | "identifier" | "operator" | "directive";
+  value: string;
+  line: number;
+}
+
+export type Expression =
+  | { kind: "number"; value: number; line: number }
+  | { kind: "string"; value: string; line: number }
+  | { kind: "identifier"; name: string; line: number }
+  | { kind: "call"; callee: string; args: Expression[]; line: number }
+  | {
+      kind: "binary";
+      operator: string;
+      left: Expression;
+      right: Expression;
+      line: number;
+    }
+  | { kind: "unary"; operator: string; argument: Expression; line: number }
+  | {
+      kind: "assign";
+      operator: string;
+      target: string;
+      value: Expression;
+      line: number;
+    }
+  | { kind: "update"; operator: "++" | "--"; target: string; line: number };
+
+export interface Declaration {
+  kind: "declaration";
+  type: string;
+  name: string;
+  isConst: boolean;
+  value?: Expression;
+  // Constructor arguments, ie LiquidCrystal_I2C lcd(0x27, 16, 2);
+  args?: Expression[];
+  line: number;
+}
+
+export type Statement =
+  | Declaration
+  | { kind: "expression"; expression: Expression; line: number }
+  | {
+      kind: "if";
+      condition: Expression;
+      then: Statement[];
+      otherwise?: Statement[];
+      line: number;
+    }
+  | {
+      kind: "for";
+      init?: Statement;
+      condition?: Expression;
+      update?: Expression;
+      body: Statement[];
+      line: number;
+    }
+  | { kind: "while"; condition: Expression; body: Statement[]; line: number }
+  | { kind: "return"; value?: Expression; line: number }
+  | { kind: "unsupported"; text: string; line: number };
+
+export interface SketchFunction {
+  returnType: string;
+  name: string;
+  params: string;
+  body: Statement[];
+  line: number;
+}
+
+export interface SketchProgram {
+  includes: { header: string; line: number }[];
+  defines: { name: string; value?: Expression; line: number }[];
+  globals: Declaration[];
+  functions: SketchFunction[];
+  // Top level code that is not a variable or a function
+  unsupported: { text: string; line: number }[];
+}
+
+class SketchSyntaxError extends Error {
+  constructor(
+    message: string,
+    public line: number
+  ) {
+    super(message);
+  }
+}
+
+const OPERATORS = [
+  "<<=",
+  ">>=",
+  "==",
+  "!=",
+  "<=",
+  ">=",
+  "&&",
+  "||",
+  "++",
+  "--",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "<<",
+  ">>",
+  "->",
+  "::",
+];
+
+// Words that start a statement and can not be a type or a variable name
+const KEYWORDS = [
+  "if",
+  "else",
+  "for",
+  "while",
+  "do",
+  "switch",
+  "case",
+  "default",
+  "return",
+  "break",
+  "continue",
+  "goto",
+  "true",
+  "false",
+  "new",
+  "delete",
+  "sizeof",
+];
+
+// Types that can be used in a cast, ie (int)analogRead(A0)
+const CAST_TYPES = [
+  "int",
+  "long",
+  "float",
+  "double",
+  "byte",
+  "char",
+  "bool",
+  "boolean",
+  "unsigned",
+  "short",
+  "word",
+  "uint8_t",
+  "int16_t",
+  "uint16_t",
+  "int32_t",
+  "uint32_t",
+];
+
+const BINARY_PRECEDENCE: { [operator: string]: number } = {
+  "||": 1,
+  "&&": 2,
+  "|": 3,
+  "^": 4,
+  "&": 5,
+  "==": 6,
+  "!=": 6,
+  "<": 7,
+  "<=": 7,
+  ">": 7,
+  ">=": 7,
+  "<<": 8,
+  ">>": 8,
+  "+": 9,
+  "-": 9,
+  "*": 10,
+  "/": 10,
+  "%": 10,
+};
+
+const ASSIGNMENT_OPERATORS = [
+  "=",
+  "+=",
+  "-=",
+  "*=",
+  "/=",
+  "%=",
+  "&=",
+  "|=",
+  "^=",
+  "<<=",
+  ">>=",
+];
+
+/**
+ * Splits the code into tokens and drops the comments.
+ */
+export const tokenize = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (char === "\n") {
+      line += 1;
+      i += 1;
+      continue;
+    }
+
+    if (/\s/.test(char)) {
+      i += 1;
+      continue;
+    }
+
+    if (code.startsWith("//", i)) {
+      while (i < code.length && code[i] !== "\n") i += 1;
+      continue;
+    }
+
+    if (code.startsWith("/*", i)) {
+      const end = code.indexOf("*/", i + 2);
+      const comment = code.slice(i, end === -1 ? code.length : end + 2);
+      line += comment.split("\n").length - 1;
+      i += comment.length;
+      continue;
+    }
+
+    if (char === "#") {
+      let end = i;
+      // Directives can continue on the next line with a backslash
+      while (end < code.length && code[end] !== "\n") {
+        end += code[end] === "\\" && code[end + 1] === "\n" ? 2 : 1;
+      }
+      const directive = code.slice(i, end);
+      tokens.push({
+        type: "directive",
+        value: directive
+          .replace(/\/\/.*$/, "")
+          .replace(/\\\n/g, " ")
+          .trim(),
+        line,
+      });
+      line += directive.split("\n").length - 1;
+      i = end;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char && code[end] !== "\n") {
+        end += code[end] === "\\" ? 2 : 1;
+      }
+      tokens.push({
+        type: char === '"' ? "string" : "char",
+        value: unescape(code.slice(i + 1, end)),
+        line,
+      });
+      i = end + 1;
+      continue;
+    }
+
+    const number = code
+      .slice(i)
+      .match(
+        /^(0[xX][0-9a-fA-F]+|0[bB][01]+|(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?)[uUlLfF]*/
+      );
+    if (
+      number &&
+      /[\d.]/.test(char) &&
+      (char !== "." || /\d/.test(code[i + 1]))
+    ) {
+      tokens.push({ type: "number", value: number[0], line });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = code.slice(i).match(/^[A-Za-z_]\w*/);
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0], line });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => code.startsWith(op, i)) || char;
+    tokens.push({ type: "operator", value: operator, line });
+    i += operator.length;
+  }
+
+  return tokens;
+};
+
+const unescape = (text: string) =>
+  text.replace(/\\(.)/g, (_match, escaped: string) =>
+    escaped === "n" ? "\n" : escaped === "t" ? "\t" : escaped
+  );
+
+/**
+ * Turns a number token into a number, ie 0x27, 0b101, 1000UL and 2.5f
+ */
+export const parseNumber = (text: string) => {
+  if (/^0[xX]/.test(text)) {
+    return parseInt(text.replace(/[uUlL]+$/, ""), 16);
+  }
+
+  const value = text.replace(/[uUlLfF]+$/, "");
+  if (/^0[bB]/.test(value)) {
+    return parseInt(value.slice(2), 2);
+  }
+
+  return parseFloat(value);
+};
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseProgram(): SketchProgram {
+    const program: SketchProgram = {
+      includes: [],
+      defines: [],
+      globals: [],
+      functions: [],
+      unsupported: [],
+    };
+
+    while (!this.isEnd()) {
+      const token = this.peek();
+      if (token.type === "directive") {
+        this.position += 1;
+        this.parseDirective(token, program);
+        continue;
+      }
+
+      const start = this.position;
+      try {
+        this.parseTopLevel(program);
+      } catch (e) {
+        if (!(e instanceof SketchSyntaxError)) throw e;
+        this.position = start;
+        program.unsupported.push({
+          text: this.skipStatement(),
+          line: token.line,
+        });
+      }
+    }
+
+    return program;
+  }
+
+  private parseDirective(token: Token, program: SketchProgram) {
+    const include = token.value.match(/^#\s*include\s*[<"]([^>"]+)[>"]/);
+    if (include) {
+      program.includes.push({ header: include[1], line: token.line });
+      return;
+    }
+
+    const define = token.value.match(/^#\s*define\s+([A-Za-z_]\w*)(\s+(.*))?$/);
+    if (define) {
+      let value: Expression | undefined;
+      if (define[3]) {
+        try {
+          value = new Parser(tokenize(define[3])).parseStandaloneExpression(
+            token.line
+          );
+        } catch (e) {
+          if (!(e instanceof SketchSyntaxError)) throw e;
+        }
+      }
+      program.defines.push({ name: define[1], value, line: token.line });
+      return;
+    }
+
+    program.unsupported.push({ text: token.value, line: token.line });
+  }
+
+  private parseTopLevel(program: SketchProgram) {
+    const line = this.peek().line;
+    if (this.match(";")) {
+      return;
+    }
+
+    const type = this.parseType();
+    if (!type) {
+      throw new SketchSyntaxError("Expected a variable or a function", line);
+    }
+
+    const name = this.expectIdentifier();
+    if (this.peek().value === "(" && this.isFunctionDefinition()) {
+      const params = this.parseParams();
+      if (this.match(";")) {
+        // A function prototype
+        return;
+      }
+      program.functions.push({
+        returnType: type.type,
+        name,
+        params,
+        body: this.parseBlock(),
+        line,
+      });
+      return;
+    }
+
+    program.globals.push(...this.parseDeclarators(type, name, line));
+  }
+
+  // void blink() { and int add(int a, int b) { are functions, Servo s(9); is not
+  private isFunctionDefinition() {
+    let depth = 0;
+    for (let i = this.position; i < this.tokens.length; i += 1) {
+      const value = this.tokens[i].value;
+      if (value === "(") depth += 1;
+      if (value === ")") depth -= 1;
+      if (depth === 0) {
+        const next = this.tokens[i + 1]?.value;
+        if (next !== "{" && next !== ";") {
+          return false;
+        }
+        const params = this.tokens.slice(this.position + 1, i);
+        return (
+          next === "{" ||
+          params.length === 0 ||
+          (params[0].type === "identifier" &&
+            (params.length === 1 || params[1].type === "identifier"))
+        );
+      }
+    }
+    return false;
+  }
+
+  private parseParams() {
+    this.expect("(");
+    const params: string[] = [];
+    while (!this.isEnd() && this.peek().value !== ")") {
+      params.push(this.next().value);
+    }
+    this.expect(")");
+    return params.join(" ");
+  }
+
+  parseStandaloneExpression(line: number) {
+    const expression = this.parseExpression();
+    if (!this.isEnd()) {
+      throw new SketchSyntaxError("Expected the end of the expression", line);
+    }
+    return expression;
+  }
+
+  private parseBlock(): Statement[] {
+    this.expect("{");
+    const statements: Statement[] = [];
+    while (!this.isEnd() && this.peek().value !== "}") {
+      statements.push(...this.parseStatementSafely());
+    }
+    this.expect("}");
+    return statements;
+  }
+
+  // A block or a single statement, ie if (a) b(); or if (a) { b(); }
+  private parseBody(): Statement[] {
+    if (this.peek().value === "{") {
+      return this.parseBlock();
+    }
+
+    return this.parseStatementSafely();
+  }
+
+  private parseStatementSafely(): Statement[] {
+    const start = this.position;
+    const line = this.peek().line;
+    try {
+      return this.parseStatement();
+    } catch (e) {
+      if (!(e instanceof SketchSyntaxError)) throw e;
+      this.position = start;
+      return [{ kind: "unsupported", text: this.skipStatement(), line }];
+    }
+  }
+
+  private parseStatement(): Statement[] {
+    const token = this.peek();
+    const line = token.line;
+
+    if (token.type === "directive") {
+      this.position += 1;
+      return [{ kind: "unsupported", text: token.value, line }];
+    }
+
+    if (this.match(";")) {
+      return [];
+    }
+
+    if (token.value === "{") {
+      return this.parseBlock();
+    }
+
+    if (this.match("if")) {
+      this.expect("(");
+      const condition = this.parseExpression();
+      this.expect(")");
+      const then = this.parseBody();
+      const otherwise = this.match("else") ? this.parseBody() : undefined;
+      return [{ kind: "if", condition, then, otherwise, line }];
+    }
+
+    if (this.match("while")) {
+      this.expect("(");
+      const condition = this.parseExpression();
+      this.expect(")");
+      return [{ kind: "while", condition, body: this.parseBody(), line }];
+    }
+
+    if (this.match("for")) {
+      this.expect("(");
+      const init =
+        this.peek().value === ";" ? undefined : this.parseSimpleStatement();
+      this.expect(";");
+      const condition =
+        this.peek().value === ";" ? undefined : this.parseExpression();
+      this.expect(";");
+      const update =
+        this.peek().value === ")" ? undefined : this.parseExpression();
+      this.expect(")");
+      return [
+        { kind: "for", init, condition, update, body: this.parseBody(), line },
+      ];
+    }
+
+    if (this.match("return")) {
+      const value =
+        this.peek().value === ";" ? undefined : this.parseExpression();
+      this.expect(";");
+      return [{ kind: "return", value, line }];
+    }
+
+    if (token.value === "do") {
+      // Skip the body and the while (...); after it
+      const text = `${this.skipStatement()} ${this.skipStatement()}`;
+      return [{ kind: "unsupported", text, line }];
+    }
+
+    if (token.type === "identifier" && KEYWORDS.includes(token.value)) {
+      return [{ kind: "unsupported", text: this.skipStatement(), line }];
+    }
+
+    const statement = this.parseSimpleStatement();
+    this.expect(";");
+    return [statement];
+  }
+
+  // A declaration or an expression without the semicolon
+  private parseSimpleStatement(): Statement {
+    const line = this.peek().line;
+    const start = this.position;
+    const type = this.parseType();
+    if (type && this.peek().type === "identifier") {
+      const name = this.expectIdentifier();
+      const declarations = this.parseDeclarators(type, name, line, false);
+      if (declarations.length !== 1) {
+        throw new SketchSyntaxError("Only one variable can be declared", line);
+      }
+      return declarations[0];
+    }
+
+    this.position = start;
+    return { kind: "expression", expression: this.parseExpression(), line };
+  }
+
+  private parseDeclarators(
+    type: { type: string; isConst: boolean },
+    firstName: string,
+    line: number,
+    endWithSemicolon = true
+  ): Declaration[] {
+    const declarations: Declaration[] = [];
+    let name = firstName;
+    while (true) {
+      if (this.peek().value === "[" || this.peek().value === "*") {
+        throw new SketchSyntaxError("Arrays are not supported", line);
+      }
+
+      const declaration: Declaration = {
+        kind: "declaration",
+        type: type.type,
+        isConst: type.isConst,
+        name,
+        line,
+      };
+      if (this.match("=")) {
+        declaration.value = this.parseAssignment();
+      } else if (this.match("(")) {
+        declaration.args = this.parseArguments();
+      }
+      declarations.push(declaration);
+
+      if (!this.match(",")) break;
+      name = this.expectIdentifier();
+    }
+
+    if (endWithSemicolon) {
+      this.expect(";");
+    }
+    return declarations;
+  }
+
+  // unsigned long, const int, String, Servo and LiquidCrystal_I2C are types
+  private parseType(): { type: string; isConst: boolean } | undefined {
+    const start = this.position;
+    const words: string[] = [];
+    while (
+      this.peek().type === "identifier" &&
+      !KEYWORDS.includes(this.peek().value)
+    ) {
+      words.push(this.next().value);
+    }
+
+    // The last word is the name of the variable or the function
+    if (words.length < 2) {
+      this.position = start;
+      return undefined;
+    }
+    this.position -= 1;
+
+    const typeWords = words.slice(0, -1);
+    const type = typeWords.filter(
+      (word) => !["const", "static", "volatile"].includes(word)
+    );
+
+    return {
+      type: type.length > 0 ? type.join(" ") : "int",
+      isConst: typeWords.includes("const"),
+    };
+  }
+
+  private parseExpression(): Expression {
+    const expression = this.parseAssignment();
+    if (this.peek().value === ",") {
+      throw new SketchSyntaxError(
+        "The comma operator is not supported",
+        expression.line
+      );
+    }
+    return expression;
+  }
+
+  private parseAssignment(): Expression {
+    const left = this.parseBinary(1);
+    const operator = this.peek().value;
+    if (
+      this.peek().type === "operator" &&
+      ASSIGNMENT_OPERATORS.includes(operator)
+    ) {
+      if (left.kind !== "identifier") {
+        throw new SketchSyntaxError(
+          "Only variables can be assigned",
+          left.line
+        );
+      }
+      this.position += 1;
+      return {
+        kind: "assign",
+        operator,
+        target: left.name,
+        value: this.parseAssignment(),
+        line: left.line,
+      };
+    }
+
+    if (operator === "?") {
+      throw new SketchSyntaxError("The ? operator is not supported", left.line);
+    }
+
+    return left;
+  }
+
+  private parseBinary(minPrecedence: number): Expression {
+    let left = this.parseUnary();
+    while (true) {
+      const token = this.peek();
+      const precedence =
+        token.type === "operator" ? BINARY_PRECEDENCE[token.value] : undefined;
+      if (precedence === undefined || precedence < minPrecedence) {
+        return left;
+      }
+      this.position += 1;
+      const right = this.parseBinary(precedence + 1);
+      left = {
+        kind: "binary",
+        operator: token.value,
+        left,
+        right,
+        line: token.line,
+      };
+    }
+  }
+
+  private parseUnary(): Expression {
+    const token = this.peek();
+    if (
+      token.type === "operator" &&
+      ["!", "-", "+", "~"].includes(token.value)
+    ) {
+      this.position += 1;
+      return {
+        kind: "unary",
+        operator: token.value,
+        argument: this.parseUnary(),
+        line: token.line,
+      };
+    }
+
+    if (token.type === "operator" && ["++", "--"].includes(token.value)) {
+      this.position += 1;
+      return {
+        kind: "update",
+        operator: token.value as "++" | "--",
+        target: this.expectIdentifier(),
+        line: token.line,
+      };
+    }
+
+    // Casts do not change what the blocks do
+    if (token.value === "(" && this.isCast()) {
+      while (this.next().value !== ")");
+      return this.parseUnary();
+    }
+
+    return this.parsePostfix();
+  }
+
+  private isCast() {
+    let i = this.position + 1;
+    while (
+      this.tokens[i]?.type === "identifier" &&
+      CAST_TYPES.includes(this.tokens[i].value)
+    ) {
+      i += 1;
+    }
+    return i > this.position + 1 && this.tokens[i]?.value === ")";
+  }
+
+  private parsePostfix(): Expression {
+    const expression = this.parsePrimary();
+    const token = this.peek();
+    if (token.type === "operator" && ["++", "--"].includes(token.value)) {
+      if (expression.kind !== "identifier") {
+        throw new SketchSyntaxError(
+          "Only variables can be changed",
+          token.line
+        );
+      }
+      this.position += 1;
+      return {
+        kind: "update",
+        operator: token.value as "++" | "--",
+        target: expression.name,
+        line: token.line,
+      };
+    }
+
+    return expression;
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.next();
+    const line = token.line;
+
+    if (token.type === "number") {
+      return { kind: "number", value: parseNumber(token.value), line };
+    }
+
+    if (token.type === "string" || token.type === "char") {
+      let value = token.value;
+      // "Hello " "World" is one string in C++
+      while (this.peek().type === "string") {
+        value += this.next().value;
+      }
+      return { kind: "string", value, line };
+    }
+
+    if (token.value === "(") {
+      const expression = this.parseExpression();
+      this.expect(")");
+      return expression;
+    }
+
+    if (token.type === "identifier" && !KEYWORDS.includes(token.value)) {
+      let name = token.value;
+      while (this.peek().value === "." || this.peek().value === "::") {
+        this.position += 1;
+        name += "." + this.expectIdentifier();
+      }
+
+      if (this.match("(")) {
+        return {
+          kind: "call",
+          callee: name,
+          args: this.parseArguments(),
+          line,
+        };
+      }
+
+      if (this.peek().value === "[") {
+        throw new SketchSyntaxError("Arrays are not supported", line);
+      }
+
+      return { kind: "identifier", name, line };
+    }
+
+    if (token.value === "true" || token.value === "false") {
+      return { kind: "identifier", name: token.value, line };
+    }
+
+    throw new SketchSyntaxError(`Unexpected ${token.value}`, line);
+  }
+
+  // The arguments after the opening bracket
+  private parseArguments(): Expression[] {
+    const args: Expression[] = [];
+    if (this.match(")")) {
+      return args;
+    }
+
+    do {
+      args.push(this.parseAssignment());
+    } while (this.match(","));
+    this.expect(")");
+    return args;
+  }
+
+  /**
+   * Skips to the end of the statement, or the end of its block, and
+   * returns the code that was skipped.
+   */
+  private skipStatement(): string {
+    const start = this.position;
+    let depth = 0;
+    while (!this.isEnd()) {
+      const value = this.peek().value;
+      if (depth === 0 && value === "}" && this.position > start) {
+        break;
+      }
+      this.position += 1;
+      if (["(", "[", "{"].includes(value)) depth += 1;
+      if ([")", "]", "}"].includes(value)) depth -= 1;
+      if (depth <= 0 && (value === ";" || value === "}")) {
+        // An else belongs to the if that was skipped
+        if (value === "}" && this.peek().value === "else") continue;
+        break;
+      }
+    }
+
+    return this.tokens
+      .slice(start, Math.max(this.position, start + 1))
+      .map((t) => (t.type === "string" ? `"${t.value}"` : t.value))
+      .join(" ");
+  }
+
+  private isEnd() {
+    return this.position >= this.tokens.length;
+  }
+
+  private peek(): Token {
+    return (
+      this.tokens[this.position] || {
+        type: "operator",
+        value: "",
+        line: this.tokens[this.tokens.length - 1]?.line || 1,
+      }
+    );
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.position += 1;
+    return token;
+  }
+
+  private match(value: string) {
+    if (this.peek().value === value && this.peek().type !== "string") {
+      this.position += 1;
+      return true;
+    }
+    return false;
+  }
+
+  private expect(value: string) {
+    const token = this.peek();
+    if (!this.match(value)) {
+      throw new SketchSyntaxError(
+        `Expected ${value} but found ${token.value || "the end"}`,
+        token.line
+      );
+    }
+  }
+
+  private expectIdentifier() {
+    const token = this.next();
+    if (token.type !== "identifier" || KEYWORDS.includes(token.value)) {
+      throw new SketchSyntaxError(
+        `Expected a name but found ${token.value}`,
+        token.line
+      );
+    }
+    return token.value;
+  }
+}
+
+/**
+ * Parses an Arduino sketch.
+ */
+export const parseSketch = (code: string): SketchProgram =>
+  new Parser(tokenize(code)).parseProgram();
@@ -1,15 +1,21 @@
 import updateForLoopText from "./actions/updateForLoopText";
 import type { WorkspaceSvg } from "blockly";
-import _ from "lodash";
 import Blockly from "blockly";
+import { get } from "svelte/store";
 
 import codeStore from "../../stores/code.store";
 import frameStore from "../../stores/frame.store";
-import { getArduinoCode, getWorkspace } from "./helpers/workspace.helper";
+import selectedBlockStore from "../../stores/selected-block.store";
+import {
+  getArduinoCodeWithSourceMap,
+  getWorkspace,
+} from "./helpers/workspace.helper";
 
 import { getAllBlocks } from "./helpers/block.helper";
+import { getLibraryManifest } from "./generators/library-manifest";
 import { transformBlock } from "./transformers/block.transformer";
 import { transformEvent } from "./transformers/event.transformer";
+import { transformVariable } from "./transformers/variables.transformer";
 import { getAllVariables } from "./helpers/variable.helper";
 import { deleteUnusedVariables } from "./actions/deleteUnusedVariables";
 import { saveSensorSetupBlockData } from "./actions/saveSensorSetupBlockData";
@@ -20,15 +26,17 @@ import { disableSetupBlockWithMultiplePinOutsSamePins } from "./actions/disable/
 import { disableDuplicateSetupBlocks } from "./actions/disable/disableDuplicateSetupBlock";
 import { disableBlockThatRequiredToBeInArduinoLoopSetupOrFunction } from "./actions/disable/disableBlockThatRequiredToBeInArduinoLoopSetupOrFunction";
 import { disableDuplicatePinBlocks } from "./actions/disable/disableDuplicatePinBlocks";
+import { disableI2cBlocksWithSameAddress } from "./actions/disable/disableI2cBlocksWithSameAddress";
 import { updater } from "./updater";
 import { disableSensorReadBlocksWithWrongPins } from "./actions/disable/disableSensorReadBlocksWithWrongPins";
 import { disableBlocksThatNeedASetupBlock } from "./actions/disable/disableBlocksThatNeedASetupBlock";
 import { ActionType, DisableBlock, EnableBlock } from "./actions/actions";
-import { eventToFrameFactory } from "../frames/event-to-frame.factory";
+import { generateFrames, resetFrames } from "../frames/frame-worker.client";
 import {
-  ArduinoComponentType,
-  type ArduinoFrameContainer,
-} from "../frames/arduino.frame";
+  applyLiveSensorInputs,
+  type LiveSensorInput,
+} from "../frames/live-sensor-input";
+import { ArduinoComponentType } from "../frames/arduino.frame";
 import type { MicroControllerType } from "../microcontroller/microcontroller";
 import { getBoardType } from "./helpers/get-board.helper";
 import { disableBlocksWithInvalidPinNumbers } from "./actions/disable/disableBlocksWithInvalidPinNumbers";
@@ -40,22 +48,31 @@ import { updateWhichComponent } from "./actions/updateWhichComponent";
 import { updateFastLedSetAllColorsUpdateBlock } from "./actions/fastLedSetAllColorsUpdateBlock";
 import { updateCommentIsButtonPressedBlock } from "./actions/updateCommentForButtonBlock";
 
-// This is the current frame list
-// We use this diff the new frame list so that we only update when things change
-let currentFrameContainter: ArduinoFrameContainer = undefined;
-
 let settings: Settings = undefined;
 
+// Sensor values the user changed while the simulation is running.
+// Changing the blocks starts the simulation over without them.
+let liveSensorInputs: LiveSensorInput[] = [];
+
+// The code with the block each line came from and the libraries it needs
+const generateCode = () => {
+  const generated = getArduinoCodeWithSourceMap();
+  return { ...generated, libraries: getLibraryManifest(generated.code) };
+};
+
 settingStore.subscribe((newSettings) => {
   settings = newSettings;
   frameStore.update((frameContainer) => {
-    const newFrameContainer = _.cloneDeep(frameContainer);
+    const newFrameContainer = { ...frameContainer };
     //updating the new board
     newFrameContainer.board = settings.boardType;
     // code might have to change if the board type changes
     // only run if a workspace exists to generate code from
     if (getWorkspace()) {
-      codeStore.set({ code: getArduinoCode(), boardType: settings.boardType });
+      codeStore.set({
+        ...generateCode(),
+        boardType: settings.boardType,
+      });
     }
     return newFrameContainer;
   });
@@ -99,6 +116,7 @@ export const createFrames = async (blocklyEvent) => {
     ...disableDuplicateSetupBlocks(event),
     ...disableBlockThatRequiredToBeInArduinoLoopSetupOrFunction(event),
     ...disableDuplicatePinBlocks(event),
+    ...disableI2cBlocksWithSameAddress(event),
 
     ...disableSensorReadBlocksWithWrongPins(event),
     ...disableBlocksThatNeedASetupBlock(event),
@@ -124,6 +142,7 @@ export const createFrames = async (blocklyEvent) => {
     ...disableDuplicateSetupBlocks(event2),
     ...disableBlockThatRequiredToBeInArduinoLoopSetupOrFunction(event2),
     ...disableDuplicatePinBlocks(event2),
+    ...disableI2cBlocksWithSameAddress(event2),
 
     ...disableSensorReadBlocksWithWrongPins(event2),
     ...disableBlocksThatNeedASetupBlock(event2),
@@ -136,13 +155,13 @@ export const createFrames = async (blocklyEvent) => {
   );
 
   if (secondActionPass.filter((a) => a.stopCompiling).length >= 1) {
-    currentFrameContainter = {
+    resetFrames();
+    frameStore.set({
       error: true,
       frames: [],
       board: event.microController,
       settings,
-    };
-    frameStore.set(currentFrameContainter);
+    });
     codeStore.resetCode(microControllerType);
     return;
   }
@@ -180,16 +199,39 @@ export const createFrames = async (blocklyEvent) => {
     microControllerType
   );
 
-  const newFrameContainer = eventToFrameFactory(refreshEvent, settings);
+  liveSensorInputs = [];
+  // The frames are made in a worker so blockly does not freeze with big sketches
+  generateFrames(refreshEvent, settings);
+  codeStore.set({
+    ...generateCode(),
+    boardType: microControllerType,
+  });
+};
 
-  if (
-    currentFrameContainter === undefined ||
-    JSON.stringify(newFrameContainer) !== JSON.stringify(currentFrameContainter)
-  ) {
-    currentFrameContainter = newFrameContainer;
-    frameStore.set(currentFrameContainter);
+/**
+ * Rebuilds the frames with the new sensor value, the frames before the
+ * input's iteration are reused.
+ */
+export const addLiveSensorInput = (input: LiveSensorInput) => {
+  const frameContainer = get(frameStore);
+  if (frameContainer.error || frameContainer.frames.length === 0) {
+    return;
   }
-  codeStore.set({ code: getArduinoCode(), boardType: microControllerType });
+
+  liveSensorInputs = [...liveSensorInputs, input];
+  const microControllerType = getBoardType() as MicroControllerType;
+  const event = {
+    blocks: applyLiveSensorInputs(
+      getAllBlocks().map(transformBlock),
+      liveSensorInputs
+    ),
+    variables: getAllVariables().map(transformVariable),
+    type: "live_sensor_input",
+    blockId: input.blockId,
+    microController: microControllerType,
+  };
+
+  generateFrames(event, settings);
 };
 
 const enableBlocks = (actions: DisableBlock[]) => {
@@ -210,6 +252,16 @@ const enableBlocks = (actions: DisableBlock[]) => {
   enableActions.forEach((a) => updater(a));
 };
 
+// Lets the code view highlight the lines of the selected block
+const updateSelectedBlock = (blocklyEvent: Blockly.Events.Abstract) => {
+  if (!(blocklyEvent instanceof Blockly.Events.Selected)) {
+    return;
+  }
+
+  selectedBlockStore.set(blocklyEvent.newElementId || null);
+};
+
 export const addListener = (workspace: WorkspaceSvg) => {
   workspace.addChangeListener(createFrames);
+  workspace.addChangeListener(updateSelectedBlock);
 };
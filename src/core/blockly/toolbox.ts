@@ -31,6 +31,7 @@ import passiveBuzzerXMLString from "../../blocks/passivebuzzer/toolbox";
 import stepperMotorXMLString from "../../blocks/steppermotor/toolbox";
 import digitalDisplayXMLString from "../../blocks/digit4display/toolbox";
 import joystickXMLString from "../../blocks/joystick/toolbox";
+import oledXMLString from "../../blocks/oled/toolbox";
 
 import thermistorXMLString from "../../blocks/thermistor/toolbox";
 
@@ -121,6 +122,7 @@ const defaultToolbox: ToolBoxEntries[] = [
       { name: "Led", xml: ledXMLString },
       { name: "Led Matrix", xml: ledMatrixXMLString },
       { name: "Motor", xml: motorXMLString },
+      { name: "OLED", xml: oledXMLString },
       //   { name: "Neo Pixel", xml: neoPixelXMLString },
       { name: "Passive Buzzer", xml: passiveBuzzerXMLString },
       { name: "Pins", xml: writePinXMLString },
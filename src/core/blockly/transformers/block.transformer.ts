@@ -39,7 +39,10 @@ const getFieldValues = (block: BlockSvg): FieldValue[] => {
         .filter(
           (field) =>
             field.EDITABLE ||
-            (block.type === "procedures_callnoreturn" && field.name === "NAME")
+            (["procedures_callnoreturn", "procedures_callreturn"].includes(
+              block.type
+            ) &&
+              field.name === "NAME")
         )
         .map((field) => {
           let validOptions = undefined;
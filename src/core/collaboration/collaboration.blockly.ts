@@ -0,0 +1,159 @@
+import Blockly from "blockly";
+import type { BlockSvg, WorkspaceSvg } from "blockly";
+import { getConvexClient } from "../../stores/convex.store";
+import collaboratorsStore from "../../stores/collaborators.store";
+import { CollaborationSession } from "./collaboration.session";
+import { createConvexTransport } from "./collaboration.convex";
+import {
+  eventJsonToOperation,
+  type CollaborationTransport,
+  type Collaborator,
+  type RemoteOperation,
+} from "./collaboration.operations";
+
+// Events made while replaying a remote operation have this group so they
+// are not sent back to the server
+const REMOTE_EVENT_GROUP = "collaboration_remote";
+
+const REMOTE_SELECTED_CLASS = "blocklyRemoteSelected";
+
+// Lets the other collaborators know this client is still editing
+const PRESENCE_INTERVAL_MS = 10 * 1000;
+
+let session: CollaborationSession | undefined;
+let transport: CollaborationTransport | undefined;
+let selectedBlockId: string | null = null;
+let stopListening: (() => void) | undefined;
+
+/**
+ * Starts sharing the workspace's changes with everyone editing the project.
+ * startSeq is the last operation already in the project's saved xml.
+ * Without canEdit the workspace only follows the other collaborators.
+ */
+export const startCollaboration = (
+  workspace: WorkspaceSvg,
+  projectId: string,
+  startSeq: number,
+  canEdit = true
+) => {
+  stopCollaboration();
+
+  const clientId = crypto.randomUUID();
+  const currentTransport = createConvexTransport(
+    getConvexClient(),
+    projectId,
+    clientId
+  );
+  const currentSession = new CollaborationSession(
+    currentTransport,
+    clientId,
+    startSeq,
+    (operation) => applyRemoteOperation(workspace, operation)
+  );
+  currentSession.start();
+
+  const listener = (event: Blockly.Events.Abstract) => {
+    if (event.group === REMOTE_EVENT_GROUP) {
+      return;
+    }
+
+    if (event instanceof Blockly.Events.Selected) {
+      selectedBlockId = event.newElementId || null;
+      currentTransport.updatePresence(selectedBlockId).catch(console.error);
+      return;
+    }
+
+    if (event.isUiEvent || !canEdit) {
+      return;
+    }
+
+    const operation = eventJsonToOperation(event.toJson() as any);
+    if (operation) {
+      currentSession.addLocalOperation(operation);
+    }
+  };
+  workspace.addChangeListener(listener);
+
+  const stopPresence = currentTransport.subscribePresence((collaborators) => {
+    collaboratorsStore.set(collaborators);
+    showRemoteSelections(workspace, collaborators);
+  });
+  currentTransport.updatePresence(selectedBlockId).catch(console.error);
+  const presenceInterval = setInterval(() => {
+    currentTransport.updatePresence(selectedBlockId).catch(console.error);
+  }, PRESENCE_INTERVAL_MS);
+
+  session = currentSession;
+  transport = currentTransport;
+  stopListening = () => {
+    workspace.removeChangeListener(listener);
+    stopPresence();
+    clearInterval(presenceInterval);
+    showRemoteSelections(workspace, []);
+  };
+};
+
+export const stopCollaboration = () => {
+  if (!session || !transport || !stopListening) {
+    return;
+  }
+
+  session.stop();
+  stopListening();
+  transport.leave().catch(console.error);
+  collaboratorsStore.set([]);
+  session = undefined;
+  transport = undefined;
+  stopListening = undefined;
+};
+
+/**
+ * The last operation the workspace has, saved with the project so people
+ * opening it later only replay the operations after it.
+ */
+export const getCollaborationSeq = () => {
+  return session ? session.seq : undefined;
+};
+
+const applyRemoteOperation = (
+  workspace: WorkspaceSvg,
+  operation: RemoteOperation
+) => {
+  const event = Blockly.Events.fromJson(JSON.parse(operation.event), workspace);
+  Blockly.Events.setGroup(REMOTE_EVENT_GROUP);
+  try {
+    event.run(true);
+  } finally {
+    Blockly.Events.setGroup(false);
+  }
+};
+
+const showRemoteSelections = (
+  workspace: WorkspaceSvg,
+  collaborators: Collaborator[]
+) => {
+  workspace.getAllBlocks(false).forEach((block) => {
+    const root = (block as BlockSvg).getSvgRoot();
+    if (root.classList.contains(REMOTE_SELECTED_CLASS)) {
+      root.classList.remove(REMOTE_SELECTED_CLASS);
+      root.style.filter = "";
+    }
+  });
+
+  collaborators.forEach((collaborator) => {
+    if (!collaborator.selectedBlockId) {
+      return;
+    }
+
+    const block = workspace.getBlockById(
+      collaborator.selectedBlockId
+    ) as BlockSvg;
+    if (!block) {
+      return;
+    }
+
+    const root = block.getSvgRoot();
+    root.classList.add(REMOTE_SELECTED_CLASS);
+    root.style.filter = `drop-shadow(0 0 4px ${collaborator.color})`;
+  });
+};
@@ -0,0 +1,47 @@
+import type { ConvexClient } from "../../stores/convex.store";
+import type {
+  CollaborationTransport,
+  Collaborator,
+  RemoteOperation,
+} from "./collaboration.operations";
+
+/**
+ * Sends the operations through convex/collaboration.ts.  Pointing the convex
+ * client at a local dev deployment (npx convex dev) is enough to try it with
+ * two browser tabs.
+ */
+export const createConvexTransport = (
+  client: ConvexClient,
+  projectId: string,
+  clientId: string
+): CollaborationTransport => {
+  return {
+    submit: (baseSeq, operations) =>
+      client.mutation("collaboration:submitOperations", {
+        projectId,
+        clientId,
+        baseSeq,
+        operations,
+      }),
+    subscribe: (afterSeq, onOperations) =>
+      client.subscribe(
+        "collaboration:getOperations",
+        { projectId, afterSeq },
+        (operations: RemoteOperation[] | null) => onOperations(operations || [])
+      ),
+    updatePresence: (selectedBlockId) =>
+      client.mutation("collaboration:updatePresence", {
+        projectId,
+        clientId,
+        selectedBlockId: selectedBlockId || undefined,
+      }),
+    subscribePresence: (onCollaborators) =>
+      client.subscribe(
+        "collaboration:getCollaborators",
+        { projectId },
+        (collaborators: Collaborator[] | null) =>
+          onCollaborators((collaborators || []).filter((c) => c.clientId !== clientId))
+      ),
+    leave: () => client.mutation("collaboration:leaveProject", { clientId }),
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * A Blockly event serialized so it can be sent to the other collaborators.
+ * Operations with the same key change the same thing, the last one the
+ * server accepted wins.
+ */
+export interface WorkspaceOperation {
+  type: string;
+  blockId?: string;
+  key: string;
+  // The Blockly event json
+  event: string;
+}
+
+/**
+ * An operation from the server log.  seq is the order the server accepted it.
+ */
+export interface RemoteOperation extends WorkspaceOperation {
+  seq: number;
+  clientId: string;
+}
+
+export interface SubmitResult {
+  results: Array<{ accepted: boolean; seq?: number }>;
+  latestSeq: number;
+}
+
+export interface Collaborator {
+  clientId: string;
+  userId: string;
+  name: string;
+  color: string;
+  selectedBlockId?: string;
+}
+
+/**
+ * How the session talks to the server, the convex transport is used in the
+ * app and tests use an in memory one.
+ */
+export interface CollaborationTransport {
+  submit(baseSeq: number, operations: WorkspaceOperation[]): Promise<SubmitResult>;
+  subscribe(
+    afterSeq: number,
+    onOperations: (operations: RemoteOperation[]) => void
+  ): () => void;
+  updatePresence(selectedBlockId: string | null): Promise<void>;
+  subscribePresence(
+    onCollaborators: (collaborators: Collaborator[]) => void
+  ): () => void;
+  leave(): Promise<void>;
+}
+
+// The Blockly events that change the workspace
+const SHARED_EVENT_TYPES = [
+  "create",
+  "delete",
+  "change",
+  "move",
+  "var_create",
+  "var_delete",
+  "var_rename",
+];
+
+/**
+ * Turns the json of a Blockly event into an operation, returns undefined for
+ * events that are not shared like ui events.
+ */
+export const eventJsonToOperation = (json: {
+  type: string;
+  [key: string]: any;
+}): WorkspaceOperation | undefined => {
+  if (!SHARED_EVENT_TYPES.includes(json.type)) {
+    return undefined;
+  }
+
+  return {
+    type: json.type,
+    blockId: json.blockId,
+    key: operationKey(json),
+    event: JSON.stringify(json),
+  };
+};
+
+const operationKey = (json: { type: string; [key: string]: any }) => {
+  if (json.type.startsWith("var_")) {
+    return `var/${json.varId}`;
+  }
+
+  if (json.type === "change") {
+    return `${json.blockId}/${json.element}/${json.name || ""}`;
+  }
+
+  if (json.type === "move") {
+    return `${json.blockId}/move`;
+  }
+
+  // create and delete
+  return `${json.blockId}`;
+};
@@ -0,0 +1,195 @@
+import { describe, it, beforeEach, expect } from "vitest";
+
+import { CollaborationSession } from "./collaboration.session";
+import {
+  eventJsonToOperation,
+  type CollaborationTransport,
+  type RemoteOperation,
+  type WorkspaceOperation,
+} from "./collaboration.operations";
+
+/**
+ * Works like convex/collaboration.ts but operations are only sent to the
+ * clients when deliver is called so the tests control the timing.
+ */
+class FakeServer {
+  operations: RemoteOperation[] = [];
+  // Like MAX_OPERATIONS in convex/collaboration.ts
+  maxOperations = Infinity;
+  private listeners: Array<{
+    afterSeq: number;
+    onOperations: (operations: RemoteOperation[]) => void;
+  }> = [];
+
+  transport(clientId: string): CollaborationTransport {
+    return {
+      submit: async (baseSeq, operations) => this.submit(clientId, baseSeq, operations),
+      subscribe: (afterSeq, onOperations) => {
+        const listener = { afterSeq, onOperations };
+        this.listeners.push(listener);
+        return () => {
+          this.listeners = this.listeners.filter((l) => l !== listener);
+        };
+      },
+      updatePresence: async () => {},
+      subscribePresence: () => () => {},
+      leave: async () => {},
+    };
+  }
+
+  deliver() {
+    this.listeners.forEach((l) =>
+      l.onOperations(
+        this.operations
+          .filter((o) => o.seq > l.afterSeq)
+          .slice(0, this.maxOperations)
+      )
+    );
+  }
+
+  private submit(
+    clientId: string,
+    baseSeq: number,
+    operations: WorkspaceOperation[]
+  ) {
+    const deletedBlockIds = this.operations
+      .filter((o) => o.seq > baseSeq && o.clientId !== clientId)
+      .filter((o) => o.type === "delete")
+      .map((o) => o.blockId);
+
+    const results = operations.map((operation) => {
+      if (
+        operation.type !== "create" &&
+        deletedBlockIds.includes(operation.blockId)
+      ) {
+        return { accepted: false };
+      }
+
+      const seq = this.operations.length + 1;
+      this.operations.push({ ...operation, seq, clientId });
+      return { accepted: true, seq };
+    });
+
+    return { results, latestSeq: this.operations.length };
+  }
+}
+
+// A workspace that only has field values and blocks
+class FakeWorkspace {
+  fields = new Map<string, string>();
+  blocks = new Set<string>(["block1"]);
+
+  apply(operation: RemoteOperation) {
+    const json = JSON.parse(operation.event);
+    if (json.type === "delete") {
+      this.blocks.delete(json.blockId);
+      return;
+    }
+
+    if (!this.blocks.has(json.blockId)) {
+      throw new Error("block does not exist");
+    }
+    this.fields.set(operation.key, json.newValue);
+  }
+}
+
+const changeField = (workspace: FakeWorkspace, value: string) => {
+  const operation = eventJsonToOperation({
+    type: "change",
+    blockId: "block1",
+    element: "field",
+    name: "NUM",
+    newValue: value,
+  })!;
+  workspace.fields.set(operation.key, value);
+  return operation;
+};
+
+const deleteBlock = (workspace: FakeWorkspace) => {
+  workspace.blocks.delete("block1");
+  return eventJsonToOperation({ type: "delete", blockId: "block1" })!;
+};
+
+describe("collaboration session", () => {
+  let server: FakeServer;
+  let workspaceA: FakeWorkspace;
+  let workspaceB: FakeWorkspace;
+  let sessionA: CollaborationSession;
+  let sessionB: CollaborationSession;
+
+  beforeEach(() => {
+    server = new FakeServer();
+    workspaceA = new FakeWorkspace();
+    workspaceB = new FakeWorkspace();
+    sessionA = new CollaborationSession(server.transport("a"), "a", 0, (o) =>
+      workspaceA.apply(o)
+    );
+    sessionB = new CollaborationSession(server.transport("b"), "b", 0, (o) =>
+      workspaceB.apply(o)
+    );
+    sessionA.start();
+    sessionB.start();
+  });
+
+  it("should replay operations on the other client", async () => {
+    await sessionA.addLocalOperation(changeField(workspaceA, "5"));
+    server.deliver();
+
+    expect([...workspaceB.fields.values()]).toEqual(["5"]);
+    expect(sessionA.seq).toBe(1);
+    expect(sessionB.seq).toBe(1);
+  });
+
+  it("should end with the same value when two clients change the same field", async () => {
+    await sessionA.addLocalOperation(changeField(workspaceA, "1"));
+    await sessionB.addLocalOperation(changeField(workspaceB, "2"));
+    server.deliver();
+
+    expect([...workspaceA.fields.values()]).toEqual(["2"]);
+    expect([...workspaceB.fields.values()]).toEqual(["2"]);
+  });
+
+  it("should not replace a change the server has not answered yet", async () => {
+    await sessionA.addLocalOperation(changeField(workspaceA, "1"));
+
+    // B's change is being sent when A's change arrives
+    const submitting = sessionB.addLocalOperation(changeField(workspaceB, "2"));
+    server.deliver();
+    await submitting;
+    server.deliver();
+
+    expect([...workspaceA.fields.values()]).toEqual(["2"]);
+    expect([...workspaceB.fields.values()]).toEqual(["2"]);
+  });
+
+  it("should reject changes to a block another client deleted", async () => {
+    await sessionA.addLocalOperation(deleteBlock(workspaceA));
+    await sessionB.addLocalOperation(changeField(workspaceB, "2"));
+    server.deliver();
+
+    expect(server.operations.map((o) => o.type)).toEqual(["delete"]);
+    expect(workspaceB.blocks.has("block1")).toBeFalsy();
+    expect(workspaceA.fields.size).toBe(0);
+  });
+
+  it("should get the newer operations when the server sends only some at a time", async () => {
+    server.maxOperations = 2;
+    await sessionA.addLocalOperation(changeField(workspaceA, "1"));
+    await sessionA.addLocalOperation(changeField(workspaceA, "2"));
+    await sessionA.addLocalOperation(changeField(workspaceA, "3"));
+
+    server.deliver();
+    expect([...workspaceB.fields.values()]).toEqual(["2"]);
+    expect(sessionB.seq).toBe(2);
+
+    server.deliver();
+    expect([...workspaceB.fields.values()]).toEqual(["3"]);
+    expect(sessionB.seq).toBe(3);
+  });
+
+  it("should not share ui events", () => {
+    expect(
+      eventJsonToOperation({ type: "selected", newElementId: "block1" })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import type {
+  CollaborationTransport,
+  RemoteOperation,
+  WorkspaceOperation,
+} from "./collaboration.operations";
+
+/**
+ * Keeps one client's workspace in sync with the server's operation log.
+ *
+ * Local operations are sent in batches, one batch at a time.  Remote
+ * operations are applied in the order the server accepted them.  When two
+ * clients change the same thing the operation the server accepted last wins,
+ * so a remote operation is skipped if this client has a later or unsent
+ * operation with the same key.
+ */
+export class CollaborationSession {
+  // The last operation in the log this client has seen
+  private lastSeq: number;
+
+  // Operations not sent yet
+  private pending: WorkspaceOperation[] = [];
+
+  // Operations sent that the server has not answered yet
+  private inFlight: WorkspaceOperation[] | null = null;
+
+  // Remote operations waiting for the batch in flight to be answered
+  private incoming: RemoteOperation[] = [];
+
+  // The seq the server gave this client's latest operation for each key
+  private ownSeqByKey = new Map<string, number>();
+
+  private unsubscribe: (() => void) | undefined;
+
+  // The seq the subscription asked for the operations after
+  private subscribedSeq = 0;
+
+  constructor(
+    private transport: CollaborationTransport,
+    private clientId: string,
+    startSeq: number,
+    private applyOperation: (operation: RemoteOperation) => void
+  ) {
+    this.lastSeq = startSeq;
+  }
+
+  get seq() {
+    return this.lastSeq;
+  }
+
+  start() {
+    this.subscribedSeq = this.lastSeq;
+    this.unsubscribe = this.transport.subscribe(this.lastSeq, (operations) =>
+      this.receive(operations)
+    );
+  }
+
+  stop() {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = undefined;
+    }
+  }
+
+  addLocalOperation(operation: WorkspaceOperation) {
+    this.pending.push(operation);
+    return this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.inFlight || this.pending.length === 0) {
+      return;
+    }
+
+    const batch = this.pending;
+    this.inFlight = batch;
+    this.pending = [];
+
+    try {
+      const { results } = await this.transport.submit(this.lastSeq, batch);
+      results.forEach((result, i) => {
+        if (result.accepted && result.seq !== undefined) {
+          this.ownSeqByKey.set(batch[i].key, result.seq);
+        }
+      });
+    } catch (e) {
+      // Sent again with the next local operation
+      console.error("Failed to send collaboration operations", e);
+      this.pending = [...batch, ...this.pending];
+      this.inFlight = null;
+      return;
+    }
+
+    this.inFlight = null;
+    this.processIncoming();
+    await this.flush();
+  }
+
+  receive(operations: RemoteOperation[]) {
+    this.incoming.push(...operations);
+    this.processIncoming();
+  }
+
+  private processIncoming() {
+    // Until the server answers we don't know if the remote operations
+    // came before or after the ones in flight
+    if (this.inFlight) {
+      return;
+    }
+
+    const operations = [...this.incoming].sort((a, b) => a.seq - b.seq);
+    this.incoming = [];
+
+    for (const operation of operations) {
+      if (operation.seq <= this.lastSeq) {
+        continue;
+      }
+      this.lastSeq = operation.seq;
+
+      if (operation.clientId === this.clientId) {
+        continue;
+      }
+
+      if (this.pending.some((p) => p.key === operation.key)) {
+        continue;
+      }
+
+      if ((this.ownSeqByKey.get(operation.key) || 0) > operation.seq) {
+        continue;
+      }
+
+      try {
+        this.applyOperation(operation);
+      } catch (e) {
+        // The workspace already has the change or the block is gone
+        console.warn("Unable to apply collaboration operation", operation, e);
+      }
+    }
+
+    // The server only sends so many operations at once, asking for the ones
+    // after the last one seen gets the next ones and stops the old ones
+    // from being sent again
+    if (this.unsubscribe && this.lastSeq > this.subscribedSeq) {
+      this.stop();
+      this.start();
+    }
+  }
+}
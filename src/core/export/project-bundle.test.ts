@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  createProjectBundle,
+  findFunctionDeclarations,
+  toMainCpp,
+  toPlatformioIni,
+} from "./project-bundle";
+import { getBoardDefinition } from "../microcontroller/board-registry";
+import { getLibraryManifest } from "../blockly/generators/library-manifest";
+import { MicroControllerType } from "../microcontroller/microcontroller";
+import { readZipFile } from "../../helpers/read-zip-file";
+
+const code = `#include <Servo.h>
+Servo servo_6;
+
+void setup() {
+  servo_6.attach(6);
+}
+
+void loop() {
+  moveServo(90);
+  if (isReady()) {
+    delay(10);
+  }
+}
+
+void moveServo(double angle) {
+  servo_6.write(angle);
+}
+
+boolean isReady() {
+  return true;
+}
+`;
+
+describe("project bundle", () => {
+  it("should declare the functions that are not setup or loop", () => {
+    expect(findFunctionDeclarations(code)).toEqual([
+      "void moveServo(double angle);",
+      "boolean isReady();",
+    ]);
+  });
+
+  it("should turn the sketch into a main.cpp", () => {
+    const mainCpp = toMainCpp(code);
+
+    expect(mainCpp.startsWith(`#include <Arduino.h>
+#include <Servo.h>
+
+void moveServo(double angle);
+boolean isReady();
+Servo servo_6;`)).toBe(true);
+    expect(mainCpp.match(/#include <Servo.h>/g)).toHaveLength(1);
+  });
+
+  it("should write a platformio project for the board", () => {
+    const ini = toPlatformioIni(
+      getLibraryManifest(code),
+      getBoardDefinition(MicroControllerType.ARDUINO_MEGA)
+    );
+
+    expect(ini).toBe(`[env:megaatmega2560]
+platform = atmelavr
+board = megaatmega2560
+framework = arduino
+lib_deps =
+  Servo@1.2.1
+`);
+  });
+
+  it("should leave out platformio for boards without a platformio id", () => {
+    const board = {
+      ...getBoardDefinition(MicroControllerType.ARDUINO_UNO),
+      platformio: undefined,
+    };
+
+    expect(toPlatformioIni(getLibraryManifest(code), board)).toBeUndefined();
+  });
+
+  it("should zip the sketch, platformio project, readme and blocks", async () => {
+    const zip = createProjectBundle({
+      name: "Servo sweep",
+      code,
+      xml: "<xml></xml>",
+      board: getBoardDefinition(MicroControllerType.ARDUINO_UNO),
+      libraries: getLibraryManifest(code),
+      wiring: [{ component: "Servo", connection: "Signal", pin: "6" }],
+    });
+
+    const files = await readZipFile(await zip.arrayBuffer());
+
+    expect(Object.keys(files).sort()).toEqual([
+      "README.md",
+      "platformio.ini",
+      "project.xml",
+      "sketch/sketch.ino",
+      "sketch/sketch.yaml",
+      "src/main.cpp",
+    ]);
+    expect(files["sketch/sketch.ino"]).toBe(code);
+    expect(files["project.xml"]).toBe("<xml></xml>");
+    expect(files["sketch/sketch.yaml"]).toContain("fqbn: arduino:avr:uno");
+    expect(files["README.md"]).toContain("# Servo sweep");
+    expect(files["README.md"]).toContain("| Servo | Signal | 6 |");
+    expect(files["README.md"]).toContain("- Servo 1.2.1");
+  });
+});
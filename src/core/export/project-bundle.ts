@@ -0,0 +1,176 @@
+import type { BoardDefinition } from "../microcontroller/microcontroller";
+import {
+  toSketchYaml,
+  type LibraryManifest,
+} from "../blockly/generators/library-manifest";
+import { wiringTableToMarkdown, type WiringRow } from "./wiring-table";
+import { writeZipFile } from "../../helpers/write-zip-file";
+
+export interface ProjectBundle {
+  name: string;
+  code: string;
+  xml: string;
+  board: BoardDefinition;
+  libraries: LibraryManifest;
+  wiring: WiringRow[];
+}
+
+// PlatformIO platforms by the arduino-cli platform in the fqbn
+const PLATFORMIO_PLATFORMS: { [platform: string]: string } = {
+  "arduino:avr": "atmelavr",
+};
+
+const FUNCTION_REGEX =
+  /^([A-Za-z_][\w<>:]*(?:\s+[A-Za-z_][\w<>:]*)*[\s*&]+)([A-Za-z_]\w*)\s*\(([^;{}]*)\)\s*\{/gm;
+
+const NOT_FUNCTIONS = ["if", "for", "while", "switch", "else"];
+
+/**
+ * Lists a declaration for every top level function so the code compiles
+ * as c++.  The Arduino IDE does this for .ino files but a main.cpp has to
+ * declare functions before they are used.
+ */
+export const findFunctionDeclarations = (code: string): string[] => {
+  const declarations: string[] = [];
+  for (const match of code.matchAll(FUNCTION_REGEX)) {
+    const returnType = match[1].trim();
+    const name = match[2];
+    if (
+      NOT_FUNCTIONS.includes(name) ||
+      NOT_FUNCTIONS.includes(returnType) ||
+      ["setup", "loop"].includes(name)
+    ) {
+      continue;
+    }
+
+    declarations.push(`${returnType} ${name}(${match[3].trim()});`);
+  }
+  return declarations;
+};
+
+/**
+ * Turns the sketch into a main.cpp by including Arduino.h and declaring
+ * the functions after the other includes.
+ */
+export const toMainCpp = (code: string) => {
+  const lines = code.split("\n");
+  const includes = lines.filter((line) => line.trim().startsWith("#include"));
+  const rest = lines.filter((line) => !line.trim().startsWith("#include"));
+  const declarations = findFunctionDeclarations(code);
+
+  return [
+    "#include <Arduino.h>",
+    ...includes,
+    "",
+    ...declarations,
+    ...rest,
+  ].join("\n");
+};
+
+/**
+ * Writes a PlatformIO project file, boards without a PlatformIO id
+ * return undefined.
+ */
+export const toPlatformioIni = (
+  libraries: LibraryManifest,
+  board: BoardDefinition
+) => {
+  const platform =
+    PLATFORMIO_PLATFORMS[board.fqbn.split(":").slice(0, 2).join(":")];
+  if (!platform || !board.platformio) {
+    return undefined;
+  }
+
+  const lines = [
+    `[env:${board.platformio}]`,
+    `platform = ${platform}`,
+    `board = ${board.platformio}`,
+    "framework = arduino",
+  ];
+
+  if (libraries.libraries.length > 0) {
+    lines.push("lib_deps =");
+    libraries.libraries.forEach((library) => {
+      lines.push(`  ${library.name}@${library.version}`);
+    });
+  }
+
+  return lines.join("\n") + "\n";
+};
+
+const toReadme = (bundle: ProjectBundle, hasPlatformio: boolean) => {
+  const libraries =
+    bundle.libraries.libraries.length > 0
+      ? bundle.libraries.libraries
+          .map((library) => `- ${library.name} ${library.version}`)
+          .join("\n") + "\n"
+      : "The project does not need any libraries.\n";
+
+  const unknownHeaders =
+    bundle.libraries.unknownHeaders.length > 0
+      ? `\nThese headers are not in the library manager and have to be installed by hand: ${bundle.libraries.unknownHeaders.join(", ")}\n`
+      : "";
+
+  const platformio = hasPlatformio
+    ? `
+### PlatformIO
+
+\`\`\`
+pio run --target upload
+\`\`\`
+
+The code is in \`src/main.cpp\` and the libraries are in \`platformio.ini\`.
+`
+    : "";
+
+  return `# ${bundle.name}
+
+Exported from Arduino Workflow Builder for the ${bundle.board.name}.
+
+## Wiring
+
+${wiringTableToMarkdown(bundle.wiring)}
+## Libraries
+
+${libraries}${unknownHeaders}
+## Building
+
+### arduino-cli
+
+\`\`\`
+cd sketch
+arduino-cli compile --profile default
+arduino-cli upload --profile default --port <port>
+\`\`\`
+
+\`sketch/sketch.yaml\` pins the board core and the library versions.
+${platformio}
+## Blocks
+
+\`project.xml\` is the original project, open it in Arduino Workflow Builder
+to keep editing the blocks.
+`;
+};
+
+/**
+ * Creates a zip with everything needed to build the project outside of the
+ * browser: an arduino-cli sketch, a PlatformIO project when the board has
+ * one, a README with the wiring and the blocks.
+ */
+export const createProjectBundle = (bundle: ProjectBundle): Blob => {
+  const platformioIni = toPlatformioIni(bundle.libraries, bundle.board);
+
+  const files: { [path: string]: string } = {
+    "README.md": toReadme(bundle, !!platformioIni),
+    "project.xml": bundle.xml,
+    "sketch/sketch.ino": bundle.code,
+    "sketch/sketch.yaml": toSketchYaml(bundle.libraries, bundle.board.fqbn),
+  };
+
+  if (platformioIni) {
+    files["platformio.ini"] = platformioIni;
+    files["src/main.cpp"] = toMainCpp(bundle.code);
+  }
+
+  return writeZipFile(files);
+};
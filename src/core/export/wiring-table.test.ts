@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { getWiringTable, wiringTableToMarkdown } from "./wiring-table";
+import {
+  BlockType,
+  PinCategory,
+  type BlockData,
+} from "../blockly/dto/block.type";
+
+const createBlock = (
+  blockName: string,
+  pinCategory: PinCategory,
+  fields: { [name: string]: string },
+  disabled = false
+): BlockData => ({
+  id: blockName,
+  blockName,
+  inputBlocks: [],
+  inputStatements: [],
+  fieldValues: Object.entries(fields).map(([name, value]) => ({ name, value })),
+  nextBlockId: undefined,
+  type: BlockType.SETUP,
+  rootBlockId: undefined,
+  pins: [],
+  pinCategory,
+  metaData: "",
+  disabled,
+});
+
+describe("wiring table", () => {
+  it("should list a wire for every pin field", () => {
+    const rows = getWiringTable([
+      createBlock("arduino_loop", PinCategory.NONE, {}),
+      createBlock("ultra_sonic_sensor_setup", PinCategory.ULTRA_SONIC, {
+        PIN_TRIG: "9",
+        PIN_ECHO: "10",
+        UNIT: "CM",
+      }),
+      createBlock("servo_move", PinCategory.SERVO, { PIN: "6" }),
+      createBlock("digital_display_setup", PinCategory.DIGITAL_DISPLAY, {
+        DIO_PIN: "2",
+        CLK_PIN: "3",
+      }),
+    ]);
+
+    expect(rows).toEqual([
+      { component: "Ultrasonic sensor", connection: "TRIG", pin: "9" },
+      { component: "Ultrasonic sensor", connection: "ECHO", pin: "10" },
+      { component: "Servo", connection: "Signal", pin: "6" },
+      { component: "4 digit display", connection: "DIO", pin: "2" },
+      { component: "4 digit display", connection: "CLK", pin: "3" },
+    ]);
+  });
+
+  it("should list a pin used by many blocks once and skip disabled blocks", () => {
+    const rows = getWiringTable([
+      createBlock("digital_write", PinCategory.DIGITAL_WRITE, { PIN: "13" }),
+      createBlock("digital_write", PinCategory.DIGITAL_WRITE, { PIN: "13" }),
+      createBlock("digital_write", PinCategory.DIGITAL_WRITE, { PIN: "12" }, true),
+    ]);
+
+    expect(rows).toEqual([
+      { component: "Digital output", connection: "Signal", pin: "13" },
+    ]);
+  });
+
+  it("should write the table as markdown", () => {
+    expect(
+      wiringTableToMarkdown([{ component: "LED", connection: "Signal", pin: "3" }])
+    ).toBe(`| Component | Connection | Pin |
+| --- | --- | --- |
+| LED | Signal | 3 |
+`);
+    expect(wiringTableToMarkdown([])).toBe(
+      "The project does not use any components.\n"
+    );
+  });
+});
@@ -0,0 +1,88 @@
+import _ from "lodash";
+import { PinCategory, type BlockData } from "../blockly/dto/block.type";
+
+/**
+ * A wire from a component to a pin on the board.
+ */
+export interface WiringRow {
+  component: string;
+  connection: string;
+  pin: string;
+}
+
+const COMPONENT_NAMES: { [category in PinCategory]: string } = {
+  [PinCategory.NONE]: "",
+  [PinCategory.BLUETOOTH]: "Bluetooth module",
+  [PinCategory.BUTTON]: "Button",
+  [PinCategory.IR_REMOTE]: "IR receiver",
+  [PinCategory.LCD_SCREEN]: "LCD screen (I2C)",
+  [PinCategory.NEO_PIXEL]: "NeoPixel strip",
+  [PinCategory.FAST_LED]: "FastLED strip",
+  [PinCategory.LED_MATRIX]: "LED matrix",
+  [PinCategory.LED_COLOR]: "RGB LED",
+  [PinCategory.ULTRA_SONIC]: "Ultrasonic sensor",
+  [PinCategory.MOTOR]: "DC motor",
+  [PinCategory.LED]: "LED",
+  [PinCategory.DIGITAL_WRITE]: "Digital output",
+  [PinCategory.ANALOG_WRITE]: "Analog output",
+  [PinCategory.DIGITAL_READ_SETUP]: "Digital sensor",
+  [PinCategory.ANALOG_READ_SETUP]: "Analog sensor",
+  [PinCategory.RFID]: "RFID reader",
+  [PinCategory.SERVO]: "Servo",
+  [PinCategory.TEMP]: "Temperature and humidity sensor",
+  [PinCategory.THERMISTOR]: "Thermistor",
+  [PinCategory.PASSIVE_BUZZER]: "Passive buzzer",
+  [PinCategory.STEPPER_MOTOR]: "Stepper motor",
+  [PinCategory.DIGITAL_DISPLAY]: "4 digit display",
+  [PinCategory.JOYSTICK]: "Joystick",
+  [PinCategory.OLED]: "OLED screen (I2C)",
+};
+
+// PIN_TRIG -> TRIG, DIO_PIN -> DIO and PIN -> Signal
+const connectionName = (fieldName: string) => {
+  const name = fieldName
+    .split("_")
+    .filter((part) => part !== "PIN")
+    .join(" ");
+
+  return name || "Signal";
+};
+
+/**
+ * Lists the wires the blocks need from the pin fields of every
+ * enabled block that uses a component.
+ */
+export const getWiringTable = (blocks: BlockData[]): WiringRow[] => {
+  const rows = blocks
+    .filter((block) => block.pinCategory !== PinCategory.NONE)
+    .filter((block) => !block.disabled)
+    .flatMap((block) =>
+      block.fieldValues
+        .filter((field) => field.name.includes("PIN"))
+        .map((field) => ({
+          component: COMPONENT_NAMES[block.pinCategory],
+          connection: connectionName(field.name),
+          pin: field.value.toString(),
+        }))
+    );
+
+  // Blocks like digital write use the same pin many times
+  return _.uniqWith(rows, _.isEqual);
+};
+
+/**
+ * Writes the wiring table as a markdown table.
+ */
+export const wiringTableToMarkdown = (rows: WiringRow[]) => {
+  if (rows.length === 0) {
+    return "The project does not use any components.\n";
+  }
+
+  return [
+    "| Component | Connection | Pin |",
+    "| --- | --- | --- |",
+    ...rows.map((row) => `| ${row.component} | ${row.connection} | ${row.pin} |`),
+  ]
+    .join("\n")
+    .concat("\n");
+};
@@ -44,6 +44,7 @@ const componentStateFuncs: { [key: string]: ComponentStateToId } = {
   [ArduinoComponentType.STEPPER_MOTOR]: genericSingleComponentId,
   [ArduinoComponentType.DIGITAL_DISPLAY]: genericSingleComponentId,
   [ArduinoComponentType.JOYSTICK]: genericSingleComponentId,
+  [ArduinoComponentType.OLED]: genericSingleComponentId,
   [ArduinoComponentType.TIME]: genericSingleComponentId,
 };
 
@@ -8,6 +8,8 @@ export interface ArduinoFrameContainer {
   frames: ArduinoFrame[];
   settings: Settings;
   error: boolean;
+  // The first loop iteration that changed when only part of the frames were rebuilt
+  fromIteration?: number;
 }
 
 export interface ArduinoFrame {
@@ -21,6 +23,7 @@ export interface ArduinoFrame {
   builtInLedOn: boolean;
   sendMessage: string; // message arduino is sending
   delay: number; // Number of milliseconds to delay
+  time: number; // Milliseconds since the arduino turned on, including the delay
   powerLedOn: boolean;
   frameNumber: number;
 }
@@ -57,6 +60,14 @@ export interface ArduinoComponentState {
   type: ArduinoComponentType;
 }
 
+/**
+ * Components on the I2C bus share the SDA and SCL pins with each other.
+ */
+export interface I2cComponentState extends ArduinoComponentState {
+  sdaPin: ARDUINO_PINS;
+  sclPin: ARDUINO_PINS;
+}
+
 export enum ArduinoComponentType {
   SERVO = "SERVO_COMPONENT",
   LCD_SCREEN = "LCD_SCREEN_COMPONENT",
@@ -83,6 +94,7 @@ export enum ArduinoComponentType {
   STEPPER_MOTOR = "STEPPER_MOTOR",
   DIGITAL_DISPLAY = "DIGITAL_DISPLAY",
   JOYSTICK = "JOYSTICK",
+  OLED = "OLED",
 }
 
 export const SENSOR_COMPONENTS = [
@@ -99,3 +111,8 @@ export const SENSOR_COMPONENTS = [
   ArduinoComponentType.THERMISTOR,
   ArduinoComponentType.JOYSTICK,
 ];
+
+export const I2C_COMPONENTS = [
+  ArduinoComponentType.LCD_SCREEN,
+  ArduinoComponentType.OLED,
+];
@@ -22,10 +22,37 @@ import { generateInputFrame } from "./transformer/block-to-frame.transformer";
 import type { Settings } from "../../firebase/model";
 import { defaultSetting } from "../../firebase/model";
 
+const MAX_FRAMES = 5000;
+
 export const eventToFrameFactory = (
   event: BlockEvent,
   settings: Settings = defaultSetting
 ): ArduinoFrameContainer => {
+  const frames: ArduinoFrame[] = [];
+  const batches = eventToFrameBatchesWithCache(event, undefined);
+  let batch = batches.next();
+  while (!batch.done) {
+    batch.value.forEach((f) => frames.push(f));
+    batch = batches.next();
+  }
+
+  if (batch.value.reachedMaxFrames) {
+    alertMaxFrames();
+  }
+
+  return {
+    board: event.microController,
+    frames,
+    error: false,
+    settings,
+  };
+};
+
+/**
+ * The frames for the pre-setup blocks like the sensor setup blocks
+ * and the blocks in the arduino setup.
+ */
+const generateSetupFrames = (event: BlockEvent): ArduinoFrame[] => {
   const { blocks } = event;
 
   const preSetupBlockType = [
@@ -40,9 +67,7 @@ export const eventToFrameFactory = (
 
   const frames: ArduinoFrame[] = preSetupBlocks.reduce((prevFrames, block) => {
     const previousState =
-      prevFrames.length === 0
-        ? undefined
-        : _.cloneDeep(prevFrames[prevFrames.length - 1]);
+      prevFrames.length === 0 ? undefined : prevFrames[prevFrames.length - 1];
 
     return [
       ...prevFrames,
@@ -79,50 +104,180 @@ export const eventToFrameFactory = (
 
   setupFrames.forEach((f) => frames.push(f));
 
-  const arduinoLoopBlock = findArduinoLoopBlock(blocks);
+  return frames;
+};
+
+/**
+ * What the frames were made from so the next change can tell which
+ * frames are still the same.
+ */
+export interface FrameCache {
+  setupProgramKey: string;
+  loopProgramKey: string;
+  setupSensorKey: string;
+  iterationSensorKeys: string[];
+  frames: ArduinoFrame[];
+}
+
+/**
+ * Creates the frames in batches reusing the ones in the cache that the change
+ * did not affect, the batches can be used before all the loops are done.
+ * The first batch is the frames reused from the cache or the setup frames
+ * and then there is a batch for each loop.
+ * Changing the sensor data for one loop only rebuilds that loop and the ones
+ * after it.  Changing the number of loops only adds or removes loops.
+ * Changing a block in the arduino loop reuses the setup frames and rebuilds
+ * the loops, every loop runs the block.  Anything else rebuilds all the frames.
+ */
+export function* eventToFrameBatchesWithCache(
+  event: BlockEvent,
+  cache: FrameCache | undefined
+): Generator<
+  ArduinoFrame[],
+  { cache: FrameCache | undefined; reachedMaxFrames: boolean }
+> {
+  const { blocks } = event;
   const loopTimes = getLoopTimeFromBlockData(blocks);
-  let stopAllFrames = false;
-  const framesWithLoop = _.range(1, loopTimes + 1).reduce(
-    (prevFrames, loopTime) => {
-      if (stopAllFrames) {
-        return prevFrames;
-      }
-      const timeLine: Timeline = { iteration: loopTime, function: "loop" };
-      const previousFrame = _.isEmpty(prevFrames)
-        ? undefined
-        : prevFrames[prevFrames.length - 1];
-
-      const frames = generateInputFrame(
-        arduinoLoopBlock,
-        blocks,
-        event.variables,
-        timeLine,
-        "loop",
-        getPreviousState(blocks, timeLine, _.cloneDeep(previousFrame)) // Deep clone to prevent object memory sharing
-      );
-
-      if (frames.length > 0 && frames[frames.length - 1].frameNumber > 5000) {
-        stopAllFrames = true;
-        alert(`Reached maximun steps for simulation.`);
-        const count = prevFrames.length;
-        const leftTo5000 = 5000 - count;
-        // minus 1 because we are starting from 0 index
-        return [...prevFrames, ...frames.slice(0, leftTo5000)];
-      }
-
-      return [...prevFrames, ...frames];
-    },
-    frames
+  const { setupProgramKey, loopProgramKey } = createProgramKeys(event);
+  const setupSensorKey = createSensorKey(blocks, {
+    iteration: 0,
+    function: "pre-setup",
+  });
+  const iterationSensorKeys = _.range(1, loopTimes + 1).map((iteration) =>
+    createSensorKey(blocks, { iteration, function: "loop" })
   );
 
+  let firstFrames: ArduinoFrame[];
+  let fromIteration = 1;
+  if (
+    cache === undefined ||
+    cache.setupProgramKey !== setupProgramKey ||
+    cache.setupSensorKey !== setupSensorKey
+  ) {
+    firstFrames = generateSetupFrames(event);
+  } else if (cache.loopProgramKey !== loopProgramKey) {
+    const firstLoopFrame = cache.frames.findIndex(
+      (f) => f.timeLine.function === "loop"
+    );
+    firstFrames =
+      firstLoopFrame === -1
+        ? cache.frames
+        : cache.frames.slice(0, firstLoopFrame);
+  } else {
+    const changedIteration = iterationSensorKeys.findIndex(
+      (key, index) => key !== cache.iterationSensorKeys[index]
+    );
+    fromIteration =
+      changedIteration === -1 ? loopTimes + 1 : changedIteration + 1;
+    const firstChangedFrame = cache.frames.findIndex(
+      (f) =>
+        f.timeLine.function === "loop" && f.timeLine.iteration >= fromIteration
+    );
+    firstFrames =
+      firstChangedFrame === -1
+        ? cache.frames
+        : cache.frames.slice(0, firstChangedFrame);
+  }
+
+  yield firstFrames;
+  const frames = [...firstFrames];
+  const arduinoLoopBlock = findArduinoLoopBlock(blocks);
+  let previousFrame = _.isEmpty(frames) ? undefined : frames[frames.length - 1];
+  let reachedMaxFrames = false;
+
+  for (let loopTime = fromIteration; loopTime <= loopTimes; loopTime += 1) {
+    const timeLine: Timeline = { iteration: loopTime, function: "loop" };
+
+    const loopFrames = generateInputFrame(
+      arduinoLoopBlock,
+      blocks,
+      event.variables,
+      timeLine,
+      "loop",
+      getPreviousState(blocks, timeLine, previousFrame)
+    );
+
+    // The last loop is cut short when the simulation has too many steps
+    // so there is nothing to reuse.
+    if (
+      loopFrames.length > 0 &&
+      loopFrames[loopFrames.length - 1].frameNumber > MAX_FRAMES
+    ) {
+      yield loopFrames.slice(0, MAX_FRAMES - frames.length);
+      reachedMaxFrames = true;
+      break;
+    }
+
+    if (loopFrames.length > 0) {
+      previousFrame = loopFrames[loopFrames.length - 1];
+    }
+    loopFrames.forEach((f) => frames.push(f));
+    yield loopFrames;
+  }
+
   return {
-    board: event.microController,
-    frames: framesWithLoop,
-    error: false,
-    settings,
+    reachedMaxFrames,
+    cache: reachedMaxFrames
+      ? undefined
+      : {
+          setupProgramKey,
+          loopProgramKey,
+          setupSensorKey,
+          iterationSensorKeys,
+          frames,
+        },
+  };
+}
+
+/**
+ * Everything the frames are made from except the number of loops and the
+ * sensor data.  Both of those are compared separately.  The blocks in the
+ * arduino loop have their own key because they do not change the setup frames.
+ */
+const createProgramKeys = (event: BlockEvent) => {
+  const arduinoLoopBlock = findArduinoLoopBlock(event.blocks);
+  const isInLoop = (b: Pick<BlockData, "id" | "rootBlockId">) =>
+    arduinoLoopBlock !== undefined &&
+    (b.id === arduinoLoopBlock.id || b.rootBlockId === arduinoLoopBlock.id);
+
+  const blocks = event.blocks.map((b) => {
+    if (sensorSetupBlockName.includes(b.blockName)) {
+      // The fields show the sensor data for the loop being edited
+      return { ...b, metaData: undefined, fieldValues: undefined };
+    }
+
+    if (b.blockName === "arduino_loop") {
+      return {
+        ...b,
+        fieldValues: b.fieldValues.filter((f) => f.name !== "LOOP_TIMES"),
+      };
+    }
+
+    return b;
+  });
+
+  return {
+    setupProgramKey: JSON.stringify({
+      blocks: blocks.filter((b) => !isInLoop(b)),
+      variables: event.variables,
+      microController: event.microController,
+    }),
+    loopProgramKey: JSON.stringify(blocks.filter(isInLoop)),
   };
 };
 
+const createSensorKey = (blocks: BlockData[], timeline: Timeline) => {
+  return JSON.stringify(
+    blocks
+      .filter((b) => sensorSetupBlockName.includes(b.blockName))
+      .map((b) => convertToState(b, timeline))
+  );
+};
+
+const alertMaxFrames = () => {
+  alert(`Reached maximun steps for simulation.`);
+};
+
 const getPreviousState = (
   blocks: BlockData[],
   timeline: Timeline,
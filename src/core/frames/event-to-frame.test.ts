@@ -12,7 +12,10 @@ import type { BlockEvent } from "../blockly/dto/event.type";
 import { transformBlock } from "../blockly/transformers/block.transformer";
 import { getAllVariables } from "../blockly/helpers/variable.helper";
 import { transformVariable } from "../blockly/transformers/variables.transformer";
-import { eventToFrameFactory } from "./event-to-frame.factory";
+import {
+  eventToFrameBatchesWithCache,
+  eventToFrameFactory,
+} from "./event-to-frame.factory";
 import { saveSensorSetupBlockData } from "../blockly/actions/saveSensorSetupBlockData";
 import { updater } from "../blockly/updater";
 import {
@@ -103,5 +106,25 @@ describe("generator", () => {
     expect(states[4].variables["num_var2"].value).toBe(30);
   });
 
+  it("should give back the frames for each loop in its own batch", () => {
+    const setNumberBlock = createSetVariableBlockWithValue(
+      workspace,
+      "num_var",
+      VariableTypes.NUMBER,
+      30
+    );
+    arduinoBlock
+      .getInput("loop")
+      .connection.connect(setNumberBlock.previousConnection);
+
+    const event = createTestEvent(arduinoBlock.id);
+    const batches = [...eventToFrameBatchesWithCache(event, undefined)];
+
+    expect(
+      batches.map((batch) => batch.map((f) => f.timeLine.iteration))
+    ).toEqual([[0], [1], [2], [3]]);
+    expect(batches.flat()).toEqual(eventToFrameFactory(event).frames);
+  });
+
   it("should be able frames that are in the setup block", () => {});
 });
@@ -0,0 +1,125 @@
+import { get } from "svelte/store";
+import frameStore from "../../stores/frame.store";
+import framesGeneratingStore from "../../stores/frames-generating.store";
+import type { BlockEvent } from "../blockly/dto/event.type";
+import type { Settings } from "../../firebase/model";
+import type { ArduinoFrame } from "./arduino.frame";
+import { onErrorMessage } from "../../help/alerts";
+import type {
+  FrameWorkerRequest,
+  FrameWorkerResponse,
+} from "./frame-worker.messages";
+
+let worker: Worker | undefined;
+
+let latestRunId = 0;
+
+// Messages from runs before this were made for frames the app threw away
+let resetRunId = 0;
+
+// The frames the worker sent
+let frames: ArduinoFrame[] = [];
+
+// What the frames of the latest run are for
+let latestRun: { event: BlockEvent; settings: Settings } | undefined;
+
+const getWorker = () => {
+  if (!worker) {
+    worker = new Worker(new URL("./frame.worker.ts", import.meta.url), {
+      type: "module",
+    });
+    worker.onmessage = (e: MessageEvent<FrameWorkerResponse>) =>
+      onWorkerMessage(e.data);
+  }
+
+  return worker;
+};
+
+const postRequest = (request: FrameWorkerRequest) => {
+  getWorker().postMessage(request);
+};
+
+/**
+ * Makes the frames for the blocks in the worker.  The frames are put in the
+ * frame store as they are made.  A run that has not finished is stopped.
+ * The worker reuses the frames the change did not affect.
+ */
+export const generateFrames = (event: BlockEvent, settings: Settings) => {
+  latestRunId += 1;
+  latestRun = { event, settings };
+  framesGeneratingStore.set(true);
+  postRequest({ type: "generate", runId: latestRunId, event });
+};
+
+/**
+ * Stops making frames because the frame store is showing something else
+ * like an error.
+ */
+export const resetFrames = () => {
+  latestRunId += 1;
+  resetRunId = latestRunId;
+  frames = [];
+  framesGeneratingStore.set(false);
+  if (worker) {
+    postRequest({ type: "reset", runId: latestRunId });
+  }
+};
+
+const onWorkerMessage = (response: FrameWorkerResponse) => {
+  const run = latestRun;
+  if (response.runId <= resetRunId || run === undefined) {
+    return;
+  }
+
+  if (response.type === "max-frames") {
+    alert(`Reached maximun steps for simulation.`);
+    return;
+  }
+
+  // The frames from the run that failed can't be trusted so they are cleared
+  if (response.type === "error") {
+    if (response.runId === latestRunId) {
+      resetFrames();
+      frameStore.set({
+        error: true,
+        frames: [],
+        board: run.event.microController,
+        settings: run.settings,
+      });
+      onErrorMessage(
+        "Sorry, the simulation could not be made for these blocks.",
+        response.message
+      );
+    }
+    return;
+  }
+
+  const framesChanged =
+    response.frames.length > 0 || response.startIndex < frames.length;
+  const currentFrameContainer = get(frameStore);
+  const containerChanged =
+    currentFrameContainer.board !== run.event.microController ||
+    currentFrameContainer.settings !== run.settings;
+  // Every batch is used even from runs that were stopped
+  // so that the frames stay the same as the ones in the worker.
+  frames = [...frames.slice(0, response.startIndex), ...response.frames];
+
+  if (framesChanged || (response.done && containerChanged)) {
+    const firstFrame = response.frames[0];
+    frameStore.set({
+      board: run.event.microController,
+      frames,
+      error: false,
+      settings: run.settings,
+      // The frames before the batch did not change
+      fromIteration:
+        firstFrame && firstFrame.timeLine.function === "loop"
+          ? firstFrame.timeLine.iteration
+          : undefined,
+    });
+  }
+
+  if (response.done && response.runId === latestRunId) {
+    framesGeneratingStore.set(false);
+  }
+};
@@ -0,0 +1,26 @@
+import type { BlockEvent } from "../blockly/dto/event.type";
+import type { ArduinoFrame } from "./arduino.frame";
+
+/**
+ * What the app sends to the frame worker.  Each generate message starts a
+ * new run and stops the run before it.
+ */
+export type FrameWorkerRequest =
+  | { type: "generate"; runId: number; event: BlockEvent }
+  // The app is not showing the frames from the worker anymore
+  | { type: "reset"; runId: number };
+
+/**
+ * What the frame worker sends back.  The frames replace all the frames
+ * from startIndex on so only the frames that changed are sent.
+ */
+export type FrameWorkerResponse =
+  | {
+      type: "frames";
+      runId: number;
+      startIndex: number;
+      frames: ArduinoFrame[];
+      done: boolean;
+    }
+  | { type: "max-frames"; runId: number }
+  | { type: "error"; runId: number; message: string };
@@ -0,0 +1,133 @@
+/// <reference lib="webworker" />
+// Makes the frames off the main thread so blockly does not freeze
+// while a big sketch is simulated.  See frame-worker.client.ts
+import {
+  eventToFrameBatchesWithCache,
+  type FrameCache,
+} from "./event-to-frame.factory";
+import type { ArduinoFrame } from "./arduino.frame";
+import type {
+  FrameWorkerRequest,
+  FrameWorkerResponse,
+} from "./frame-worker.messages";
+
+// How long to make frames before sending them and checking for a newer run
+const BATCH_TIME_MS = 50;
+
+let cache: FrameCache | undefined;
+
+// The frames the app has which are all the frames that were sent
+let sentFrames: ArduinoFrame[] = [];
+
+let latestRunId = 0;
+
+const postResponse = (response: FrameWorkerResponse) => {
+  self.postMessage(response);
+};
+
+// Lets the worker get the messages sent while it was making frames
+const waitForMessages = () => {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+const isSameFrame = (frame: ArduinoFrame, sentFrame?: ArduinoFrame) => {
+  return (
+    frame === sentFrame ||
+    (sentFrame !== undefined &&
+      JSON.stringify(frame) === JSON.stringify(sentFrame))
+  );
+};
+
+/**
+ * Sends the frames as they are made.  Frames that are the same as the ones
+ * the app already has are not sent.  Returns undefined if a newer run
+ * stopped this one.
+ */
+const sendFrames = async <R>(
+  runId: number,
+  batches: Generator<ArduinoFrame[], R>
+): Promise<R | undefined> => {
+  const frames: ArduinoFrame[] = [];
+  // Where the frames start being different from the ones the app has
+  let changedIndex: number | undefined = undefined;
+  let checkedCount = 0;
+  let sentCount = 0;
+
+  const send = (done: boolean) => {
+    if (changedIndex === undefined) {
+      for (let i = checkedCount; i < frames.length; i += 1) {
+        if (!isSameFrame(frames[i], sentFrames[i])) {
+          changedIndex = i;
+          break;
+        }
+      }
+      checkedCount = frames.length;
+
+      if (changedIndex === undefined && !done) {
+        return;
+      }
+      sentCount = changedIndex ?? frames.length;
+    }
+
+    const newFrames = frames.slice(sentCount);
+    sentFrames = [...sentFrames.slice(0, sentCount), ...newFrames];
+    postResponse({
+      type: "frames",
+      runId,
+      startIndex: sentCount,
+      frames: newFrames,
+      done,
+    });
+    sentCount = frames.length;
+  };
+
+  let batchStartTime = Date.now();
+  let batch = batches.next();
+  while (!batch.done) {
+    batch.value.forEach((f) => frames.push(f));
+    if (Date.now() - batchStartTime >= BATCH_TIME_MS) {
+      send(false);
+      await waitForMessages();
+      if (runId !== latestRunId) {
+        return undefined;
+      }
+      batchStartTime = Date.now();
+    }
+    batch = batches.next();
+  }
+  send(true);
+
+  return batch.value;
+};
+
+self.onmessage = async (e: MessageEvent<FrameWorkerRequest>) => {
+  const request = e.data;
+  latestRunId = request.runId;
+
+  if (request.type === "reset") {
+    sentFrames = [];
+    return;
+  }
+
+  try {
+    const result = await sendFrames(
+      request.runId,
+      eventToFrameBatchesWithCache(request.event, cache)
+    );
+    if (result === undefined) {
+      return;
+    }
+
+    cache = result.cache;
+    if (result.reachedMaxFrames) {
+      postResponse({ type: "max-frames", runId: request.runId });
+    }
+  } catch (error) {
+    console.error(error);
+    postResponse({
+      type: "error",
+      runId: request.runId,
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
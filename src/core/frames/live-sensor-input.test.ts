@@ -0,0 +1,128 @@
+import "../blockly/blocks";
+import type { Workspace, BlockSvg } from "blockly";
+import { describe, it, beforeEach, afterEach, expect } from "vitest";
+import {
+  createArduinoAndWorkSpace,
+  createSetVariableBlockWithValue,
+  createTestEvent,
+} from "../../tests/tests.helper";
+import { connectToArduinoBlock } from "../blockly/helpers/block.helper";
+import { saveSensorSetupBlockData } from "../blockly/actions/saveSensorSetupBlockData";
+import { updater } from "../blockly/updater";
+import { VariableTypes } from "../blockly/dto/variable.type";
+import {
+  eventToFrameBatchesWithCache,
+  eventToFrameFactory,
+  type FrameCache,
+} from "./event-to-frame.factory";
+import {
+  applyLiveSensorInputs,
+  findSensorSetupBlock,
+  type LiveSensorInput,
+} from "./live-sensor-input";
+import { ArduinoComponentType, type ArduinoFrame } from "./arduino.frame";
+import { arduinoComponentStateToId } from "./arduino-component-id";
+import { findComponent } from "./transformer/frame-transformer.helpers";
+import { ARDUINO_PINS } from "../microcontroller/selectBoard";
+import type { BlockEvent } from "../blockly/dto/event.type";
+
+// Makes all the frames like the frame worker does
+const generateFrames = (event: BlockEvent, cache?: FrameCache) => {
+  const batches = eventToFrameBatchesWithCache(event, cache);
+  const frames: ArduinoFrame[] = [];
+  let batch = batches.next();
+  while (!batch.done) {
+    batch.value.forEach((f) => frames.push(f));
+    batch = batches.next();
+  }
+
+  return { frames, cache: batch.value.cache };
+};
+
+describe("live sensor input", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+  let buttonSetup: BlockSvg;
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue("3", "LOOP_TIMES");
+
+    buttonSetup = workspace.newBlock("button_setup") as BlockSvg;
+    buttonSetup.setFieldValue(ARDUINO_PINS.PIN_3, "PIN");
+    buttonSetup.setFieldValue("FALSE", "is_pressed");
+    saveSensorSetupBlockData(createTestEvent(buttonSetup.id)).forEach(updater);
+
+    const setVariableBlock = createSetVariableBlockWithValue(
+      workspace,
+      "pressed",
+      VariableTypes.BOOLEAN,
+      true
+    );
+    setVariableBlock.getInput("VALUE").connection.targetBlock().dispose(true);
+    const isButtonPressed = workspace.newBlock("is_button_pressed");
+    isButtonPressed.setFieldValue(ARDUINO_PINS.PIN_3, "PIN");
+    setVariableBlock
+      .getInput("VALUE")
+      .connection.connect(isButtonPressed.outputConnection);
+    connectToArduinoBlock(setVariableBlock);
+  });
+
+  it("should only rebuild the loops after the input changed", () => {
+    const event = createTestEvent(buttonSetup.id);
+    const { frames, cache } = generateFrames(event);
+    expect(pressedEachLoop(frames)).toEqual([false, false, false]);
+
+    const inputs: LiveSensorInput[] = [
+      { blockId: buttonSetup.id, iteration: 2, data: { is_pressed: true } },
+    ];
+    const liveEvent = {
+      ...event,
+      blocks: applyLiveSensorInputs(event.blocks, inputs),
+    };
+
+    const liveFrames = generateFrames(liveEvent, cache).frames;
+
+    expect(pressedEachLoop(liveFrames)).toEqual([false, true, true]);
+    // The first loop is not created again
+    const firstLoopFrame = (frames: ArduinoFrame[]) =>
+      frames.find((f) => f.timeLine.iteration === 1);
+    expect(firstLoopFrame(liveFrames)).toBe(firstLoopFrame(frames));
+    expect(firstLoopFrame(liveFrames)).toBeDefined();
+    expect(liveFrames).toEqual(eventToFrameFactory(liveEvent).frames);
+  });
+
+  it("should let later inputs replace earlier ones", () => {
+    const event = createTestEvent(buttonSetup.id);
+    const blocks = applyLiveSensorInputs(event.blocks, [
+      { blockId: buttonSetup.id, iteration: 1, data: { is_pressed: true } },
+      { blockId: buttonSetup.id, iteration: 3, data: { is_pressed: false } },
+    ]);
+
+    const frames = eventToFrameFactory({ ...event, blocks }).frames;
+    expect(pressedEachLoop(frames)).toEqual([true, true, false]);
+  });
+
+  it("should find the setup block for a component on the circuit", () => {
+    const event = createTestEvent(buttonSetup.id);
+    const [frame] = eventToFrameFactory(event).frames;
+    const button = findComponent(frame, ArduinoComponentType.BUTTON);
+
+    expect(
+      findSensorSetupBlock(event.blocks, arduinoComponentStateToId(button))
+    ).toBe(event.blocks.find((b) => b.id === buttonSetup.id));
+    expect(findSensorSetupBlock(event.blocks, "not_a_component")).toBe(
+      undefined
+    );
+  });
+});
+
+const pressedEachLoop = (frames: ArduinoFrame[]) => {
+  return frames
+    .filter((f) => f.timeLine.function === "loop")
+    .map((f) => f.variables["pressed"].value);
+};
@@ -0,0 +1,78 @@
+import _ from "lodash";
+import type { BlockData } from "../blockly/dto/block.type";
+import type { Sensor } from "../blockly/dto/sensors.type";
+import {
+  convertToState,
+  sensorSetupBlockName,
+} from "../blockly/transformers/sensor-data.transformer";
+import { arduinoComponentStateToId } from "./arduino-component-id";
+import { ArduinoComponentType } from "./arduino.frame";
+
+/**
+ * A sensor value the user changed on the circuit while the simulation
+ * is running.  It replaces the sensor data the setup block saved
+ * for every loop starting at the iteration.
+ */
+export interface LiveSensorInput {
+  blockId: string;
+  iteration: number;
+  data: { [sensorField: string]: string | number | boolean };
+}
+
+// The components the user can change while the simulation is running
+export const liveSensorInputTypes = [
+  ArduinoComponentType.BUTTON,
+  ArduinoComponentType.DIGITAL_SENSOR,
+  ArduinoComponentType.ANALOG_SENSOR,
+  ArduinoComponentType.IR_REMOTE,
+  ArduinoComponentType.RFID,
+];
+
+/**
+ * Returns the blocks with the live inputs saved in the sensor data
+ * of the setup blocks.  Inputs later in the list win.
+ */
+export const applyLiveSensorInputs = (
+  blocks: BlockData[],
+  inputs: LiveSensorInput[]
+): BlockData[] => {
+  return blocks.map((block) => {
+    const blockInputs = inputs.filter((i) => i.blockId === block.id);
+    if (blockInputs.length === 0 || _.isEmpty(block.metaData)) {
+      return block;
+    }
+
+    const sensorData = JSON.parse(block.metaData) as Sensor[];
+    const newSensorData = sensorData.map((sensor) =>
+      blockInputs
+        .filter((i) => sensor.loop >= i.iteration)
+        .reduce((acc, i) => ({ ...acc, ...i.data }), sensor)
+    );
+
+    return { ...block, metaData: JSON.stringify(newSensorData) };
+  });
+};
+
+/**
+ * Finds the setup block that created the component on the circuit.
+ */
+export const findSensorSetupBlock = (
+  blocks: BlockData[],
+  componentId: string
+): BlockData | undefined => {
+  return blocks.find((block) => {
+    if (
+      !sensorSetupBlockName.includes(block.blockName) ||
+      _.isEmpty(block.metaData)
+    ) {
+      return false;
+    }
+
+    try {
+      const state = convertToState(block, { iteration: 1, function: "loop" });
+      return arduinoComponentStateToId(state) === componentId;
+    } catch (e) {
+      return false;
+    }
+  });
+};
@@ -29,6 +29,16 @@ import {
   digit4DisplaySetup,
   digitalDisplaySet,
 } from "../../../blocks/digit4display/blocktoframe";
+import {
+  oledClear,
+  oledDisplay,
+  oledDrawBitmap,
+  oledDrawLine,
+  oledDrawPixel,
+  oledDrawRectangle,
+  oledPrint,
+  oledSetup,
+} from "../../../blocks/oled/blocktoframe";
 import {
   findBlockById,
   findInputStatementStartBlock,
@@ -43,7 +53,10 @@ import {
   releaseButton,
 } from "../../../blocks/button/blocktoframe";
 import { irRemoteSetup } from "../../../blocks/ir_remote/blocktoframe";
-import { customBlock } from "../../../blocks/functions/blocktoframe";
+import {
+  callFunctionsWithReturn,
+  customBlock,
+} from "../../../blocks/functions/blocktoframe";
 import {
   neoPixelSetup,
   setNeoPixelColor,
@@ -69,7 +82,12 @@ import { analogReadSetup } from "../../../blocks/analogsensor/blocktoframe";
 import { ifElse } from "../../../blocks/logic/blocktoframe";
 import { delayBlock } from "../../../blocks/time/blocktoframe.delay";
 import { timeSetup } from "../../../blocks/time/blocktoframe.time";
-import { forLoop, simpleLoop } from "../../../blocks/loops/blocktoframe";
+import {
+  flowStatement,
+  forLoop,
+  simpleLoop,
+  whileLoop,
+} from "../../../blocks/loops/blocktoframe";
 import {
   arduinoSendMessage,
   messageSetup,
@@ -91,6 +109,7 @@ import {
   stepperMotorSetup,
 } from "../../../blocks/steppermotor/blocktoframe";
 import { joystickSetup } from "../../../blocks/joystick/blocktoframe";
+import { findFlowStatement } from "./frame-transformer.helpers";
 
 export interface BlockToFrameTransformer {
   (
@@ -137,6 +156,8 @@ const blockToFrameTransformerList: {
 
   controls_repeat_ext: simpleLoop,
   controls_for: forLoop,
+  controls_whileUntil: whileLoop,
+  controls_flow_statements: flowStatement,
   procedures_callnoreturn: customBlock,
 
   delay_block: delayBlock,
@@ -184,6 +205,15 @@ const blockToFrameTransformerList: {
   digital_display_setup: digit4DisplaySetup,
   digital_display_set: digitalDisplaySet,
 
+  oled_setup: oledSetup,
+  oled_print: oledPrint,
+  oled_draw_pixel: oledDrawPixel,
+  oled_draw_line: oledDrawLine,
+  oled_draw_rectangle: oledDrawRectangle,
+  oled_draw_bitmap: oledDrawBitmap,
+  oled_clear: oledClear,
+  oled_display: oledDisplay,
+
   joystick_setup: joystickSetup,
 };
 
@@ -195,13 +225,28 @@ export const generateFrame: BlockToFrameTransformer = (
   previousState
 ) => {
   try {
-    return blockToFrameTransformerList[block.blockName](
+    // Functions that return values run before the block that uses them
+    const functionFrames = callFunctionsWithReturn(
       blocks,
       block,
       variables,
       timeline,
       previousState
     );
+    const beforeState = _.isEmpty(functionFrames)
+      ? previousState
+      : functionFrames[functionFrames.length - 1];
+
+    return [
+      ...functionFrames,
+      ...blockToFrameTransformerList[block.blockName](
+        blocks,
+        block,
+        variables,
+        timeline,
+        beforeState
+      ),
+    ];
   } catch (e) {
     console.log(block.blockName, "block name");
     throw e;
@@ -216,8 +261,6 @@ export const generateInputFrame = (
   inputName: string,
   previousState?: ArduinoFrame
 ): ArduinoFrame[] => {
-  // Fixing memory sharing between objects
-  previousState = previousState ? _.cloneDeep(previousState) : undefined;
   const startingBlock = findInputStatementStartBlock(blocks, block, inputName);
   if (!startingBlock) {
     return [];
@@ -233,8 +276,11 @@ export const generateInputFrame = (
       previousState
     );
     arduinoStates.push(...states);
-    const newPreviousState = states[states.length - 1];
-    previousState = _.cloneDeep(newPreviousState);
+    previousState = states[states.length - 1];
+    // A break or continue skips the rest of the blocks until it reaches the loop it is in.
+    if (findFlowStatement(blocks, states, block) !== undefined) {
+      break;
+    }
     nextBlock = findBlockById(blocks, nextBlock.nextBlockId);
   } while (nextBlock !== undefined);
 
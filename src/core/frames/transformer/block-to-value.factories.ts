@@ -60,11 +60,13 @@ import { ultraSonicSensorDistance } from "../../../blocks/ultrasonic_sensor/bloc
 import { getVariable } from "../../../blocks/variables/blocktovalue";
 
 import { thermistorRead } from "../../../blocks/thermistor/blocktovalue";
+import { functionReturnValue } from "../../../blocks/functions/blocktovalue";
 import {
   joystickAngle,
   joystickButton,
   joystickEngaged,
 } from "../../../blocks/joystick/blocktovalue";
+import { servoReadDegrees } from "../../../blocks/servo/blocktovalue";
 
 export interface ValueGenerator {
   (
@@ -150,6 +152,10 @@ export const valueList: { [blockName: string]: ValueGenerator } = {
   joystick_angle: joystickAngle,
   joystick_button: joystickButton,
   joystick_engaged: joystickEngaged,
+
+  servo_read_degrees: servoReadDegrees,
+
+  procedures_callreturn: functionReturnValue,
 };
 
 export const getInputValue = (
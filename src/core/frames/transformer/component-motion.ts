@@ -0,0 +1,43 @@
+import {
+  ArduinoComponentType,
+  type ArduinoComponentState,
+} from "../arduino.frame";
+import { moveServo } from "../../../blocks/servo/motion";
+import { moveMotors } from "../../../blocks/motors/motion";
+import type { ServoState } from "../../../blocks/servo/state";
+import type { MotorShieldState } from "../../../blocks/motors/state";
+
+export interface MoveComponent {
+  (state: ArduinoComponentState, ms: number): ArduinoComponentState;
+}
+
+/**
+ * Components that take time to get to where the code told them to be.
+ * Stepper motors are not here because the code waits for them.
+ */
+const componentMotion: { [type: string]: MoveComponent } = {
+  [ArduinoComponentType.SERVO]: (state, ms) =>
+    moveServo(state as ServoState, ms),
+  [ArduinoComponentType.MOTOR]: (state, ms) =>
+    moveMotors(state as MotorShieldState, ms),
+};
+
+/**
+ * Moves the components for the milliseconds a frame takes so the frame
+ * has where they are when it is done.  Components that did not move are
+ * kept so they are still shared with the previous frame.
+ */
+export const moveComponents = (
+  components: ArduinoComponentState[],
+  ms: number
+) => {
+  if (ms <= 0) {
+    return components;
+  }
+
+  return components.map((component) =>
+    componentMotion[component.type]
+      ? componentMotion[component.type](component, ms)
+      : component
+  );
+};
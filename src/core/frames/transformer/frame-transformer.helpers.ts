@@ -9,11 +9,19 @@ import type {
 
 import { arduinoComponentStateToId } from "../arduino-component-id";
 
-import _ from "lodash";
-import type { BlockData, PinCategory } from "../../blockly/dto/block.type";
-import { findBlockById } from "../../blockly/helpers/block-data.helper";
+import {
+  type BlockData,
+  type PinCategory,
+  loopBlocks,
+} from "../../blockly/dto/block.type";
+import {
+  findBlockById,
+  findEnclosingLoopBlock,
+  findFieldValue,
+} from "../../blockly/helpers/block-data.helper";
 import { VariableTypes } from "../../blockly/dto/variable.type";
 import type { ARDUINO_PINS } from "../../microcontroller/selectBoard";
+import { moveComponents } from "./component-motion";
 
 export const arduinoFrameByVariable = (
   blockId: string,
@@ -26,9 +34,11 @@ export const arduinoFrameByVariable = (
   builtInLedOn = false,
   delay = 0
 ): ArduinoFrame => {
-  const variables = previousFrame ? _.cloneDeep(previousFrame.variables) : {};
+  // Frames are never changed after they are made so the previous
+  // frame's variables and components can be shared with it.
+  const variables = previousFrame ? { ...previousFrame.variables } : {};
   variables[newVariable.name] = newVariable;
-  const components = previousFrame ? _.cloneDeep(previousFrame.components) : [];
+  const components = previousFrame ? [...previousFrame.components] : [];
 
   return {
     blockId,
@@ -38,14 +48,26 @@ export const arduinoFrameByVariable = (
     variables,
     txLedOn,
     builtInLedOn,
-    components,
+    components: moveComponents(components, delay),
     explanation,
     delay,
+    time: simulatedTime(previousFrame, delay),
     powerLedOn: true,
     frameNumber: previousFrame ? previousFrame.frameNumber + 1 : 1,
   };
 };
 
+/**
+ * The simulated clock after a frame runs.  The time
+ * keeps adding up from the arduino being turned on.
+ */
+export const simulatedTime = (
+  previousFrame: ArduinoFrame | undefined,
+  delay: number
+) => {
+  return (previousFrame ? previousFrame.time : 0) + delay;
+};
+
 export const findBlockInput = (
   blocks: BlockData[],
   block: BlockData,
@@ -69,7 +91,7 @@ export const arduinoFrameByExplanation = (
   builtInLedOn = false,
   delay = 0
 ): ArduinoFrame => {
-  const components = previousFrame ? _.cloneDeep(previousFrame.components) : [];
+  const components = previousFrame ? [...previousFrame.components] : [];
 
   const variables = previousFrame ? { ...previousFrame.variables } : {};
 
@@ -81,9 +103,10 @@ export const arduinoFrameByExplanation = (
     variables,
     txLedOn,
     builtInLedOn,
-    components,
+    components: moveComponents(components, delay),
     explanation,
     delay,
+    time: simulatedTime(previousFrame, delay),
     powerLedOn: true,
     frameNumber: previousFrame ? previousFrame.frameNumber + 1 : 1,
   };
@@ -135,9 +158,10 @@ export const arduinoFrameByComponent = (
     variables,
     txLedOn,
     builtInLedOn: builtInLedOn,
-    components,
+    components: moveComponents(components, delay),
     explanation,
     delay,
+    time: simulatedTime(previousFrame, delay),
     powerLedOn: true,
     frameNumber: previousFrame ? previousFrame.frameNumber + 1 : 1,
   };
@@ -214,3 +238,33 @@ export const findComponent = <T extends ArduinoComponentState>(
 
   return state.components.find((c) => c.type === type) as T;
 };
+
+/**
+ * Returns "BREAK" or "CONTINUE" if the last frame was made by a break / continue
+ * block that belongs to the loop the block is, or is inside of.  A break in a
+ * loop inside of that loop was already used up by the inner loop.
+ */
+export const findFlowStatement = (
+  blocks: BlockData[],
+  frames: ArduinoFrame[],
+  block: BlockData
+): "BREAK" | "CONTINUE" | undefined => {
+  const lastFrame = frames[frames.length - 1];
+  if (!lastFrame || lastFrame.blockName !== "controls_flow_statements") {
+    return undefined;
+  }
+
+  const flowBlock = findBlockById(blocks, lastFrame.blockId);
+  if (!flowBlock) {
+    return undefined;
+  }
+
+  const loopBlock = loopBlocks.includes(block.blockName)
+    ? block
+    : findEnclosingLoopBlock(blocks, block);
+  if (findEnclosingLoopBlock(blocks, flowBlock)?.id !== loopBlock?.id) {
+    return undefined;
+  }
+
+  return findFieldValue(flowBlock, "FLOW");
+};
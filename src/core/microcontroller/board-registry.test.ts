@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import { deflateRawSync } from "zlib";
+import _ from "lodash";
+import {
+  getBoardDefinitions,
+  loadBoardDefinitionFile,
+  registerBoard,
+  validateBoardDefinition,
+} from "./board-registry";
+import { getBoard } from "./selectBoard";
+import type { BoardDefinition, MicroControllerType } from "./microcontroller";
+import unoArduino from "../../microcontrollers/arduino_uno/profile";
+
+describe("board registry", () => {
+  const createBoardDefinition = (type: string): BoardDefinition => {
+    const profile = {
+      ..._.cloneDeep(unoArduino),
+      type: type as MicroControllerType,
+    };
+    const pinIds = Object.values(profile.pinConnections)
+      .map((p) => `<circle id="${p.id}" cx="1" cy="1" r="1"/>`)
+      .join("");
+
+    return {
+      name: "Pro Mini",
+      fqbn: "arduino:avr:pro",
+      svg: `<svg id="board"><g id="MESSAGE"></g>${pinIds}</svg>`,
+      profile,
+    };
+  };
+
+  it("should have valid built in boards", () => {
+    const types = getBoardDefinitions().map((b) => b.profile.type);
+    expect(types).toEqual(["uno", "nano", "mega"]);
+
+    getBoardDefinitions().forEach((board) => {
+      expect(validateBoardDefinition(board)).toEqual([]);
+    });
+  });
+
+  it("should reject boards with pins that are not in the svg", () => {
+    const board = createBoardDefinition("pro_mini_missing_pin");
+    board.svg = board.svg.replace('id="ARDUINO_PIN_A3"', 'id="A3"');
+
+    expect(validateBoardDefinition(board)).toEqual([
+      "The board svg is missing ARDUINO_PIN_A3.",
+    ]);
+    expect(() => registerBoard(board)).toThrowError(
+      "The board svg is missing ARDUINO_PIN_A3."
+    );
+    expect(getBoard("pro_mini_missing_pin" as MicroControllerType).type).toBe(
+      "uno"
+    );
+  });
+
+  it("should not replace a built in board", () => {
+    expect(() => registerBoard(createBoardDefinition("uno"))).toThrowError(
+      "uno is already a built in board."
+    );
+  });
+
+  it("should register a board from a json file", async () => {
+    const board = createBoardDefinition("pro_mini_json");
+    const file = new File([JSON.stringify(board)], "pro_mini.json");
+
+    await loadBoardDefinitionFile(file);
+
+    expect(getBoard("pro_mini_json" as MicroControllerType).type).toBe(
+      "pro_mini_json"
+    );
+  });
+
+  it("should register a board from a zip file", async () => {
+    const { svg, ...board } = createBoardDefinition("pro_mini_zip");
+    const file = new File(
+      [
+        createZip({
+          "pro_mini/board.json": JSON.stringify(board),
+          "pro_mini/board.svg": svg,
+        }),
+      ],
+      "pro_mini.zip"
+    );
+
+    const definition = await loadBoardDefinitionFile(file);
+
+    expect(definition.svg).toBe(svg);
+    expect(getBoard("pro_mini_zip" as MicroControllerType).type).toBe(
+      "pro_mini_zip"
+    );
+  });
+
+  const createZip = (files: { [path: string]: string }) => {
+    const localParts: Buffer[] = [];
+    const centralParts: Buffer[] = [];
+    let offset = 0;
+
+    Object.entries(files).forEach(([path, text]) => {
+      const name = Buffer.from(path);
+      const data = deflateRawSync(Buffer.from(text));
+
+      const local = Buffer.alloc(30);
+      local.writeUInt32LE(0x04034b50, 0);
+      local.writeUInt16LE(8, 8);
+      local.writeUInt32LE(data.length, 18);
+      local.writeUInt32LE(text.length, 22);
+      local.writeUInt16LE(name.length, 26);
+
+      const central = Buffer.alloc(46);
+      central.writeUInt32LE(0x02014b50, 0);
+      central.writeUInt16LE(8, 10);
+      central.writeUInt32LE(data.length, 20);
+      central.writeUInt32LE(text.length, 24);
+      central.writeUInt16LE(name.length, 28);
+      central.writeUInt32LE(offset, 42);
+
+      localParts.push(local, name, data);
+      centralParts.push(central, name);
+      offset += local.length + name.length + data.length;
+    });
+
+    const centralDirectory = Buffer.concat(centralParts);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(centralDirectory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...localParts, centralDirectory, end]);
+  };
+});
@@ -0,0 +1,217 @@
+import type { BoardDefinition, MicroController } from "./microcontroller";
+import { MicroControllerType } from "./microcontroller";
+import unoArduino from "../../microcontrollers/arduino_uno/profile";
+import arduinoMega from "../../microcontrollers/arduino_mega/profile";
+import nanoArduino from "../../microcontrollers/arduino_nano/profile";
+import arduinoUnoSvg from "../../microcontrollers/arduino_uno/board.svg?raw";
+import arduinoMegaSvg from "../../microcontrollers/arduino_mega/board.svg?raw";
+import arduinoNanoSvg from "../../microcontrollers/arduino_nano/board.svg?raw";
+import is_browser from "../../helpers/is_browser";
+import { readZipFile } from "../../helpers/read-zip-file";
+
+const COMMUNITY_BOARDS_KEY = "community_boards";
+
+const builtInBoards: BoardDefinition[] = [
+  {
+    name: "Arduino Uno",
+    fqbn: "arduino:avr:uno",
+    platformio: "uno",
+    svg: arduinoUnoSvg,
+    profile: unoArduino,
+  },
+  {
+    name: "Arduino Nano",
+    fqbn: "arduino:avr:nano",
+    platformio: "nanoatmega328new",
+    svg: arduinoNanoSvg,
+    profile: nanoArduino,
+  },
+  {
+    name: "Arduino Mega",
+    fqbn: "arduino:avr:mega",
+    platformio: "megaatmega2560",
+    svg: arduinoMegaSvg,
+    profile: arduinoMega,
+  },
+];
+
+const boardRegistry: { [type: string]: BoardDefinition } = {};
+
+builtInBoards.forEach((board) => {
+  boardRegistry[board.profile.type] = board;
+});
+
+const pinListKeys: (keyof MicroController)[] = [
+  "digitalPins",
+  "analonPins",
+  "pwmPins",
+  "pwmNonAnalogPins",
+  "sdaPins",
+  "sclPins",
+  "mosiPins",
+  "misoPins",
+  "sckPins",
+  "ssPins",
+];
+
+/**
+ * Returns the uno when the board type is not registered.
+ */
+export const getBoardDefinition = (
+  type: MicroControllerType | string
+): BoardDefinition => {
+  return boardRegistry[type] || boardRegistry[MicroControllerType.ARDUINO_UNO];
+};
+
+export const getBoardDefinitions = (): BoardDefinition[] => {
+  return Object.values(boardRegistry);
+};
+
+/**
+ * Returns a list of the reasons the board definition can not be used.
+ * Every pin the board lists must have an ARDUINO_PIN_{pin} id in the svg
+ * so the virtual circuit can draw wires to it.
+ */
+export const validateBoardDefinition = (
+  definition: BoardDefinition
+): string[] => {
+  const errors: string[] = [];
+  if (!definition.name) {
+    errors.push("The board is missing a name.");
+  }
+  if (!definition.fqbn) {
+    errors.push("The board is missing an fqbn.");
+  }
+  if (!definition.svg) {
+    errors.push("The board is missing an svg.");
+  }
+  const profile = definition.profile;
+  if (!profile || !profile.type) {
+    errors.push("The board is missing a type.");
+    return errors;
+  }
+  if (!profile.breadboard || !Array.isArray(profile.breadboard.areas)) {
+    errors.push("The board is missing breadboard areas.");
+  }
+
+  const svgIds = findSvgIds(definition.svg || "");
+  if (!svgIds.includes("MESSAGE")) {
+    errors.push("The board svg is missing the MESSAGE group.");
+  }
+
+  const pins = pinListKeys.reduce((acc, key) => {
+    if (!Array.isArray(profile[key])) {
+      errors.push(`The board is missing ${key}.`);
+      return acc;
+    }
+    return [...acc, ...(profile[key] as string[])];
+  }, [] as string[]);
+
+  new Set(pins).forEach((pin) => {
+    if (!svgIds.includes(`ARDUINO_PIN_${pin}`)) {
+      errors.push(`The board svg is missing ARDUINO_PIN_${pin}.`);
+    }
+    const pinConnection = profile.pinConnections
+      ? profile.pinConnections[pin]
+      : undefined;
+    if (!pinConnection) {
+      errors.push(`The board is missing a pin connection for pin ${pin}.`);
+    } else if (
+      pinConnection.id !== `ARDUINO_PIN_${pin}` &&
+      !svgIds.includes(pinConnection.id)
+    ) {
+      errors.push(`The board svg is missing ${pinConnection.id}.`);
+    }
+  });
+
+  return errors;
+};
+
+export const registerBoard = (definition: BoardDefinition) => {
+  const errors = validateBoardDefinition(definition);
+  if (errors.length > 0) {
+    throw new Error(errors.join("\n"));
+  }
+
+  if (
+    builtInBoards.find((b) => b.profile.type === definition.profile.type)
+  ) {
+    throw new Error(`${definition.profile.type} is already a built in board.`);
+  }
+
+  boardRegistry[definition.profile.type] = definition;
+};
+
+/**
+ * Reads a board definition from either a json file with the svg in it
+ * or a zip file with a board.json and a board.svg.  The board gets
+ * registered and saved so that it is there the next time the app loads.
+ */
+export const loadBoardDefinitionFile = async (
+  file: File
+): Promise<BoardDefinition> => {
+  let definition: BoardDefinition;
+  if (file.name.toLowerCase().endsWith(".zip")) {
+    const files = await readZipFile(await file.arrayBuffer());
+    const jsonPath = Object.keys(files).find((p) => p.endsWith("board.json"));
+    const svgPath = Object.keys(files).find((p) => p.endsWith("board.svg"));
+    if (!jsonPath || !svgPath) {
+      throw new Error("The zip file must have a board.json and a board.svg.");
+    }
+    definition = { ...parseBoardJson(files[jsonPath]), svg: files[svgPath] };
+  } else {
+    definition = parseBoardJson(await file.text());
+  }
+
+  registerBoard(definition);
+  saveCommunityBoards();
+  return definition;
+};
+
+const parseBoardJson = (json: string): BoardDefinition => {
+  try {
+    return JSON.parse(json);
+  } catch (e) {
+    throw new Error("The board definition is not valid json.");
+  }
+};
+
+const findSvgIds = (svg: string) => {
+  return [...svg.matchAll(/\sid="([^"]+)"/g)].map((m) => m[1]);
+};
+
+const saveCommunityBoards = () => {
+  if (!is_browser()) {
+    return;
+  }
+
+  const communityBoards = getBoardDefinitions().filter(
+    (b) => !builtInBoards.includes(b)
+  );
+  localStorage.setItem(COMMUNITY_BOARDS_KEY, JSON.stringify(communityBoards));
+};
+
+const loadCommunityBoards = () => {
+  if (!is_browser()) {
+    return;
+  }
+
+  let communityBoards: BoardDefinition[] = [];
+  try {
+    communityBoards = JSON.parse(
+      localStorage.getItem(COMMUNITY_BOARDS_KEY) || "[]"
+    );
+  } catch (e) {
+    console.log(e, "error loading community boards");
+  }
+
+  communityBoards.forEach((board) => {
+    try {
+      registerBoard(board);
+    } catch (e) {
+      console.log(e, "error loading community board");
+    }
+  });
+};
+
+loadCommunityBoards();
@@ -3,6 +3,7 @@ import type { ARDUINO_PINS } from "./selectBoard";
 export enum MicroControllerType {
   ARDUINO_UNO = "uno",
   ARDUINO_MEGA = "mega",
+  ARDUINO_NANO = "nano",
 }
 
 export interface BreadBoardArea {
@@ -59,3 +60,24 @@ export interface MicroControllerBlocks {
   ssPins: [string, string][];
   type: MicroControllerType;
 }
+
+export interface BoardDefinition {
+  /**
+   * The name shown to the user when picking a microcontroller
+   */
+  name: string;
+  /**
+   * The fully qualified board name used to compile code, ie arduino:avr:uno
+   */
+  fqbn: string;
+  /**
+   * The PlatformIO board id, ie uno.  Projects for boards without one
+   * are only exported for arduino-cli.
+   */
+  platformio?: string;
+  /**
+   * The svg of the board with an ARDUINO_PIN_{pin} id for every pin
+   */
+  svg: string;
+  profile: MicroController;
+}
@@ -1,22 +1,18 @@
-import type { MicroControllerBlocks } from './microcontroller';
-import { MicroControllerType } from './microcontroller';
-import unoArduino from '../../microcontrollers/arduino_uno/profile';
+import type {
+  MicroControllerBlocks,
+  MicroControllerType,
+} from './microcontroller';
 import { transformBoardBlockly } from './microcontroller.helpers';
 import { getBoardType } from '../blockly/helpers/get-board.helper';
-import arduinoMega from '../../microcontrollers/arduino_mega/profile';
+import { getBoardDefinition } from './board-registry';
 
 export const getBoard = (type: MicroControllerType) => {
-  return boardProfiles[type] || boardProfiles[MicroControllerType.ARDUINO_UNO];
+  return getBoardDefinition(type).profile;
 };
 
 export const selectBoardBlockly = (): MicroControllerBlocks => {
   const boardType = getBoardType();
-  return transformBoardBlockly(boardProfiles[boardType]);
-};
-
-const boardProfiles = {
-  uno: unoArduino,
-  mega: arduinoMega,
+  return transformBoardBlockly(getBoard(boardType));
 };
 
 export enum ARDUINO_PINS {
@@ -0,0 +1,183 @@
+import config from "../../env";
+import { getBoardDefinition } from "../microcontroller/board-registry";
+import type { MicroControllerType } from "../microcontroller/microcontroller";
+import {
+  findBlockIdForLine,
+  type SourceMapEntry,
+} from "../blockly/generators/source-map";
+import type { ArduinoLibrary } from "../blockly/generators/library-manifest";
+
+// Compiling a sketch with a lot of libraries for the first time can be slow
+const COMPILE_TIMEOUT_MS = 120000;
+
+/**
+ * A warning or error from the compiler.  The line is the line in the
+ * code that was sent to the compile service.
+ */
+export interface CompileMessage {
+  line: number;
+  column: number;
+  message: string;
+}
+
+export interface MemoryUsage {
+  used: number;
+  max: number;
+}
+
+/**
+ * What the compile service responds with.  See server/README.md
+ */
+export interface CompileResult {
+  success: boolean;
+  hex: string | null;
+  errors: CompileMessage[];
+  warnings: CompileMessage[];
+  programSize: MemoryUsage | null;
+  ramSize: MemoryUsage | null;
+}
+
+/**
+ * The libraries are installed by the compile service at the pinned
+ * versions before compiling.  Services that still use the older
+ * upload-code protocol are used until compile_protocol is set to
+ * "compile" in the env file.
+ */
+export const compileCode = async (
+  code: string,
+  type: MicroControllerType,
+  libraries: ArduinoLibrary[] = []
+): Promise<CompileResult> => {
+  if (config.compile_protocol !== "compile") {
+    return compileCodeWithUploadCode(code, type);
+  }
+
+  const response = await fetchCompileService(
+    `${config.server_arduino_url}/compile`,
+    {
+      method: "POST",
+      body: JSON.stringify({
+        code,
+        fqbn: getBoardDefinition(type).fqbn,
+        libraries: libraries.map(({ name, version }) => ({ name, version })),
+      }),
+      headers: { "Content-Type": "application/json" },
+    }
+  );
+
+  let body: any;
+  try {
+    body = await response.json();
+  } catch (e) {
+    throw new Error(
+      `The compile service sent back an invalid response (${response.status}).`
+    );
+  }
+
+  if (!response.ok) {
+    throw new Error(
+      body.error || `The compile service failed (${response.status}).`
+    );
+  }
+
+  return {
+    success: body.success === true,
+    hex: body.hex || null,
+    errors: body.errors || [],
+    warnings: body.warnings || [],
+    programSize: body.programSize || null,
+    ramSize: body.ramSize || null,
+  };
+};
+
+/**
+ * The older protocol sends the code as text and gets back the hex file.
+ * It does not send back errors, warnings or the sizes.
+ */
+const compileCodeWithUploadCode = async (
+  code: string,
+  type: MicroControllerType
+): Promise<CompileResult> => {
+  const fqbn = getBoardDefinition(type).fqbn;
+  const response = await fetchCompileService(
+    `${config.server_arduino_url}/upload-code/${type}?fqbn=${encodeURIComponent(
+      fqbn
+    )}`,
+    {
+      method: "POST",
+      body: code,
+      headers: { "Content-Type": "text/plain" },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`The compile service failed (${response.status}).`);
+  }
+
+  return {
+    success: true,
+    hex: await response.text(),
+    errors: [],
+    warnings: [],
+    programSize: null,
+    ramSize: null,
+  };
+};
+
+const fetchCompileService = async (url: string, init: RequestInit) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), COMPILE_TIMEOUT_MS);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (e) {
+    if (controller.signal.aborted) {
+      throw new Error("The compile service took too long to respond.");
+    }
+    throw new Error("Could not connect to the compile service.");
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Describes how much of the board's memory the program uses and lists
+ * the compiler warnings.  Empty if the compile service did not send them.
+ */
+export const describeCompileResult = (result: CompileResult) => {
+  const usage = (label: string, size: MemoryUsage | null) =>
+    size
+      ? `${label} ${size.used} of ${size.max} bytes (${Math.round(
+          (size.used / size.max) * 100
+        )}%).`
+      : "";
+  const warnings = result.warnings.map(
+    (warning) => `Warning line ${warning.line}: ${warning.message}`
+  );
+
+  return [
+    usage("Program uses", result.programSize),
+    usage("Global variables use", result.ramSize),
+    ...warnings,
+  ]
+    .filter((line) => line !== "")
+    .join("\n");
+};
+
+/**
+ * Finds the block that generated the line of each compiler message.
+ * Only the first message for each block is used.
+ */
+export const findBlocksForCompileMessages = (
+  messages: CompileMessage[],
+  sourceMap: SourceMapEntry[]
+): { blockId: string; message: string }[] => {
+  return messages.reduce((acc, compileMessage) => {
+    const blockId = findBlockIdForLine(sourceMap, compileMessage.line);
+    if (!blockId || acc.find((b) => b.blockId === blockId)) {
+      return acc;
+    }
+
+    return [...acc, { blockId, message: compileMessage.message }];
+  }, [] as { blockId: string; message: string }[]);
+};
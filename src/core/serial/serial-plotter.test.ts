@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  addPlotterLine,
+  parsePlotterLine,
+  plotterLinePoints,
+  plotterRange,
+  plotterSeriesNames,
+  plotterToCsv,
+  samplesInWindow,
+  simulatorPlotterSamples,
+  type PlotterSample,
+} from "./serial-plotter";
+import type { ArduinoFrame } from "../frames/arduino.frame";
+
+describe("serial plotter", () => {
+  it("should read numbers separated by commas, spaces and tabs", () => {
+    expect(parsePlotterLine("42")).toEqual({ "Value 1": 42 });
+    expect(parsePlotterLine(" 1.5, -2\t3 4\r")).toEqual({
+      "Value 1": 1.5,
+      "Value 2": -2,
+      "Value 3": 3,
+      "Value 4": 4,
+    });
+  });
+
+  it("should read named values", () => {
+    expect(parsePlotterLine("Temp:21.5, Light: 300,12")).toEqual({
+      Temp: 21.5,
+      Light: 300,
+      "Value 1": 12,
+    });
+  });
+
+  it("should read named values separated by spaces and tabs", () => {
+    expect(parsePlotterLine("a:1 b:2\tc:3")).toEqual({ a: 1, b: 2, c: 3 });
+  });
+
+  it("should ignore lines that are not numbers", () => {
+    expect(parsePlotterLine("")).toBeUndefined();
+    expect(parsePlotterLine("Hello World")).toBeUndefined();
+    expect(parsePlotterLine("Distance 20")).toBeUndefined();
+    expect(parsePlotterLine("Temp:hot")).toBeUndefined();
+    expect(parsePlotterLine(":20")).toBeUndefined();
+    expect(parsePlotterLine("Time 12:30")).toBeUndefined();
+    expect(parsePlotterLine("Temp C:21.5")).toBeUndefined();
+  });
+
+  it("should forget samples older than the longest time window", () => {
+    let samples: PlotterSample[] = [];
+    samples = addPlotterLine(samples, "1", 0);
+    samples = addPlotterLine(samples, "hello", 100);
+    samples = addPlotterLine(samples, "2", 30000);
+    expect(samples.length).toBe(2);
+
+    samples = addPlotterLine(samples, "3", 60001);
+    expect(samples).toEqual([
+      { time: 30000, values: { "Value 1": 2 } },
+      { time: 60001, values: { "Value 1": 3 } },
+    ]);
+    expect(samplesInWindow(samples, 5000)).toEqual([samples[1]]);
+  });
+
+  it("should use the simulated time for the simulator messages", () => {
+    const frames = [
+      { sendMessage: "", time: 0 },
+      { sendMessage: "a:1,b:2", time: 1000 },
+      { sendMessage: "done", time: 1500 },
+      { sendMessage: "b:4", time: 2000 },
+    ] as ArduinoFrame[];
+
+    const samples = simulatorPlotterSamples(frames);
+    expect(samples).toEqual([
+      { time: 1000, values: { a: 1, b: 2 } },
+      { time: 2000, values: { b: 4 } },
+    ]);
+    expect(plotterSeriesNames(samples)).toEqual(["a", "b"]);
+  });
+
+  it("should scale the chart to the numbers", () => {
+    expect(plotterRange([])).toEqual({ min: 0, max: 1 });
+    expect(plotterRange([{ time: 0, values: { a: 5 } }])).toEqual({
+      min: 4,
+      max: 6,
+    });
+    expect(
+      plotterRange([
+        { time: 0, values: { a: 0, b: 100 } },
+        { time: 1, values: { a: 50 } },
+      ])
+    ).toEqual({ min: -5, max: 105 });
+  });
+
+  it("should put the newest sample on the right edge", () => {
+    const samples: PlotterSample[] = [
+      { time: 0, values: { a: 0 } },
+      { time: 500, values: { b: 1 } },
+      { time: 1000, values: { a: 10 } },
+    ];
+
+    expect(
+      plotterLinePoints(samples, "a", { min: 0, max: 10 }, 1000, 100, 50)
+    ).toBe("0,50 100,0");
+    expect(
+      plotterLinePoints(samples, "b", { min: 0, max: 10 }, 2000, 100, 50)
+    ).toBe("75,45");
+  });
+
+  it("should export the samples as a csv", () => {
+    expect(
+      plotterToCsv([
+        { time: 0, values: { "Temp, C": 20 } },
+        { time: 250, values: { Light: 3, "Temp, C": 21 } },
+      ])
+    ).toBe('Time (ms),"Temp, C",Light\n0,20,\n250,21,3\n');
+  });
+});
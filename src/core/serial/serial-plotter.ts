@@ -0,0 +1,183 @@
+import _ from "lodash";
+import type { ArduinoFrame } from "../frames/arduino.frame";
+
+/**
+ * The numbers from one serial line and when the line arrived in
+ * milliseconds.
+ */
+export interface PlotterSample {
+  time: number;
+  values: { [series: string]: number };
+}
+
+export interface PlotterRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Time windows the plotter can show in milliseconds.
+ */
+export const PLOTTER_TIME_WINDOWS = [5000, 10000, 30000, 60000];
+
+const isNumber = (text: string) => text !== "" && Number.isFinite(Number(text));
+
+/**
+ * Reads a line the way the Arduino IDE serial plotter does.  Numbers can be
+ * separated by commas, spaces or tabs and can be named with name:value.
+ * Names can not have spaces in them.  Numbers without a name are called
+ * Value 1, Value 2 and so on.  Returns undefined if the line is text and
+ * not numbers.
+ */
+export const parsePlotterLine = (line: string) => {
+  const values: { [series: string]: number } = {};
+  let unnamed = 0;
+
+  // A space after the colon keeps the name and value together
+  const parts = line
+    .split(",")
+    .flatMap((part) => part.trim().replace(/:\s+/g, ":").split(/\s+/))
+    .filter((part) => part !== "");
+
+  for (const part of parts) {
+    if (part.includes(":")) {
+      const separator = part.lastIndexOf(":");
+      const name = part.slice(0, separator).trim();
+      const value = part.slice(separator + 1).trim();
+      if (name === "" || !isNumber(value)) {
+        return undefined;
+      }
+      values[name] = Number(value);
+      continue;
+    }
+
+    if (!isNumber(part)) {
+      return undefined;
+    }
+    unnamed += 1;
+    values[`Value ${unnamed}`] = Number(part);
+  }
+
+  return _.isEmpty(values) ? undefined : values;
+};
+
+/**
+ * Adds the numbers from the line and forgets the samples that are older
+ * than the longest time window.
+ */
+export const addPlotterLine = (
+  samples: PlotterSample[],
+  line: string,
+  time: number
+) => {
+  const values = parsePlotterLine(line);
+  if (!values) {
+    return samples;
+  }
+
+  const oldest = time - Math.max(...PLOTTER_TIME_WINDOWS);
+  return [
+    ...samples.filter((sample) => sample.time >= oldest),
+    { time, values },
+  ];
+};
+
+/**
+ * Turns the messages the simulated Arduino sends into samples using the
+ * simulated time, so they can be compared with a real Arduino.
+ */
+export const simulatorPlotterSamples = (frames: ArduinoFrame[]) =>
+  frames
+    .filter((frame) => frame.sendMessage)
+    .reduce(
+      (samples, frame) =>
+        addPlotterLine(samples, frame.sendMessage, frame.time),
+      [] as PlotterSample[]
+    );
+
+/**
+ * The samples in the last windowMs milliseconds.
+ */
+export const samplesInWindow = (samples: PlotterSample[], windowMs: number) => {
+  if (samples.length === 0) {
+    return [];
+  }
+
+  const start = samples[samples.length - 1].time - windowMs;
+  return samples.filter((sample) => sample.time >= start);
+};
+
+/**
+ * The names of the series in the order they first appeared.
+ */
+export const plotterSeriesNames = (samples: PlotterSample[]) =>
+  _.uniq(samples.flatMap((sample) => Object.keys(sample.values)));
+
+/**
+ * The smallest and largest number with some room around them so the lines
+ * do not touch the edges of the chart.
+ */
+export const plotterRange = (samples: PlotterSample[]): PlotterRange => {
+  const values = samples.flatMap((sample) => Object.values(sample.values));
+  if (values.length === 0) {
+    return { min: 0, max: 1 };
+  }
+
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (min === max) {
+    return { min: min - 1, max: max + 1 };
+  }
+
+  const padding = (max - min) * 0.05;
+  return { min: min - padding, max: max + padding };
+};
+
+/**
+ * The svg polyline points for one series.  The newest sample is on the
+ * right edge and the chart is windowMs milliseconds wide.
+ */
+export const plotterLinePoints = (
+  samples: PlotterSample[],
+  series: string,
+  range: PlotterRange,
+  windowMs: number,
+  width: number,
+  height: number
+) => {
+  if (samples.length === 0) {
+    return "";
+  }
+
+  const end = samples[samples.length - 1].time;
+  return samples
+    .filter((sample) => sample.values[series] !== undefined)
+    .map((sample) => {
+      const x = width - ((end - sample.time) / windowMs) * width;
+      const y =
+        height -
+        ((sample.values[series] - range.min) / (range.max - range.min)) *
+          height;
+      return `${_.round(x, 2)},${_.round(y, 2)}`;
+    })
+    .join(" ");
+};
+
+/**
+ * Writes the samples as a csv with a column for the time and one for each
+ * series.  Series that were not in a line are left empty.
+ */
+export const plotterToCsv = (samples: PlotterSample[]) => {
+  const escape = (text: string) =>
+    /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  const names = plotterSeriesNames(samples);
+
+  return [
+    ["Time (ms)", ...names].map(escape).join(","),
+    ...samples.map((sample) =>
+      [sample.time, ...names.map((name) => sample.values[name] ?? "")].join(",")
+    ),
+  ]
+    .join("\n")
+    .concat("\n");
+};
@@ -1,5 +1,6 @@
 import type { MicroControllerType } from "../microcontroller/microcontroller";
-import config from "../../env";
+import { compileCode, type CompileResult } from "./compile";
+import type { ArduinoLibrary } from "../blockly/generators/library-manifest";
 
 declare class AvrgirlArduino {
   constructor(config: any);
@@ -7,37 +8,28 @@ declare class AvrgirlArduino {
   flash(hex: string, call: (error) => void): void;
 }
 
+/**
+ * Compiles the code and only flashes the arduino if it compiled.
+ */
 export const upload = async (
   code: string,
   avrgirl: AvrgirlArduino,
-  type: MicroControllerType
-) => {
-  const hexCode = await compileCode(code, type);
+  type: MicroControllerType,
+  libraries: ArduinoLibrary[] = []
+): Promise<CompileResult> => {
+  const result = await compileCode(code, type, libraries);
+  if (!result.success) {
+    return result;
+  }
 
   const enc = new TextEncoder();
   return new Promise((res, rej) => {
-    avrgirl.flash(enc.encode(hexCode) as any, (error) => {
+    avrgirl.flash(enc.encode(result.hex as string) as any, (error) => {
       if (error) {
         rej(error);
       } else {
-        res("flash successful");
+        res(result);
       }
     });
   });
 };
-
-const compileCode = async (code: string, type: string): Promise<string> => {
-  const headers = new Headers();
-  headers.append("Content-Type", "text/plain");
-
-  const response = await fetch(
-    `${config.server_arduino_url}/upload-code/${type}`,
-    {
-      method: "POST",
-      body: code,
-      headers,
-    }
-  );
-
-  return await response.text();
-};
@@ -0,0 +1,109 @@
+import { SVG, type Element, type Svg } from "@svgdotjs/svg.js";
+import type { ArduinoFrameContainer } from "../frames/arduino.frame";
+import type { CircuitParts } from "./circuit-report";
+import paint from "./paint";
+
+// Space around the circuit in the diagram
+const PADDING = 20;
+
+// The png is drawn at twice the size so it prints sharply
+const PNG_SCALE = 2;
+
+/**
+ * Reads the components, resistors and wires from a painted circuit.
+ */
+export const readCircuitParts = (draw: Svg): CircuitParts => {
+  const wires = draw
+    .find("line")
+    .filter((line) => line.data("type") === "wire");
+
+  return {
+    components: draw.find(".component").map((el: Element) => ({
+      id: el.id(),
+      type: el.data("component-type"),
+    })),
+    resistors: draw
+      .find("[data-type=resistor]")
+      .map((el: Element) => +el.data("ohms")),
+    boardWires: wires
+      .filter((line) => line.data("pin") !== undefined)
+      .map((line) => ({
+        componentId: line.data("component-id"),
+        pin: line.data("pin").toString(),
+        color: line.attr("stroke"),
+      })),
+    wires: wires.length,
+  };
+};
+
+/**
+ * Paints the last frame off screen to create a printable wiring diagram.
+ * The simulator may not be showing so the circuit gets its own svg.
+ */
+export const renderCircuit = async (
+  frameContainer: ArduinoFrameContainer
+): Promise<{ svg: string; width: number; height: number; parts: CircuitParts }> => {
+  // Components are made draggable when they are created
+  await import("@svgdotjs/svg.draggable.js");
+
+  const container = document.createElement("div");
+  container.style.position = "absolute";
+  container.style.left = "-10000px";
+  container.style.top = "0";
+  document.body.appendChild(container);
+
+  try {
+    const draw = SVG().addTo(container).size(1000, 1000).viewbox(0, 0, 1000, 1000);
+    paint(draw, frameContainer);
+
+    const box = draw.bbox();
+    const width = Math.ceil(box.width + PADDING * 2);
+    const height = Math.ceil(box.height + PADDING * 2);
+    draw
+      .rect(width, height)
+      .move(box.x - PADDING, box.y - PADDING)
+      .fill("#fff")
+      .back();
+    draw.viewbox(box.x - PADDING, box.y - PADDING, width, height).size(width, height);
+
+    return { svg: draw.svg(), width, height, parts: readCircuitParts(draw) };
+  } finally {
+    container.remove();
+  }
+};
+
+/**
+ * Draws the svg on a canvas to turn it into a png.
+ */
+export const svgToPng = async (
+  svg: string,
+  width: number,
+  height: number
+): Promise<Blob> => {
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: "image/svg+xml;charset=utf-8" })
+  );
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = width * PNG_SCALE;
+    canvas.height = height * PNG_SCALE;
+    const context = canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Your browser can not create images.");
+    }
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    return await new Promise((resolve, reject) => {
+      canvas.toBlob((blob) =>
+        blob ? resolve(blob) : reject(new Error("Could not create the image."))
+      );
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
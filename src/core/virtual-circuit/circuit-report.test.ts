@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import {
+  createBillOfMaterials,
+  createPinMapping,
+  formatOhms,
+  toCsv,
+  type CircuitParts,
+} from "./circuit-report";
+import { ohmsToBandNames, ohmsToBands } from "./resistor-color-calculator";
+import { ArduinoComponentType } from "../frames/arduino.frame";
+
+const parts: CircuitParts = {
+  components: [
+    { id: "SERVO_COMPONENT_9", type: ArduinoComponentType.SERVO },
+    { id: "LED_COMPONENT_3", type: ArduinoComponentType.LED },
+    { id: "SERVO_COMPONENT_6", type: ArduinoComponentType.SERVO },
+    { id: "LED_COMPONENT_5", type: ArduinoComponentType.LED },
+  ],
+  resistors: [300, 10000, 300],
+  boardWires: [
+    { componentId: "LED_COMPONENT_3", pin: "3", color: "#34CE5F" },
+    { componentId: "SERVO_COMPONENT_9", pin: "9", color: "#B637CC" },
+    { componentId: "SERVO_COMPONENT_6", pin: "6", color: "#123456" },
+    { componentId: "LED_COMPONENT_5", pin: "5", color: "#ffe600" },
+  ],
+  wires: 14,
+};
+
+describe("circuit report", () => {
+  it("should map each component to its pin and wire color", () => {
+    expect(createPinMapping(parts)).toEqual([
+      { component: "Servo 1", pin: "9", color: "Purple" },
+      { component: "LED 1", pin: "3", color: "Green" },
+      { component: "Servo 2", pin: "6", color: "#123456" },
+      { component: "LED 2", pin: "5", color: "Yellow" },
+    ]);
+  });
+
+  it("should count the parts and resistor values", () => {
+    expect(createBillOfMaterials(parts, "Arduino Uno")).toEqual([
+      { part: "Arduino Uno", quantity: 1 },
+      { part: "Breadboard", quantity: 1 },
+      { part: "Servo", quantity: 2 },
+      { part: "LED", quantity: 2 },
+      { part: "300 Ω resistor (orange, black, brown)", quantity: 2 },
+      { part: "10 kΩ resistor (brown, black, orange)", quantity: 1 },
+      { part: "Jumper wire", quantity: 14 },
+    ]);
+  });
+
+  it("should only list the board and breadboard for an empty circuit", () => {
+    const empty = { components: [], resistors: [], boardWires: [], wires: 0 };
+
+    expect(createPinMapping(empty)).toEqual([]);
+    expect(createBillOfMaterials(empty, "Arduino Nano")).toEqual([
+      { part: "Arduino Nano", quantity: 1 },
+      { part: "Breadboard", quantity: 1 },
+    ]);
+  });
+
+  it("should format resistor values", () => {
+    expect(formatOhms(220)).toBe("220 Ω");
+    expect(formatOhms(4700)).toBe("4.7 kΩ");
+    expect(formatOhms(1000000)).toBe("1 MΩ");
+    expect(ohmsToBandNames(1000)).toEqual(["BROWN", "BLACK", "RED"]);
+    expect(ohmsToBands(1000)).toEqual(["#964B00", "#000000", "#FF0000"]);
+  });
+
+  it("should write csv with quoted values", () => {
+    expect(
+      toCsv(
+        [
+          { part: "Servo", quantity: 2 },
+          { part: 'LCD screen, 16" wide', quantity: 1 },
+        ],
+        ["part", "quantity"]
+      )
+    ).toBe(`Part,Quantity
+Servo,2
+"LCD screen, 16"" wide",1
+`);
+  });
+});
@@ -0,0 +1,165 @@
+import _ from "lodash";
+import { ArduinoComponentType } from "../frames/arduino.frame";
+import { ohmsToBandNames } from "./resistor-color-calculator";
+
+/**
+ * What is drawn in the virtual circuit.
+ */
+export interface CircuitParts {
+  components: { id: string; type: ArduinoComponentType }[];
+  // The ohms of every resistor
+  resistors: number[];
+  // Wires that go from a component to a pin on the board
+  boardWires: { componentId: string; pin: string; color: string }[];
+  // Every wire including power and ground wires
+  wires: number;
+}
+
+export interface PinMappingRow {
+  component: string;
+  pin: string;
+  color: string;
+}
+
+export interface BillOfMaterialsRow {
+  part: string;
+  quantity: number;
+}
+
+const COMPONENT_NAMES: { [type: string]: string } = {
+  [ArduinoComponentType.SERVO]: "Servo",
+  [ArduinoComponentType.LCD_SCREEN]: "LCD screen (I2C)",
+  [ArduinoComponentType.LED_MATRIX]: "LED matrix",
+  [ArduinoComponentType.NEO_PIXEL_STRIP]: "NeoPixel strip",
+  [ArduinoComponentType.FASTLED_STRIP]: "FastLED strip",
+  [ArduinoComponentType.MOTOR]: "DC motor",
+  [ArduinoComponentType.BLUE_TOOTH]: "Bluetooth module",
+  [ArduinoComponentType.LED_COLOR]: "RGB LED",
+  [ArduinoComponentType.LED]: "LED",
+  [ArduinoComponentType.WRITE_PIN]: "Digital or analog output",
+  [ArduinoComponentType.RFID]: "RFID reader",
+  [ArduinoComponentType.BUTTON]: "Button",
+  [ArduinoComponentType.DIGITAL_SENSOR]: "Digital sensor",
+  [ArduinoComponentType.ANALOG_SENSOR]: "Analog sensor",
+  [ArduinoComponentType.IR_REMOTE]: "IR receiver",
+  [ArduinoComponentType.ULTRASONICE_SENSOR]: "Ultrasonic sensor",
+  [ArduinoComponentType.TEMPERATURE_SENSOR]: "Temperature and humidity sensor",
+  [ArduinoComponentType.THERMISTOR]: "Thermistor",
+  [ArduinoComponentType.PASSIVE_BUZZER]: "Passive buzzer",
+  [ArduinoComponentType.STEPPER_MOTOR]: "Stepper motor",
+  [ArduinoComponentType.DIGITAL_DISPLAY]: "4 digit display",
+  [ArduinoComponentType.JOYSTICK]: "Joystick",
+  [ArduinoComponentType.OLED]: "OLED screen (I2C)",
+};
+
+// The wire colors in the board profiles and wire.ts
+const WIRE_COLOR_NAMES: { [color: string]: string } = {
+  "#B637CC": "Purple",
+  "#CC9E37": "Light brown",
+  "#34CE5F": "Green",
+  "#5533D1": "Deep purple",
+  "#FFE600": "Yellow",
+  "#D15F33": "Orange",
+  "#000": "Black",
+  "#AA0000": "Red",
+  "#999": "Gray",
+};
+
+const componentName = (type: ArduinoComponentType) =>
+  COMPONENT_NAMES[type] || _.startCase(type.toLowerCase());
+
+export const wireColorName = (color: string) =>
+  WIRE_COLOR_NAMES[color.toUpperCase()] || color;
+
+// 300 -> 300 Ω and 10000 -> 10 kΩ
+export const formatOhms = (ohms: number) => {
+  if (ohms >= 1000000) {
+    return `${ohms / 1000000} MΩ`;
+  }
+
+  if (ohms >= 1000) {
+    return `${ohms / 1000} kΩ`;
+  }
+
+  return `${ohms} Ω`;
+};
+
+/**
+ * Names the components, when there is more than one of a type they are
+ * numbered, ie Servo 1 and Servo 2.
+ */
+const labelComponents = (parts: CircuitParts) => {
+  const counts = _.countBy(parts.components, (c) => c.type);
+  const seen: { [type: string]: number } = {};
+
+  return parts.components.reduce((labels, component) => {
+    seen[component.type] = (seen[component.type] || 0) + 1;
+    const name = componentName(component.type);
+    labels[component.id] =
+      counts[component.type] > 1 ? `${name} ${seen[component.type]}` : name;
+    return labels;
+  }, {} as { [id: string]: string });
+};
+
+/**
+ * Lists which board pin every component is wired to and the wire color
+ * used in the virtual circuit.
+ */
+export const createPinMapping = (parts: CircuitParts): PinMappingRow[] => {
+  const labels = labelComponents(parts);
+  const order = parts.components.map((c) => c.id);
+
+  return _.sortBy(
+    parts.boardWires.filter((wire) => labels[wire.componentId]),
+    (wire) => order.indexOf(wire.componentId)
+  ).map((wire) => ({
+    component: labels[wire.componentId],
+    pin: wire.pin,
+    color: wireColorName(wire.color),
+  }));
+};
+
+/**
+ * Lists the parts needed to build the circuit.
+ */
+export const createBillOfMaterials = (
+  parts: CircuitParts,
+  boardName: string
+): BillOfMaterialsRow[] => {
+  const components = _.toPairs(
+    _.countBy(parts.components, (c) => componentName(c.type))
+  ).map(([part, quantity]) => ({ part, quantity }));
+
+  const resistors = _.sortBy(_.toPairs(_.countBy(parts.resistors)), ([ohms]) => +ohms)
+    .map(([ohms, quantity]) => ({
+      part: `${formatOhms(+ohms)} resistor (${ohmsToBandNames(+ohms)
+        .map((band) => band.toLowerCase())
+        .join(", ")})`,
+      quantity,
+    }));
+
+  return [
+    { part: boardName, quantity: 1 },
+    { part: "Breadboard", quantity: 1 },
+    ...components,
+    ...resistors,
+    ...(parts.wires > 0 ? [{ part: "Jumper wire", quantity: parts.wires }] : []),
+  ];
+};
+
+/**
+ * Writes the rows as csv with a header row for the columns.
+ */
+export const toCsv = <T extends object>(rows: T[], headers: (keyof T)[]) => {
+  const escape = (value: unknown) => {
+    const text = `${value}`;
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  return [
+    headers.map((h) => escape(_.startCase(h.toString()))).join(","),
+    ...rows.map((row) => headers.map((h) => escape(row[h])).join(",")),
+  ]
+    .join("\n")
+    .concat("\n");
+};
@@ -10,4 +10,19 @@ export const addDraggableEvent = (
     e.stopPropagation();
     updateWires(componentEl, draw, arduino as Svg);
   });
-};
\ No newline at end of file
+};
+/**
+ * Lets the simulator know the user wants to change a sensor
+ * while the simulation is running.
+ */
+export const addLiveSensorInputEvent = (
+  componentEl: Element,
+  componentId: string
+) => {
+  componentEl.css('cursor', 'pointer');
+  componentEl.on('click', () => {
+    document.dispatchEvent(
+      new CustomEvent('live-sensor-input-show', { detail: { componentId } })
+    );
+  });
+};
@@ -3,6 +3,7 @@ import {
   ArduinoFrame,
   ArduinoComponentType,
   ArduinoFrameContainer,
+  I2C_COMPONENTS,
 } from '../frames/arduino.frame';
 import { ANALOG_PINS, getBoard } from '../microcontroller/selectBoard';
 import { hideAllAnalogWires, resetBreadBoardHoles } from './wire';
@@ -89,24 +90,38 @@ const clearComponents = (
   arduino: Element,
   lastFrame: ArduinoFrame
 ) => {
-  draw
-    .find('.component')
-    // It does not exist the id
-    .filter(
-      (c) =>
-        !lastFrame ||
-        lastFrame.components.length === 0 ||
-        !lastFrame.components.map(arduinoComponentStateToId).includes(c.id())
-    )
-    .forEach((c: Element) => {
-      const componentId = c.attr('id');
-      // If there are not frames just delete all the components
-      c.remove();
-      draw
-        .find(`[data-component-id=${componentId}]`)
-        .forEach((c) => c.remove());
-      return;
-    });
+  const components = draw.find('.component');
+  // It does not exist the id
+  const removedComponents = components.filter(
+    (c) =>
+      !lastFrame ||
+      lastFrame.components.length === 0 ||
+      !lastFrame.components.map(arduinoComponentStateToId).includes(c.id())
+  );
+
+  const isI2cComponent = (c: Element) =>
+    I2C_COMPONENTS.includes(c.data('component-type'));
+
+  // The bus wires of the other I2C components can go through the removed
+  // component so they all get wired again
+  const componentsToRemove = removedComponents.some(isI2cComponent)
+    ? [
+        ...removedComponents,
+        ...components.filter(
+          (c) => isI2cComponent(c) && !removedComponents.includes(c)
+        ),
+      ]
+    : removedComponents;
+
+  componentsToRemove.forEach((c: Element) => {
+    const componentId = c.attr('id');
+    // If there are not frames just delete all the components
+    c.remove();
+    draw
+      .find(`[data-component-id=${componentId}]`)
+      .forEach((c) => c.remove());
+    return;
+  });
 
   arduino.findOne('#MESSAGE').hide();
 };
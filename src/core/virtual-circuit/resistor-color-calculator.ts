@@ -24,16 +24,25 @@ const resistorColor = {
   BLACK: "#000000",
 };
 
-export const ohmsToBands = (ohms: number): [string, string, string] => {
-  const firstColor = resistorColor[resistorIndex[+ohms.toString()[0]]];
-  const secondColor = resistorColor[resistorIndex[+ohms.toString()[1]]];
-  let thirdColor = "";
+/**
+ * Returns the names of the 3 color bands, ie BROWN BLACK ORANGE for 10k.
+ */
+export const ohmsToBandNames = (ohms: number): [string, string, string] => {
+  const first = resistorIndex[+ohms.toString()[0]];
+  const second = resistorIndex[+ohms.toString()[1]];
+  let third = "";
 
   if (ohms < 100) {
-    thirdColor = resistorColor.BLACK;
+    third = "BLACK";
   } else {
-    thirdColor = resistorColor[resistorIndex[ohms.toString().length - 2]];
+    third = resistorIndex[ohms.toString().length - 2];
   }
 
-  return [firstColor, secondColor, thirdColor];
+  return [first, second, third];
+};
+
+export const ohmsToBands = (ohms: number): [string, string, string] => {
+  const [first, second, third] = ohmsToBandNames(ohms);
+
+  return [resistorColor[first], resistorColor[second], resistorColor[third]];
 };
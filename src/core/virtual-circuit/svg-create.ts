@@ -4,7 +4,11 @@ import {
   ArduinoComponentState,
   ArduinoComponentType,
 } from "../frames/arduino.frame";
-import { addDraggableEvent } from "./component-events.helpers";
+import {
+  addDraggableEvent,
+  addLiveSensorInputEvent,
+} from "./component-events.helpers";
+import { liveSensorInputTypes } from "../frames/live-sensor-input";
 import {
   bluetoothPosition,
   createBluetoothWires,
@@ -126,6 +130,11 @@ import {
   digitalDisplayCreate,
   digitalDisplayPosition,
 } from "../../blocks/digit4display/virtual-circuit";
+import {
+  createWiresOled,
+  oledCreate,
+  oledPosition,
+} from "../../blocks/oled/virtual-circuit";
 import {
   afterComponentHookJoyStick,
   createWireJoyStick,
@@ -194,6 +203,10 @@ export default (
   if (componentEl.data("disableDraggable") !== "TRUE") {
     addDraggableEvent(componentEl, arduinoEl, draw);
   }
+
+  if (liveSensorInputTypes.includes(state.type)) {
+    addLiveSensorInputEvent(componentEl, id);
+  }
 };
 
 export interface PositionComponent<T extends ArduinoComponentState> {
@@ -274,6 +287,7 @@ const createWires: { [key: string]: CreateWire<ArduinoComponentState> } = {
   [ArduinoComponentType.STEPPER_MOTOR]: createWireStepperMotor,
   [ArduinoComponentType.DIGITAL_DISPLAY]: createWiresDigitalDisplay,
   [ArduinoComponentType.JOYSTICK]: createWireJoyStick,
+  [ArduinoComponentType.OLED]: createWiresOled,
 };
 
 const positionComponentHookFunc: {
@@ -302,6 +316,7 @@ const positionComponentHookFunc: {
   [ArduinoComponentType.STEPPER_MOTOR]: positionStepperMotor,
   [ArduinoComponentType.DIGITAL_DISPLAY]: digitalDisplayPosition,
   [ArduinoComponentType.JOYSTICK]: positionJoyStick,
+  [ArduinoComponentType.OLED]: oledPosition,
 };
 
 const createComponentHookFunc: {
@@ -330,4 +345,5 @@ const createComponentHookFunc: {
   [ArduinoComponentType.STEPPER_MOTOR]: emptyCreateHookComponent,
   [ArduinoComponentType.DIGITAL_DISPLAY]: digitalDisplayCreate,
   [ArduinoComponentType.JOYSTICK]: afterComponentHookJoyStick,
+  [ArduinoComponentType.OLED]: oledCreate,
 };
@@ -29,6 +29,7 @@ import { getAnalogSensorSvg } from "../../blocks/analogsensor/svg-string";
 import stepperMotorSvg from "../../blocks/steppermotor/steppermotor.svg?raw";
 import digitalDisplaySvg from "../../blocks/digit4display/digitdisplay.svg?raw";
 import joyStickSvg from "../../blocks/joystick/joystick.svg?raw";
+import oledSvg from "../../blocks/oled/oled.svg?raw";
 import { FastLEDState } from "../../blocks/fastled/state";
 import rgbLEDSVG from "../../blocks/rgbled/rgbled.svg?raw";
 
@@ -77,4 +78,5 @@ const createSvgString: { [key: string]: GetSvgString } = {
   [ArduinoComponentType.STEPPER_MOTOR]: (_) => stepperMotorSvg,
   [ArduinoComponentType.DIGITAL_DISPLAY]: (_) => digitalDisplaySvg,
   [ArduinoComponentType.JOYSTICK]: (_) => joyStickSvg,
+  [ArduinoComponentType.OLED]: (_) => oledSvg,
 };
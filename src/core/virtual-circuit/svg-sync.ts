@@ -75,6 +75,7 @@ import {
   digitalDisplayReset,
   digitalDisplayUpdate,
 } from "../../blocks/digit4display/virtual-circuit";
+import { oledReset, oledUpdate } from "../../blocks/oled/virtual-circuit";
 import {
   resetJoyStick,
   updateJoyStick,
@@ -117,6 +118,7 @@ const resetComponent = {
   [ArduinoComponentType.STEPPER_MOTOR]: resetStepperMotor,
   [ArduinoComponentType.DIGITAL_DISPLAY]: digitalDisplayReset,
   [ArduinoComponentType.JOYSTICK]: resetJoyStick,
+  [ArduinoComponentType.OLED]: oledReset,
 };
 
 const syncComponent = {
@@ -143,6 +145,7 @@ const syncComponent = {
   [ArduinoComponentType.STEPPER_MOTOR]: updateStepperMotor,
   [ArduinoComponentType.DIGITAL_DISPLAY]: digitalDisplayUpdate,
   [ArduinoComponentType.JOYSTICK]: updateJoyStick,
+  [ArduinoComponentType.OLED]: oledUpdate,
 };
 
 export const syncComponents = (frame: ArduinoFrame, draw: Svg) => {
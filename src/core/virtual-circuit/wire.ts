@@ -66,6 +66,9 @@ export const createWireFromArduinoToBreadBoard = (
   line.data("component-id", componentId);
   line.data("type", "wire");
   line.data("update-wire", false);
+  line.data("pin", pin);
+
+  return line;
 };
 
 export const createWireComponentToBreadboard = (
@@ -113,6 +116,8 @@ export const createWireBreadboard = (
   line.data("component-id", componentId);
   line.data("type", "wire");
   line.data("update-wire", false);
+
+  return line;
 };
 
 export const getGroundorPowerWireLetter = (
@@ -211,6 +216,62 @@ export const createComponentWire = (
   );
 };
 
+/**
+ * Components on the I2C bus share the SDA and SCL pins.  The first component
+ * is wired to the Arduino and the others are wired to the first component's
+ * row on the breadboard so there is only one wire per pin going to the Arduino.
+ */
+export const createI2cBusWire = (
+  hole: number,
+  isDown: boolean,
+  componentEl: Element,
+  pin: ARDUINO_PINS,
+  draw: Svg,
+  arduino: Element,
+  componentId: string,
+  connectionId: string,
+  board: MicroController
+) => {
+  const holeId = `pin${hole}${isDown ? "E" : "F"}`;
+  const busHoleId = `pin${hole}${isDown ? "A" : "J"}`;
+  const color = board.pinConnections[pin].color;
+  createWireComponentToBreadboard(
+    holeId,
+    componentEl,
+    draw,
+    arduino,
+    connectionId,
+    componentId,
+    color
+  );
+
+  const busWire = (draw.find("line") as any[] as Line[]).find(
+    (w) => String(w.data("i2c-bus-pin")) === pin
+  );
+  const line = busWire
+    ? createWireBreadboard(
+        busHoleId,
+        busWire.data("i2c-bus-hole"),
+        color,
+        draw,
+        arduino as Svg,
+        componentId
+      )
+    : createWireFromArduinoToBreadBoard(
+        pin,
+        arduino as Svg,
+        draw,
+        busHoleId,
+        componentId,
+        board
+      );
+
+  // Still counts as a wire to the pin for the pin mapping
+  line.data("pin", pin);
+  line.data("i2c-bus-pin", pin);
+  line.data("i2c-bus-hole", busHoleId);
+};
+
 export const findBreadboardHoleXY = (
   pinHoleId,
   arduino: Element,
@@ -255,6 +316,8 @@ export const createResistor = (
   resistorEl.findOne("#BAND_2").node.style.stroke = bandColor2;
   resistorEl.findOne("#BAND_3").node.style.stroke = bandColor3;
   resistorEl.data("component-id", componentId);
+  resistorEl.data("type", "resistor");
+  resistorEl.data("ohms", ohms);
   const holeId = `pin${hole}${isConnecting ? "F" : "D"}`;
 
   const { x, y } = findResistorBreadboardHoleXY(holeId, arduino, draw);
@@ -10,5 +10,7 @@ export default {
     measurementId: "",
   },
   server_arduino_url: "",
+  // "upload-code" until the compile service supports POST /compile, see server/README.md
+  compile_protocol: "upload-code",
   bucket_name: "",
 };
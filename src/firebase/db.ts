@@ -65,7 +65,7 @@ export async function saveProject(project: Project, projectId: string) {
     project.updated = new Date();
     
     await convexClient.mutation('projects:updateProject', {
-      projectId,
+      id: projectId,
       name: project.name,
       description: project.description
     });
@@ -29,6 +29,9 @@ export interface Settings {
   customLedColor: boolean;
   maxTimePerMove: number;
   boardType: MicroControllerType;
+  // Passive buzzer sound in the simulator, the volume goes from 0 to 100
+  buzzerMuted: boolean;
+  buzzerVolume: number;
 }
 
 export const defaultSetting: Settings = {
@@ -38,4 +41,6 @@ export const defaultSetting: Settings = {
   customLedColor: false,
   maxTimePerMove: 20,
   boardType: MicroControllerType.ARDUINO_UNO,
+  buzzerMuted: false,
+  buzzerVolume: 50,
 };
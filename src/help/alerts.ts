@@ -21,3 +21,16 @@ export const onConfirm = async (message: string): Promise<boolean> => {
 export const onSuccess = (message: string) => {
   swal("Good job!", message, "success");
 };
+
+export const onPrompt = async (message: string): Promise<string | null> => {
+  try {
+    return await swal({
+      text: message,
+      content: { element: "input" },
+      buttons: [true, true],
+    });
+  } catch (e) {
+    console.error(e);
+    return prompt(message);
+  }
+};
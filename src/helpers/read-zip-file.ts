@@ -0,0 +1,80 @@
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+/**
+ * Reads every file in a zip archive as text keyed by its path.
+ * Only stored and deflated entries are supported which is what
+ * every zip tool creates by default.
+ */
+export async function readZipFile(
+  buffer: ArrayBuffer
+): Promise<{ [path: string]: string }> {
+  const view = new DataView(buffer);
+  const endOfDirectory = findEndOfCentralDirectory(view);
+  const totalEntries = view.getUint16(endOfDirectory + 10, true);
+  let offset = view.getUint32(endOfDirectory + 16, true);
+
+  const files: { [path: string]: string } = {};
+  for (let i = 0; i < totalEntries; i += 1) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error("Zip file has an invalid central directory.");
+    }
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const path = new TextDecoder().decode(
+      new Uint8Array(buffer, offset + 46, nameLength)
+    );
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith("/")) {
+      continue;
+    }
+
+    if (view.getUint32(localHeader, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Zip file entry ${path} is invalid.`);
+    }
+    const dataStart =
+      localHeader +
+      30 +
+      view.getUint16(localHeader + 26, true) +
+      view.getUint16(localHeader + 28, true);
+    const data = new Uint8Array(buffer, dataStart, compressedSize);
+
+    files[path] = await decompress(data, method, path);
+  }
+
+  return files;
+}
+
+const findEndOfCentralDirectory = (view: DataView) => {
+  // The record is 22 bytes plus a comment that can be up to 65535 bytes
+  const lastPossible = Math.max(0, view.byteLength - 22 - 65535);
+  for (let offset = view.byteLength - 22; offset >= lastPossible; offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return offset;
+    }
+  }
+
+  throw new Error("Please upload a valid zip file.");
+};
+
+const decompress = async (data: Uint8Array, method: number, path: string) => {
+  if (method === 0) {
+    return new TextDecoder().decode(data);
+  }
+
+  if (method !== 8) {
+    throw new Error(`Zip file entry ${path} uses an unsupported compression.`);
+  }
+
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+
+  return await new Response(stream).text();
+};
@@ -0,0 +1,21 @@
+/**
+ * Splits the html highlight.js creates into lines.  Spans that go over
+ * multiple lines, like comments, are closed at the end of each line
+ * and opened again on the next one so every line is valid html.
+ */
+export const splitHighlightedLines = (html: string): string[] => {
+  const openTags: string[] = [];
+
+  return html.split("\n").map((line) => {
+    const reopenedTags = openTags.join("");
+    for (const match of line.matchAll(/<span[^>]*>|<\/span>/g)) {
+      if (match[0] === "</span>") {
+        openTags.pop();
+      } else {
+        openTags.push(match[0]);
+      }
+    }
+
+    return reopenedTags + line + "</span>".repeat(openTags.length);
+  });
+};
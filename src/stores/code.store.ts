@@ -1,5 +1,7 @@
 import { writable } from "svelte/store";
 import { MicroControllerType } from "../core/microcontroller/microcontroller";
+import type { SourceMapEntry } from "../core/blockly/generators/source-map";
+import type { LibraryManifest } from "../core/blockly/generators/library-manifest";
 
 const resetCode = `int simple_loop_variable = 0;
 struct RGB {
@@ -20,14 +22,26 @@ void loop() {
 
 }
 `;
-const codeStore = writable({
+const codeStore = writable<{
+  code: string;
+  boardType: MicroControllerType;
+  sourceMap: SourceMapEntry[];
+  libraries: LibraryManifest;
+}>({
   code: resetCode,
   boardType: MicroControllerType.ARDUINO_UNO,
+  sourceMap: [],
+  libraries: { libraries: [], unknownHeaders: [] },
 });
 
 export default {
   set: codeStore.set,
   subscribe: codeStore.subscribe,
   resetCode: (boardType: MicroControllerType) =>
-    codeStore.set({ code: resetCode, boardType }),
+    codeStore.set({
+      code: resetCode,
+      boardType,
+      sourceMap: [],
+      libraries: { libraries: [], unknownHeaders: [] },
+    }),
 };
@@ -0,0 +1,10 @@
+import { writable } from 'svelte/store';
+import type { Collaborator } from '../core/collaboration/collaboration.operations';
+
+// The other people editing the current project
+const collaboratorsStore = writable<Collaborator[]>([]);
+
+export default {
+  subscribe: collaboratorsStore.subscribe,
+  set: collaboratorsStore.set,
+};
@@ -0,0 +1,9 @@
+import { writable } from 'svelte/store';
+
+// True while the frame worker is still making the frames for the last change
+const framesGeneratingStore = writable<boolean>(false);
+
+export default {
+  subscribe: framesGeneratingStore.subscribe,
+  set: framesGeneratingStore.set,
+};
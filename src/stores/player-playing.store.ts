@@ -0,0 +1,9 @@
+import { writable } from 'svelte/store';
+
+// True while the player is stepping through the frames by itself
+const playerPlayingStore = writable<boolean>(false);
+
+export default {
+  subscribe: playerPlayingStore.subscribe,
+  set: playerPlayingStore.set,
+};
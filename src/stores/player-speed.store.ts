@@ -0,0 +1,9 @@
+import { writable } from 'svelte/store';
+
+// How many times faster than real time the player plays the frames
+const playerSpeedStore = writable<number>(1);
+
+export default {
+  subscribe: playerSpeedStore.subscribe,
+  set: playerSpeedStore.set,
+};
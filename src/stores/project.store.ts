@@ -1,8 +1,23 @@
 import { writable, derived, get, type Readable } from "svelte/store";
-import type { Project } from "../types/models";
+import type {
+  ContentReport,
+  LikeStatus,
+  Project,
+  ProjectComment,
+  ProjectVersion,
+  ProjectMember,
+  ProjectInvite,
+  ProjectRole,
+  ProjectScope,
+  ProjectSearchPage,
+  ProjectSort,
+  RemixTree,
+  TagFacet
+} from "../types/models";
 import authStore from "./auth.store";
 import { getConvexClient, createQuery, createMutation } from "./convex.store";
 import { userId } from "./clerk-auth.store";
+import { getCollaborationSeq } from "../core/collaboration/collaboration.blockly";
 import { 
   subscribeToProject, 
   subscribeToUserProjects, 
@@ -83,11 +98,12 @@ export const createProject = createMutation<{
  * Update project using Convex mutation
  */
 export const updateProject = createMutation<{
-  projectId: string;
+  id: string;
   name?: string;
-  workspace?: string;
+  xml?: string;
   tags?: string[];
   isPublic?: boolean;
+  operationSeq?: number;
 }, void>('projects:updateProject');
 
 /**
@@ -97,6 +113,115 @@ export const deleteProject = createMutation<{
   projectId: string;
 }, void>('projects:deleteProject');
 
+/**
+ * Copy a public or shared project into the user's account using Convex mutation
+ */
+export const forkProject = createMutation<{
+  id: string;
+  name?: string;
+}, { projectId: string; project: Project }>('projects:forkProject');
+
+/**
+ * Like a project or take the like back using Convex mutation
+ */
+export const toggleProjectLike = createMutation<{
+  projectId: string;
+}, LikeStatus>('community:toggleLike');
+
+/**
+ * Comment on a project or reply to a comment using Convex mutation
+ */
+export const addProjectComment = createMutation<{
+  projectId: string;
+  body: string;
+  parentId?: string;
+}, ProjectComment>('community:addComment');
+
+/**
+ * Edit a comment using Convex mutation
+ */
+export const editProjectComment = createMutation<{
+  id: string;
+  body: string;
+}, ProjectComment>('community:editComment');
+
+/**
+ * Delete a comment using Convex mutation
+ */
+export const deleteProjectComment = createMutation<{
+  id: string;
+}, void>('community:deleteComment');
+
+/**
+ * Report a project or comment as abusive using Convex mutation
+ */
+export const reportProjectContent = createMutation<{
+  projectId: string;
+  commentId?: string;
+  reason: string;
+}, void>('community:reportContent');
+
+/**
+ * Dismiss or uphold the reports on a project or comment using Convex mutation
+ */
+export const resolveContentReport = createMutation<{
+  id: string;
+  action: 'dismiss' | 'uphold';
+}, void>('community:resolveReport');
+
+/**
+ * Create a named checkpoint of the project using Convex mutation
+ */
+export const createProjectCheckpoint = createMutation<{
+  projectId: string;
+  name: string;
+}, ProjectVersion>('projectVersions:createCheckpoint');
+
+/**
+ * Restore a project version using Convex mutation
+ */
+export const restoreProjectVersion = createMutation<{
+  id: string;
+}, Project>('projectVersions:restoreProjectVersion');
+
+/**
+ * Create a project invite link using Convex mutation
+ */
+export const createProjectInvite = createMutation<{
+  projectId: string;
+  role: ProjectMember['role'];
+  expiresInDays: number;
+}, ProjectInvite>('sharing:createInvite');
+
+/**
+ * Close a project invite link using Convex mutation
+ */
+export const revokeProjectInvite = createMutation<{
+  id: string;
+}, void>('sharing:revokeInvite');
+
+/**
+ * Join a project with an invite token using Convex mutation
+ */
+export const acceptProjectInvite = createMutation<{
+  token: string;
+}, { projectId: string; role: ProjectRole }>('sharing:acceptInvite');
+
+/**
+ * Change a project member's role using Convex mutation
+ */
+export const updateProjectMemberRole = createMutation<{
+  id: string;
+  role: ProjectMember['role'];
+}, void>('sharing:updateMemberRole');
+
+/**
+ * Remove a project member using Convex mutation
+ */
+export const removeProjectMember = createMutation<{
+  id: string;
+}, void>('sharing:removeMember');
+
 /**
  * Load project by ID with offline support
  */
@@ -229,8 +354,9 @@ export async function saveCurrentProject(workspace: string): Promise<void> {
     if (navigator.onLine) {
       try {
         await updateProject({
-          projectId: currentState.projectId,
-          workspace
+          id: currentState.projectId,
+          xml: workspace,
+          operationSeq: getCollaborationSeq()
         });
         
         console.log('Project saved to server successfully');
@@ -364,12 +490,12 @@ export function getUserProjects(userId: string): Readable<{
  * Get public projects (reactive query) with offline support
  */
 export function getPublicProjects(): Readable<{
-  data: Project[] | null;
+  data: Array<Project & { _id: string }> | null;
   isLoading: boolean;
   error: string | null;
   isOffline?: boolean;
 }> {
-  const query = createQuery<Project[]>('projects:getPublicProjects');
+  const query = createQuery<Array<Project & { _id: string }>>('projects:getPublicProjects');
   
   return derived([query, isOnline], ([$query, $isOnline]) => ({
     data: $query.data,
@@ -379,6 +505,216 @@ export function getPublicProjects(): Readable<{
   }));
 }
 
+/**
+ * Search the user's projects or the public projects one page at a time
+ * Pass the previous page's continueCursor to load the next page
+ */
+export async function searchProjects(options: {
+  scope: ProjectScope;
+  search?: string;
+  tag?: string;
+  sort?: ProjectSort;
+  cursor: string | null;
+  pageSize?: number;
+}): Promise<ProjectSearchPage> {
+  const { cursor, pageSize = 20, ...filters } = options;
+  const convexClient = getConvexClient();
+  return await convexClient.query('projects:searchProjects', {
+    ...filters,
+    search: filters.search || undefined,
+    tag: filters.tag || undefined,
+    paginationOpts: { numItems: pageSize, cursor }
+  });
+}
+
+/**
+ * Get the tags used by the user's projects or the public projects (reactive query)
+ */
+export function getProjectTags(scope: ProjectScope): Readable<{
+  data: TagFacet[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<TagFacet[]>('projects:getProjectTags', { scope });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get a project's like count and whether the user liked it (reactive query)
+ */
+export function getLikeStatus(projectId: string): Readable<{
+  data: LikeStatus | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<LikeStatus>('community:getLikeStatus', { projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get a project's comments, oldest first (reactive query)
+ */
+export function getProjectComments(projectId: string): Readable<{
+  data: ProjectComment[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<ProjectComment[]>('community:getProjectComments', { projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get the reports waiting for an admin (reactive query)
+ */
+export function getOpenReports(): Readable<{
+  data: ContentReport[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<ContentReport[]>('community:getOpenReports');
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get the projects a project was remixed from and its public remixes (reactive query)
+ */
+export function getRemixTree(projectId: string): Readable<{
+  data: RemixTree | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<RemixTree | null>('projects:getRemixTree', { id: projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get a project's version history (reactive query)
+ */
+export function getProjectVersions(projectId: string): Readable<{
+  data: ProjectVersion[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<ProjectVersion[]>('projectVersions:getProjectVersions', { projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Load a single project version including its workspace
+ */
+export async function loadProjectVersion(versionId: string): Promise<ProjectVersion | null> {
+  const convexClient = getConvexClient();
+  return await convexClient.query('projectVersions:getProjectVersion', { id: versionId });
+}
+
+/**
+ * Restore the current project to a version, the restore is added to the history
+ */
+export async function restoreCurrentProjectToVersion(versionId: string): Promise<Project> {
+  const currentState = getCurrentProjectState();
+
+  if (!currentState.projectId) {
+    throw new Error('No project ID to restore');
+  }
+
+  try {
+    const project = await restoreProjectVersion({ id: versionId });
+
+    projectStore.update(state => ({
+      ...state,
+      project,
+      error: null
+    }));
+
+    console.log(`Project restored to version ${versionId}`);
+    return project;
+  } catch (error) {
+    console.error('Error restoring project version:', error);
+    throw error;
+  }
+}
+
+/**
+ * Get the people a project is shared with (reactive query)
+ */
+export function getProjectMembers(projectId: string): Readable<{
+  data: ProjectMember[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<ProjectMember[]>('sharing:getProjectMembers', { projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get a project's open invite links (reactive query)
+ */
+export function getProjectInvites(projectId: string): Readable<{
+  data: ProjectInvite[] | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<ProjectInvite[]>('sharing:getProjectInvites', { projectId });
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
+/**
+ * Get the projects other people shared with the current user (reactive query)
+ */
+export function getSharedProjects(): Readable<{
+  data: Array<Project & { _id: string }> | null;
+  isLoading: boolean;
+  error: string | null;
+}> {
+  const query = createQuery<Array<Project & { _id: string }>>('sharing:getSharedProjects');
+
+  return derived(query, ($query) => ({
+    data: $query.data,
+    isLoading: $query.isLoading,
+    error: $query.error ? $query.error.message : null
+  }));
+}
+
 /**
  * Subscribe to real-time project updates
  */
@@ -892,15 +1228,46 @@ const enhancedProjectStore = {
   restoreCurrentProjectFromBackup,
   getCurrentProjectBackupHistory,
   getDataIntegrityStatus,
+
+  // Version history
+  getProjectVersions,
+  loadProjectVersion,
+  restoreCurrentProjectToVersion,
+
+  // Sharing
+  getProjectMembers,
+  getProjectInvites,
+  getSharedProjects,
+  createProjectInvite,
+  revokeProjectInvite,
+  acceptProjectInvite,
+  updateProjectMemberRole,
+  removeProjectMember,
+
+  // Community
+  getLikeStatus,
+  getProjectComments,
+  getOpenReports,
+  toggleProjectLike,
+  addProjectComment,
+  editProjectComment,
+  deleteProjectComment,
+  reportProjectContent,
+  resolveContentReport,
   
   // Convex mutations
   createProject,
   updateProject,
   deleteProject,
+  createProjectCheckpoint,
+  forkProject,
   
   // Reactive queries
   getUserProjects,
-  getPublicProjects
+  getPublicProjects,
+  getRemixTree,
+  getProjectTags,
+  searchProjects
 };
 
 /**
@@ -0,0 +1,9 @@
+import { writable } from 'svelte/store';
+
+// The id of the block selected in the workspace, null if nothing is selected
+const selectedBlockStore = writable<string | null>(null);
+
+export default {
+  subscribe: selectedBlockStore.subscribe,
+  set: selectedBlockStore.set,
+};
@@ -0,0 +1,85 @@
+/**
+ * Contract test for Convex collaborative editing
+ * Runs the operation log handlers against an in memory database
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFakeCtx, run } from '../convex.helper';
+import { createProject, deleteProject, getProject, updateProject } from '../../../convex/projects';
+import { getOperations, submitOperations, updatePresence } from '../../../convex/collaboration';
+
+const workspace = '<xml><block type="arduino_loop"></block></xml>';
+
+const changeField = (value: string) => ({
+  type: 'change',
+  blockId: 'block1',
+  key: 'block1:field:NUM',
+  event: JSON.stringify({ type: 'change', blockId: 'block1', element: 'field', name: 'NUM', newValue: value }),
+});
+
+describe('Convex Collaboration Contract', () => {
+  let ctx: ReturnType<typeof createFakeCtx>;
+  let projectId: string;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    ctx = createFakeCtx();
+    ({ projectId } = await run(createProject, ctx, { name: 'Shared Project', workspace, boardType: 'uno' }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const submit = (baseSeq: number, values: string[]) =>
+    run(submitOperations, ctx, { projectId, clientId: 'client-a', baseSeq, operations: values.map(changeField) });
+
+  it('should store the seq a save includes', async () => {
+    await submit(0, ['1', '2', '3']);
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 2 });
+
+    const project = await run(getProject, ctx, { id: projectId });
+    expect(project.operationSeq).toBe(2);
+  });
+
+  it('should only replay the operations after the saved seq', async () => {
+    await submit(0, ['1', '2', '3']);
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 2 });
+
+    const project = await run(getProject, ctx, { id: projectId });
+    const operations = await run(getOperations, ctx, { projectId, afterSeq: project.operationSeq });
+    expect(operations.map((o: any) => o.seq)).toEqual([3]);
+  });
+
+  it('should trim saved operations once clients have had time to apply them', async () => {
+    await submit(0, ['1', '2', '3']);
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 2 });
+    expect(await run(getOperations, ctx, { projectId, afterSeq: 0 })).toHaveLength(3);
+
+    vi.advanceTimersByTime(15 * 60 * 1000);
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 3 });
+    expect(await run(getOperations, ctx, { projectId, afterSeq: 0 })).toHaveLength(0);
+
+    // Numbering carries on after the trimmed operations
+    const { latestSeq } = await submit(3, ['4']);
+    expect(latestSeq).toBe(4);
+  });
+
+  it('should not move the saved seq back', async () => {
+    await submit(0, ['1', '2', '3']);
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 3 });
+    await run(updateProject, ctx, { id: projectId, xml: workspace, operationSeq: 1 });
+
+    const project = await run(getProject, ctx, { id: projectId });
+    expect(project.operationSeq).toBe(3);
+  });
+
+  it('should delete the operations and collaborators with the project', async () => {
+    await submit(0, ['1']);
+    await run(updatePresence, ctx, { projectId, clientId: 'client-a' });
+    await run(deleteProject, ctx, { id: projectId });
+
+    expect(await ctx.db.query('workspaceOperations').collect()).toHaveLength(0);
+    expect(await ctx.db.query('collaborators').collect()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Contract test for Convex community operations
+ * Runs the likes, comments and abuse report handlers against an in memory database
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { createFakeCtx, run } from '../convex.helper';
+import {
+  addComment,
+  deleteComment,
+  editComment,
+  getLikeStatus,
+  getOpenReports,
+  getProjectComments,
+  reportContent,
+  resolveReport,
+  toggleLike,
+} from '../../../convex/community';
+
+describe('Convex Community Contract', () => {
+  let ctx: ReturnType<typeof createFakeCtx>;
+  let projectId: string;
+
+  const createProject = (isPublic: boolean) =>
+    ctx.db.insert('projects', {
+      userId: 'owner',
+      name: 'Test Arduino Project',
+      workspace: '<xml><block type="arduino_setup"></block></xml>',
+      boardType: 'uno',
+      isPublic,
+      canShare: false,
+      likes: 0,
+      views: 0,
+      created: Date.now(),
+      updated: Date.now(),
+    });
+
+  const comment = (userId: string, body: string, parentId?: string) =>
+    run(addComment, ctx.as(userId), { projectId, body, parentId });
+
+  const report = (userId: string, commentId?: string) =>
+    run(reportContent, ctx.as(userId), { projectId, commentId, reason: 'Spam' });
+
+  beforeEach(async () => {
+    ctx = createFakeCtx();
+    projectId = await createProject(true);
+    await ctx.db.insert('profiles', { userId: 'admin', name: 'Admin', email: 'admin@example.com', role: 'admin' });
+  });
+
+  describe('Project Likes', () => {
+    it('should like a project once per user', async () => {
+      expect(await run(toggleLike, ctx.as('user-1'), { projectId })).toEqual({ liked: true, likes: 1 });
+      expect(await run(toggleLike, ctx.as('user-2'), { projectId })).toEqual({ liked: true, likes: 2 });
+
+      expect(await ctx.db.query('projectLikes').collect()).toHaveLength(2);
+      expect((await ctx.db.get(projectId))?.likes).toBe(2);
+    });
+
+    it('should take the like back when toggled again', async () => {
+      await run(toggleLike, ctx.as('user-1'), { projectId });
+      const result = await run(toggleLike, ctx.as('user-1'), { projectId });
+
+      expect(result).toEqual({ liked: false, likes: 0 });
+      expect(await ctx.db.query('projectLikes').collect()).toHaveLength(0);
+    });
+
+    it('should report whether the user liked a project', async () => {
+      await run(toggleLike, ctx.as('user-1'), { projectId });
+
+      expect(await run(getLikeStatus, ctx.as('user-1'), { projectId })).toEqual({ liked: true, likes: 1 });
+      expect(await run(getLikeStatus, ctx.as('user-2'), { projectId })).toEqual({ liked: false, likes: 1 });
+    });
+
+    it('should not allow likes on private projects', async () => {
+      projectId = await createProject(false);
+
+      await expect(run(toggleLike, ctx.as('user-1'), { projectId })).rejects.toThrow('access denied');
+    });
+  });
+
+  describe('Project Comments', () => {
+    it('should reply to a comment and return comments oldest first', async () => {
+      const first = await comment('user-1', 'Nice blinking LED!');
+      const reply = await comment('user-2', 'Thanks!', first._id);
+
+      const comments = await run(getProjectComments, ctx, { projectId });
+      expect(comments.map((c: any) => c._id)).toEqual([first._id, reply._id]);
+      expect(comments[1].parentId).toBe(first._id);
+    });
+
+    it('should reject empty comments', async () => {
+      await expect(comment('user-1', '   ')).rejects.toThrow('Comment must be between 1 and 2000 characters');
+    });
+
+    it('should only let authors edit their comments', async () => {
+      const { _id } = await comment('user-1', 'Nice blinking LED!');
+
+      const edited = await run(editComment, ctx.as('user-1'), { id: _id, body: 'Nice fading LED!' });
+      expect(edited.body).toBe('Nice fading LED!');
+      expect(edited).toHaveProperty('edited');
+
+      await expect(run(editComment, ctx.as('user-2'), { id: _id, body: 'Hacked' })).rejects.toThrow('access denied');
+    });
+
+    it('should keep deleted comments with replies in the thread', async () => {
+      const first = await comment('user-1', 'Nice blinking LED!');
+      await comment('user-2', 'Thanks!', first._id);
+
+      await run(deleteComment, ctx.as('user-1'), { id: first._id });
+
+      const comments = await run(getProjectComments, ctx, { projectId });
+      expect(comments[0]).toMatchObject({ _id: first._id, body: '', deleted: true });
+      expect(comments[1].parentId).toBe(first._id);
+    });
+  });
+
+  describe('Abuse Reports', () => {
+    it('should not accept the same report twice from a user', async () => {
+      await report('user-1');
+
+      await expect(report('user-1')).rejects.toThrow('You already reported this');
+    });
+
+    it('should hide a project once three users reported it', async () => {
+      await report('user-1');
+      await report('user-2');
+      expect((await ctx.db.get(projectId))?.hidden).toBeUndefined();
+
+      await report('user-3');
+      expect((await ctx.db.get(projectId))?.hidden).toBe(true);
+
+      // Hidden projects are only open to the people they are shared with
+      await expect(run(toggleLike, ctx.as('user-4'), { projectId })).rejects.toThrow('access denied');
+      expect(await run(getLikeStatus, ctx.as('owner'), { projectId })).toEqual({ liked: false, likes: 0 });
+    });
+
+    it('should only show hidden comments to their author', async () => {
+      const { _id } = await comment('user-1', 'Buy followers here');
+      await report('user-2', _id);
+      await report('user-3', _id);
+      await report('user-4', _id);
+
+      expect(await run(getProjectComments, ctx.as('user-2'), { projectId })).toHaveLength(0);
+      expect(await run(getProjectComments, ctx.as('owner'), { projectId })).toHaveLength(0);
+      expect(await run(getProjectComments, ctx.as(null), { projectId })).toHaveLength(0);
+
+      const own = await run(getProjectComments, ctx.as('user-1'), { projectId });
+      expect(own).toHaveLength(1);
+      expect(own[0].hidden).toBe(true);
+    });
+
+    it('should only show open reports to admins', async () => {
+      await report('user-1');
+
+      await expect(run(getOpenReports, ctx.as('user-1'), {})).rejects.toThrow('Only admins');
+
+      const reports = await run(getOpenReports, ctx.as('admin'), {});
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({ status: 'open', projectName: 'Test Arduino Project', hidden: false });
+    });
+
+    it('should show the content again when the reports are dismissed', async () => {
+      const { _id } = await comment('user-1', 'Buy followers here');
+      await report('user-2', _id);
+      await report('user-3', _id);
+      const [first] = await ctx.db.query('reports').collect();
+      await report('user-4', _id);
+
+      await run(resolveReport, ctx.as('admin'), { id: first._id, action: 'dismiss' });
+
+      expect(await run(getOpenReports, ctx, {})).toHaveLength(0);
+      expect(await run(getProjectComments, ctx.as('user-2'), { projectId })).toHaveLength(1);
+    });
+
+    it('should keep the content hidden when the reports are upheld', async () => {
+      await report('user-1');
+      await report('user-2');
+      await report('user-3');
+      const [first] = await ctx.db.query('reports').collect();
+
+      await run(resolveReport, ctx.as('admin'), { id: first._id, action: 'uphold' });
+
+      expect((await ctx.db.get(projectId))?.hidden).toBe(true);
+      const reports = await ctx.db.query('reports').collect();
+      expect(reports.every((r: any) => r.status === 'upheld')).toBe(true);
+    });
+  });
+});
@@ -4,7 +4,10 @@
  * These tests MUST FAIL until the actual implementation is complete
  */
 
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createFakeCtx, run } from '../convex.helper';
+import { createProject, updateProject } from '../../../convex/projects';
+import { getProjectVersion, getProjectVersions } from '../../../convex/projectVersions';
 
 // Mock Convex client - will be replaced with actual implementation
 const mockConvex = {
@@ -260,4 +263,53 @@ describe('Convex Project CRUD Contract', () => {
       expect(result.project.checksum).toMatch(/^sha256-/);
     });
   });
-});
\ No newline at end of file
+
+  describe('Saving the workspace', () => {
+    const savedWorkspace = '<xml><block type="led_on"></block></xml>';
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should record each save as an auto version', async () => {
+      const ctx = createFakeCtx();
+      const { projectId } = await run(createProject, ctx, {
+        name: 'Test Project',
+        workspace: mockProject.workspace,
+        boardType: 'uno',
+      });
+
+      vi.advanceTimersByTime(10 * 60 * 1000);
+      await run(updateProject, ctx, { id: projectId, xml: savedWorkspace });
+
+      const versions = await run(getProjectVersions, ctx, { projectId });
+      expect(versions).toHaveLength(2);
+      expect(versions[0].kind).toBe('auto');
+
+      const latest = await run(getProjectVersion, ctx, { id: versions[0]._id });
+      expect(latest.workspace).toBe(savedWorkspace);
+      expect((await ctx.db.get(projectId))?.workspace).toBe(savedWorkspace);
+    });
+
+    it('should fold quick saves into the latest auto version', async () => {
+      const ctx = createFakeCtx();
+      const { projectId } = await run(createProject, ctx, {
+        name: 'Test Project',
+        workspace: mockProject.workspace,
+        boardType: 'uno',
+      });
+
+      vi.advanceTimersByTime(60 * 1000);
+      await run(updateProject, ctx, { id: projectId, xml: savedWorkspace });
+
+      const versions = await run(getProjectVersions, ctx, { projectId });
+      expect(versions).toHaveLength(1);
+      const latest = await run(getProjectVersion, ctx, { id: versions[0]._id });
+      expect(latest.workspace).toBe(savedWorkspace);
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// An in memory stand in for a Convex mutation or query ctx, so the handlers in convex/ can run in tests
+// Indexes are not declared, withIndex filters on the fields it is given and keeps documents in insertion order
+
+type Doc = { _id: string; _creationTime: number; [field: string]: any };
+type Expression = (doc: Doc) => any;
+
+// Builds the expressions used by filter
+const filterBuilder = {
+  field: (name: string): Expression => (doc) => doc[name],
+  eq: (a: any, b: any): Expression => (doc) => value(a, doc) === value(b, doc),
+  neq: (a: any, b: any): Expression => (doc) => value(a, doc) !== value(b, doc),
+  lt: (a: any, b: any): Expression => (doc) => value(a, doc) < value(b, doc),
+  lte: (a: any, b: any): Expression => (doc) => value(a, doc) <= value(b, doc),
+  gt: (a: any, b: any): Expression => (doc) => value(a, doc) > value(b, doc),
+  gte: (a: any, b: any): Expression => (doc) => value(a, doc) >= value(b, doc),
+  and: (...parts: any[]): Expression => (doc) => parts.every((part) => value(part, doc)),
+  or: (...parts: any[]): Expression => (doc) => parts.some((part) => value(part, doc)),
+  not: (part: any): Expression => (doc) => !value(part, doc),
+};
+
+function value(part: any, doc: Doc) {
+  return typeof part === "function" ? part(doc) : part;
+}
+
+// Records the conditions given to withIndex and withSearchIndex
+function rangeBuilder(conditions: Expression[]) {
+  const range: any = {
+    eq: (field: string, expected: any) => add((doc) => doc[field] === expected),
+    lt: (field: string, limit: any) => add((doc) => doc[field] < limit),
+    lte: (field: string, limit: any) => add((doc) => doc[field] <= limit),
+    gt: (field: string, limit: any) => add((doc) => doc[field] > limit),
+    gte: (field: string, limit: any) => add((doc) => doc[field] >= limit),
+    search: (field: string, text: string) =>
+      add((doc) =>
+        text
+          .toLowerCase()
+          .split(/\s+/)
+          .some((word) => String(doc[field] ?? "").toLowerCase().includes(word))
+      ),
+  };
+  const add = (condition: Expression) => {
+    conditions.push(condition);
+    return range;
+  };
+  return range;
+}
+
+function createQuery(read: () => Doc[]) {
+  const conditions: Expression[] = [];
+  let descending = false;
+
+  const results = () => {
+    const docs = read().filter((doc) => conditions.every((condition) => condition(doc)));
+    return descending ? docs.reverse() : docs;
+  };
+
+  const query = {
+    withIndex(_index: string, range?: (q: any) => any) {
+      range?.(rangeBuilder(conditions));
+      return query;
+    },
+    withSearchIndex(_index: string, search: (q: any) => any) {
+      search(rangeBuilder(conditions));
+      return query;
+    },
+    filter(predicate: (q: typeof filterBuilder) => Expression) {
+      conditions.push(predicate(filterBuilder));
+      return query;
+    },
+    order(order: "asc" | "desc") {
+      descending = order === "desc";
+      return query;
+    },
+    async collect() {
+      return results();
+    },
+    async take(count: number) {
+      return results().slice(0, count);
+    },
+    async first() {
+      return results()[0] ?? null;
+    },
+    async paginate({ numItems, cursor }: { numItems: number; cursor: string | null }) {
+      const docs = results();
+      const start = cursor ? Number(cursor) : 0;
+      const end = start + numItems;
+      return { page: docs.slice(start, end), isDone: end >= docs.length, continueCursor: String(end) };
+    },
+  };
+  return query;
+}
+
+export function createFakeDb() {
+  const tables = new Map<string, Map<string, Doc>>();
+  let nextId = 1;
+
+  const table = (name: string) => {
+    if (!tables.has(name)) {
+      tables.set(name, new Map());
+    }
+    return tables.get(name)!;
+  };
+  const tableOf = (id: string) => table(id.split(":")[0]);
+
+  return {
+    async get(id: string) {
+      return tableOf(id).get(id) ?? null;
+    },
+    async insert(name: string, fields: Record<string, any>) {
+      const id = `${name}:${nextId++}`;
+      table(name).set(id, { ...fields, _id: id, _creationTime: nextId });
+      return id;
+    },
+    async patch(id: string, fields: Record<string, any>) {
+      const doc = tableOf(id).get(id);
+      if (!doc) {
+        throw new Error(`Document ${id} not found`);
+      }
+      for (const [field, fieldValue] of Object.entries(fields)) {
+        if (fieldValue === undefined) {
+          delete doc[field];
+        } else {
+          doc[field] = fieldValue;
+        }
+      }
+    },
+    async replace(id: string, fields: Record<string, any>) {
+      const doc = tableOf(id).get(id);
+      if (!doc) {
+        throw new Error(`Document ${id} not found`);
+      }
+      tableOf(id).set(id, { ...fields, _id: id, _creationTime: doc._creationTime });
+    },
+    async delete(id: string) {
+      tableOf(id).delete(id);
+    },
+    query(name: string) {
+      return createQuery(() => [...table(name).values()]);
+    },
+  };
+}
+
+export function createFakeCtx(userId: string | null = "user-123") {
+  const ctx = {
+    db: createFakeDb(),
+    auth: {
+      getUserIdentity: async () => (ctx.userId ? { subject: ctx.userId, name: "Test User" } : null),
+    },
+    userId,
+    // Runs the next handlers as someone else, null signs out
+    as(otherUserId: string | null) {
+      ctx.userId = otherUserId;
+      return ctx;
+    },
+  };
+  return ctx;
+}
+
+// Runs a query or mutation's handler against the fake ctx
+export function run(func: any, ctx: ReturnType<typeof createFakeCtx>, args: Record<string, any>): Promise<any> {
+  return func._handler(ctx, args);
+}
@@ -0,0 +1,167 @@
+/**
+ * Creates the frames for a workspace with 300 blocks.
+ * A change that only affects the last loop should reuse the frames
+ * for everything before it instead of creating all of them again.
+ * A change to a block in the arduino loop should reuse the setup frames.
+ */
+
+import "../../core/blockly/blocks";
+import type { BlockSvg, Workspace } from "blockly";
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  createArduinoAndWorkSpace,
+  createSetVariableBlockWithValue,
+  createTestEvent,
+} from "../tests.helper";
+import { VariableTypes } from "../../core/blockly/dto/variable.type";
+import type { BlockEvent } from "../../core/blockly/dto/event.type";
+import { saveSensorSetupBlockData } from "../../core/blockly/actions/saveSensorSetupBlockData";
+import { updater } from "../../core/blockly/updater";
+import { connectToArduinoBlock } from "../../core/blockly/helpers/block.helper";
+import {
+  eventToFrameBatchesWithCache,
+  eventToFrameFactory,
+  type FrameCache,
+} from "../../core/frames/event-to-frame.factory";
+import type { ArduinoFrame } from "../../core/frames/arduino.frame";
+import { applyLiveSensorInputs } from "../../core/frames/live-sensor-input";
+import { ARDUINO_PINS } from "../../core/microcontroller/selectBoard";
+
+const LOOP_TIMES = 10;
+
+// Makes all the frames like the frame worker does
+const generateFrames = (event: BlockEvent, cache: FrameCache | undefined) => {
+  const batches = eventToFrameBatchesWithCache(event, cache);
+  const frames: ArduinoFrame[] = [];
+  let batch = batches.next();
+  while (!batch.done) {
+    batch.value.forEach((f) => frames.push(f));
+    batch = batches.next();
+  }
+
+  return { frames, cache: batch.value.cache };
+};
+
+const createCache = (event: BlockEvent) => {
+  const { cache } = generateFrames(event, undefined);
+  expect(cache).toBeDefined();
+
+  return cache as FrameCache;
+};
+
+describe("Frame Generation Performance", () => {
+  let workspace: Workspace;
+  let arduinoBlock: BlockSvg;
+  let buttonSetup: BlockSvg;
+  let firstSetBlock: BlockSvg;
+
+  beforeEach(() => {
+    [workspace, arduinoBlock] = createArduinoAndWorkSpace();
+    arduinoBlock.setFieldValue(LOOP_TIMES.toString(), "LOOP_TIMES");
+
+    buttonSetup = workspace.newBlock("button_setup") as BlockSvg;
+    buttonSetup.setFieldValue(ARDUINO_PINS.PIN_3, "PIN");
+    saveSensorSetupBlockData(createTestEvent(buttonSetup.id)).forEach(updater);
+
+    // 149 set variable blocks with a number block each, the button
+    // setup block and the arduino block make 300 blocks.
+    firstSetBlock = createSetVariableBlockWithValue(
+      workspace,
+      "variable_0",
+      VariableTypes.NUMBER,
+      0
+    );
+    connectToArduinoBlock(firstSetBlock);
+    let lastBlock = firstSetBlock;
+    for (let i = 1; i < 149; i += 1) {
+      const block = createSetVariableBlockWithValue(
+        workspace,
+        `variable_${i}`,
+        VariableTypes.NUMBER,
+        i
+      );
+      lastBlock.nextConnection.connect(block.previousConnection);
+      lastBlock = block;
+    }
+  });
+
+  afterEach(() => {
+    workspace.dispose();
+  });
+
+  it("should have 300 blocks in the workspace", () => {
+    expect(workspace.getAllBlocks(false).length).toBe(300);
+  });
+
+  it("should only rebuild the last loop when its sensor data changes", () => {
+    const event = createTestEvent(arduinoBlock.id);
+    const cache = createCache(event);
+    const changedEvent: BlockEvent = {
+      ...event,
+      blocks: applyLiveSensorInputs(event.blocks, [
+        {
+          blockId: buttonSetup.id,
+          iteration: LOOP_TIMES,
+          data: { is_pressed: false },
+        },
+      ]),
+    };
+
+    const { frames } = generateFrames(changedEvent, cache);
+    expect(frames).toEqual(eventToFrameFactory(changedEvent).frames);
+    const lastLoopFrame = cache.frames.findIndex(
+      (f) =>
+        f.timeLine.function === "loop" && f.timeLine.iteration === LOOP_TIMES
+    );
+    frames
+      .slice(0, lastLoopFrame)
+      .forEach((frame, index) => expect(frame).toBe(cache.frames[index]));
+    expect(frames[lastLoopFrame]).not.toBe(cache.frames[lastLoopFrame]);
+  });
+
+  it("should reuse the frames of the loops that did not change", () => {
+    const event = createTestEvent(arduinoBlock.id);
+    const cache = createCache(event);
+
+    arduinoBlock.setFieldValue((LOOP_TIMES + 1).toString(), "LOOP_TIMES");
+    const { frames } = generateFrames(createTestEvent(arduinoBlock.id), cache);
+
+    expect(frames.slice(0, cache.frames.length)).toEqual(cache.frames);
+    frames
+      .slice(0, cache.frames.length)
+      .forEach((frame, index) => expect(frame).toBe(cache.frames[index]));
+    expect(frames[frames.length - 1].timeLine.iteration).toBe(LOOP_TIMES + 1);
+  });
+
+  it("should reuse the setup frames when a block in the loop changes", () => {
+    const event = createTestEvent(arduinoBlock.id);
+    const cache = createCache(event);
+    const setupFrameCount = cache.frames.findIndex(
+      (f) => f.timeLine.function === "loop"
+    );
+    expect(setupFrameCount).toBeGreaterThan(0);
+
+    const valueBlock = firstSetBlock.getInputTargetBlock("VALUE") as BlockSvg;
+    valueBlock.setFieldValue("500", "NUM");
+    const changedEvent = createTestEvent(arduinoBlock.id);
+    const { frames } = generateFrames(changedEvent, cache);
+
+    expect(frames).toEqual(eventToFrameFactory(changedEvent).frames);
+    frames
+      .slice(0, setupFrameCount)
+      .forEach((frame, index) => expect(frame).toBe(cache.frames[index]));
+    expect(frames[setupFrameCount]).not.toBe(cache.frames[setupFrameCount]);
+  });
+
+  it("should rebuild all the frames when a setup block changes", () => {
+    const event = createTestEvent(arduinoBlock.id);
+    const cache = createCache(event);
+
+    buttonSetup.setFieldValue(ARDUINO_PINS.PIN_4, "PIN");
+    const changedEvent = createTestEvent(arduinoBlock.id);
+    const { frames } = generateFrames(changedEvent, cache);
+
+    expect(frames).toEqual(eventToFrameFactory(changedEvent).frames);
+    expect(frames[0]).not.toBe(cache.frames[0]);
+  });
+});
@@ -23,6 +23,110 @@ export interface Project {
   updated: number;
   isPublic: boolean;
   tags?: string[];
+  operationSeq?: number; // Last collaboration operation in the workspace
+  role?: ProjectRole; // What the current user can do, set when loading a single project
+  forkedFrom?: string; // Project this one was remixed from
+  forks?: number;
+  likes?: number;
+  views?: number;
+  hidden?: boolean; // Hidden from the public while reports are reviewed
+}
+
+export type ProjectRole = 'owner' | 'editor' | 'commenter' | 'viewer';
+
+export interface ProjectMember {
+  _id: string;
+  projectId: string;
+  userId: string;
+  name: string;
+  role: Exclude<ProjectRole, 'owner'>;
+  invitedBy: string;
+  created: number;
+}
+
+export type ProjectScope = 'mine' | 'public';
+
+export type ProjectSort = 'updated' | 'likes' | 'views';
+
+export interface ProjectSearchPage {
+  page: Array<Project & { _id: string }>;
+  isDone: boolean;
+  continueCursor: string;
+}
+
+export interface TagFacet {
+  tag: string;
+  count: number;
+}
+
+export interface RemixNode {
+  _id: string;
+  name: string | null; // Null for private projects
+  author: string | null;
+  forks: number;
+  created: number;
+  remixes?: RemixNode[];
+}
+
+export interface RemixTree {
+  ancestors: RemixNode[]; // From the original project down to the direct parent
+  project: RemixNode;
+}
+
+export interface LikeStatus {
+  liked: boolean;
+  likes: number;
+}
+
+export interface ProjectComment {
+  _id: string;
+  projectId: string;
+  userId: string;
+  authorName: string;
+  parentId?: string; // Set on replies
+  body: string;
+  hidden?: boolean;
+  deleted?: boolean;
+  edited?: number;
+  created: number;
+}
+
+export interface ContentReport {
+  _id: string;
+  projectId: string;
+  commentId?: string;
+  reporterId: string;
+  reason: string;
+  status: 'open' | 'dismissed' | 'upheld';
+  projectName: string | null;
+  commentBody: string | null;
+  hidden: boolean;
+  created: number;
+}
+
+export interface ProjectInvite {
+  _id: string;
+  projectId: string;
+  token: string;
+  role: Exclude<ProjectRole, 'owner'>;
+  createdBy: string;
+  expiresAt: number;
+  uses: number;
+  revoked: boolean;
+  created: number;
+}
+
+export interface ProjectVersion {
+  _id: string;
+  projectId: string;
+  userId: string;
+  workspace?: string; // Only loaded for a single version
+  kind: 'auto' | 'checkpoint' | 'restore';
+  name?: string;
+  restoredFrom?: string;
+  checksum: string;
+  size?: number;
+  created: number;
 }
 
 export interface UserProfile {
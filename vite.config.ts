@@ -22,6 +22,10 @@ export default defineConfig({
   resolve: {
     extensions: ['.js', '.ts', '.svelte']
   },
+  worker: {
+    // The frame worker imports modules that are shared with the app
+    format: 'es'
+  },
   build: {
     target: 'esnext',
     sourcemap: true
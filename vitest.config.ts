@@ -1,7 +1,10 @@
 import { defineConfig } from 'vitest/config';
+import { sveltekit } from '@sveltejs/kit/vite';
 import { resolve } from 'path';
 
 export default defineConfig({
+  // Resolves the $app modules the stores use
+  plugins: [sveltekit()],
   test: {
     globals: true,
     environment: 'node',
@@ -12,7 +15,8 @@ export default defineConfig({
     exclude: [
       'node_modules/**',
       'dist/**',
-      '.svelte-kit/**'
+      '.svelte-kit/**',
+      'src/tests/**/*.helper.ts' // Shared test helpers, not tests
     ],
   },
   resolve: {